@@ -0,0 +1,117 @@
+-- Tenant isolation row-level security
+--
+-- Second layer behind the tenant-scoped Prisma client (src/lib/tenant-prisma.ts).
+-- When a transaction sets app.tenant_id (TENANT_RLS=true), rows of other
+-- tenants are invisible and cannot be written. Sessions that never set it
+-- (sign-in, webhooks, scheduled sync, platform admin) are unaffected.
+--
+-- Apply with: npm run db:rls  (safe to re-run)
+
+CREATE OR REPLACE FUNCTION app_tenant_id() RETURNS text AS $$
+  SELECT NULLIF(current_setting('app.tenant_id', true), '')
+$$ LANGUAGE sql STABLE;
+
+ALTER TABLE tenants ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tenants FORCE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS tenant_isolation ON tenants;
+CREATE POLICY tenant_isolation ON tenants
+  USING (app_tenant_id() IS NULL OR id = app_tenant_id())
+  WITH CHECK (app_tenant_id() IS NULL OR id = app_tenant_id());
+
+ALTER TABLE users ENABLE ROW LEVEL SECURITY;
+ALTER TABLE users FORCE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS tenant_isolation ON users;
+CREATE POLICY tenant_isolation ON users
+  USING (app_tenant_id() IS NULL OR tenant_id = app_tenant_id())
+  WITH CHECK (app_tenant_id() IS NULL OR tenant_id = app_tenant_id());
+
+ALTER TABLE billing_subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE billing_subscriptions FORCE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS tenant_isolation ON billing_subscriptions;
+CREATE POLICY tenant_isolation ON billing_subscriptions
+  USING (app_tenant_id() IS NULL OR tenant_id = app_tenant_id())
+  WITH CHECK (app_tenant_id() IS NULL OR tenant_id = app_tenant_id());
+
+ALTER TABLE tenant_onboarding ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tenant_onboarding FORCE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS tenant_isolation ON tenant_onboarding;
+CREATE POLICY tenant_isolation ON tenant_onboarding
+  USING (app_tenant_id() IS NULL OR tenant_id = app_tenant_id())
+  WITH CHECK (app_tenant_id() IS NULL OR tenant_id = app_tenant_id());
+
+ALTER TABLE integrations_fortnox ENABLE ROW LEVEL SECURITY;
+ALTER TABLE integrations_fortnox FORCE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS tenant_isolation ON integrations_fortnox;
+CREATE POLICY tenant_isolation ON integrations_fortnox
+  USING (app_tenant_id() IS NULL OR tenant_id = app_tenant_id())
+  WITH CHECK (app_tenant_id() IS NULL OR tenant_id = app_tenant_id());
+
+ALTER TABLE integrations_shopify_stores ENABLE ROW LEVEL SECURITY;
+ALTER TABLE integrations_shopify_stores FORCE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS tenant_isolation ON integrations_shopify_stores;
+CREATE POLICY tenant_isolation ON integrations_shopify_stores
+  USING (app_tenant_id() IS NULL OR tenant_id = app_tenant_id())
+  WITH CHECK (app_tenant_id() IS NULL OR tenant_id = app_tenant_id());
+
+ALTER TABLE sync_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sync_settings FORCE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS tenant_isolation ON sync_settings;
+CREATE POLICY tenant_isolation ON sync_settings
+  USING (app_tenant_id() IS NULL OR tenant_id = app_tenant_id())
+  WITH CHECK (app_tenant_id() IS NULL OR tenant_id = app_tenant_id());
+
+ALTER TABLE orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE orders FORCE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS tenant_isolation ON orders;
+CREATE POLICY tenant_isolation ON orders
+  USING (app_tenant_id() IS NULL OR tenant_id = app_tenant_id())
+  WITH CHECK (app_tenant_id() IS NULL OR tenant_id = app_tenant_id());
+
+ALTER TABLE products ENABLE ROW LEVEL SECURITY;
+ALTER TABLE products FORCE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS tenant_isolation ON products;
+CREATE POLICY tenant_isolation ON products
+  USING (app_tenant_id() IS NULL OR tenant_id = app_tenant_id())
+  WITH CHECK (app_tenant_id() IS NULL OR tenant_id = app_tenant_id());
+
+ALTER TABLE sync_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sync_jobs FORCE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS tenant_isolation ON sync_jobs;
+CREATE POLICY tenant_isolation ON sync_jobs
+  USING (app_tenant_id() IS NULL OR tenant_id = app_tenant_id())
+  WITH CHECK (app_tenant_id() IS NULL OR tenant_id = app_tenant_id());
+
+ALTER TABLE sync_job_changes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sync_job_changes FORCE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS tenant_isolation ON sync_job_changes;
+CREATE POLICY tenant_isolation ON sync_job_changes
+  USING (app_tenant_id() IS NULL OR tenant_id = app_tenant_id())
+  WITH CHECK (app_tenant_id() IS NULL OR tenant_id = app_tenant_id());
+
+ALTER TABLE sync_locks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sync_locks FORCE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS tenant_isolation ON sync_locks;
+CREATE POLICY tenant_isolation ON sync_locks
+  USING (app_tenant_id() IS NULL OR tenant_id = app_tenant_id())
+  WITH CHECK (app_tenant_id() IS NULL OR tenant_id = app_tenant_id());
+
+ALTER TABLE customer_mappings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE customer_mappings FORCE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS tenant_isolation ON customer_mappings;
+CREATE POLICY tenant_isolation ON customer_mappings
+  USING (app_tenant_id() IS NULL OR tenant_id = app_tenant_id())
+  WITH CHECK (app_tenant_id() IS NULL OR tenant_id = app_tenant_id());
+
+ALTER TABLE fortnox_documents ENABLE ROW LEVEL SECURITY;
+ALTER TABLE fortnox_documents FORCE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS tenant_isolation ON fortnox_documents;
+CREATE POLICY tenant_isolation ON fortnox_documents
+  USING (app_tenant_id() IS NULL OR tenant_id = app_tenant_id())
+  WITH CHECK (app_tenant_id() IS NULL OR tenant_id = app_tenant_id());
+
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+ALTER TABLE audit_log FORCE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS tenant_isolation ON audit_log;
+CREATE POLICY tenant_isolation ON audit_log
+  USING (app_tenant_id() IS NULL OR tenant_id = app_tenant_id())
+  WITH CHECK (app_tenant_id() IS NULL OR tenant_id = app_tenant_id());
@@ -0,0 +1,48 @@
+-- Data conversions for schema changes that `prisma db push` cannot apply
+--
+-- Columns whose type changed are converted in place here, so existing
+-- rows survive the push instead of making it fail or drop the column.
+-- Each step only runs while the column still has its old type.
+--
+-- Apply with: npm run db:upgrade, then npx prisma db push  (safe to re-run)
+
+-- sync_settings.sku_mapping_rule: free text -> structured JSON rule.
+-- Legacy descriptions are not rules; NULL falls back to the default rule
+-- (see src/lib/sync/sku-mapping.ts).
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'sync_settings' AND column_name = 'sku_mapping_rule' AND data_type = 'text'
+  ) THEN
+    ALTER TABLE sync_settings ALTER COLUMN sku_mapping_rule DROP DEFAULT;
+    ALTER TABLE sync_settings ALTER COLUMN sku_mapping_rule DROP NOT NULL;
+    ALTER TABLE sync_settings ALTER COLUMN sku_mapping_rule TYPE jsonb USING NULL;
+  END IF;
+END $$;
+
+-- sync_settings.vat_handling_mode: free text -> "VatHandlingMode" enum.
+-- Known modes are kept; anything else gets the old default, standard_25.
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'sync_settings' AND column_name = 'vat_handling_mode' AND data_type = 'text'
+  ) THEN
+    IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'VatHandlingMode') THEN
+      CREATE TYPE "VatHandlingMode" AS ENUM ('shopify_tax_lines', 'standard_25', 'no_vat');
+    END IF;
+
+    UPDATE sync_settings
+    SET vat_handling_mode = CASE lower(trim(vat_handling_mode))
+      WHEN 'shopify_tax_lines' THEN 'shopify_tax_lines'
+      WHEN 'no_vat' THEN 'no_vat'
+      ELSE 'standard_25'
+    END;
+
+    ALTER TABLE sync_settings ALTER COLUMN vat_handling_mode DROP DEFAULT;
+    ALTER TABLE sync_settings
+      ALTER COLUMN vat_handling_mode TYPE "VatHandlingMode" USING vat_handling_mode::"VatHandlingMode";
+    ALTER TABLE sync_settings ALTER COLUMN vat_handling_mode SET DEFAULT 'shopify_tax_lines';
+  END IF;
+END $$;
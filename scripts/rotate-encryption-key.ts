@@ -0,0 +1,104 @@
+/**
+ * Encryption Key Rotation
+ *
+ * Re-encrypts every encrypted column with the current ENCRYPTION_KEY.
+ *
+ * Zero-downtime rotation:
+ * 1. Deploy with ENCRYPTION_KEY=<new key> and ENCRYPTION_KEY_PREVIOUS=<old key>
+ *    (the app now writes with the new key and can still read the old one)
+ * 2. Run `npm run encryption:rotate`
+ * 3. Remove ENCRYPTION_KEY_PREVIOUS and redeploy
+ *
+ * Plaintext values written before encryption was enabled are encrypted too.
+ * Pass --dry-run to only report how many values would change.
+ */
+
+import { PrismaClient } from '@/generated/prisma'
+import { needsReencryption, reencrypt } from '@/lib/encryption'
+import { ENCRYPTED_FIELDS } from '@/lib/encrypted-fields'
+
+const BATCH_SIZE = 100
+
+// Unextended client: rows must be read and written as stored ciphertext
+const prisma = new PrismaClient()
+
+type Model = keyof typeof ENCRYPTED_FIELDS
+
+interface RotatableDelegate {
+  findMany(args: {
+    take: number
+    skip?: number
+    cursor?: { id: string }
+    orderBy: { id: 'asc' }
+  }): Promise<Array<Record<string, unknown> & { id: string }>>
+  updateMany(args: {
+    where: Record<string, unknown>
+    data: Record<string, unknown>
+  }): Promise<{ count: number }>
+}
+
+async function rotateModel(model: Model, dryRun: boolean) {
+  const delegate = prisma[model] as unknown as RotatableDelegate
+  const fields: readonly string[] = ENCRYPTED_FIELDS[model]
+  let cursor: string | undefined
+  let rotated = 0
+  let conflicts = 0
+
+  while (true) {
+    const rows = await delegate.findMany({
+      take: BATCH_SIZE,
+      ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+      orderBy: { id: 'asc' },
+    })
+
+    if (rows.length === 0) {
+      break
+    }
+
+    for (const row of rows) {
+      for (const field of fields) {
+        const value = row[field]
+
+        if (typeof value !== 'string' || !needsReencryption(value)) {
+          continue
+        }
+
+        if (dryRun) {
+          rotated++
+          continue
+        }
+
+        // Only overwrite the value we read, so concurrent writes win
+        const result = await delegate.updateMany({
+          where: { id: row.id, [field]: value },
+          data: { [field]: reencrypt(value) },
+        })
+
+        if (result.count === 1) {
+          rotated++
+        } else {
+          conflicts++
+        }
+      }
+    }
+
+    cursor = rows[rows.length - 1].id
+  }
+
+  console.log(`${model}: ${rotated} value(s) ${dryRun ? 'to rotate' : 'rotated'}, ${conflicts} changed concurrently`)
+}
+
+async function main() {
+  const dryRun = process.argv.includes('--dry-run')
+
+  for (const model of Object.keys(ENCRYPTED_FIELDS) as Model[]) {
+    await rotateModel(model, dryRun)
+  }
+}
+
+main()
+  .catch(error => {
+    console.error('Key rotation failed:', error)
+    process.exitCode = 1
+  })
+  .finally(() => prisma.$disconnect())
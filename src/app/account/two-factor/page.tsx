@@ -0,0 +1,21 @@
+/**
+ * Two-Factor Authentication Page
+ *
+ * Enrolment and management of the signed-in user's TOTP second factor.
+ * Users who are required to use 2FA are sent here until they enrol.
+ */
+
+import { getServerSession } from 'next-auth'
+import { redirect } from 'next/navigation'
+import { authOptions } from '@/lib/auth'
+import TwoFactorSettings from './two-factor-settings'
+
+export default async function TwoFactorPage() {
+  const session = await getServerSession(authOptions)
+
+  if (!session) {
+    redirect('/auth/signin?callbackUrl=/account/two-factor')
+  }
+
+  return <TwoFactorSettings />
+}
@@ -0,0 +1,238 @@
+/**
+ * Two-Factor Settings Component
+ *
+ * Client component for enrolling an authenticator app, showing recovery
+ * codes and turning 2FA off
+ */
+
+'use client'
+
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import { useCallback, useEffect, useState, FormEvent } from 'react'
+
+interface TwoFactorStatus {
+  enabled: boolean
+  required: boolean
+  recoveryCodesRemaining: number
+}
+
+interface TwoFactorSetup {
+  secret: string
+  qrCode: string
+}
+
+async function request<T>(url: string, method: string, body?: unknown): Promise<T> {
+  const response = await fetch(url, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  })
+
+  const data = await response.json()
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Request failed')
+  }
+
+  return data
+}
+
+const inputClassName = 'mt-1 appearance-none block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm'
+const buttonClassName = 'w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed'
+const secondaryButtonClassName = 'w-full flex justify-center py-2 px-4 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed'
+
+export default function TwoFactorSettings() {
+  const { update } = useSession()
+  const router = useRouter()
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null)
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null)
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+  const [code, setCode] = useState('')
+  const [error, setError] = useState('')
+  const [loading, setLoading] = useState(false)
+
+  const loadStatus = useCallback(async () => {
+    try {
+      setStatus(await request<TwoFactorStatus>('/api/account/two-factor', 'GET'))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred')
+    }
+  }, [])
+
+  useEffect(() => {
+    loadStatus()
+  }, [loadStatus])
+
+  async function run(action: () => Promise<void>) {
+    setError('')
+    setLoading(true)
+
+    try {
+      await action()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  function handleStartSetup() {
+    return run(async () => {
+      setSetup(await request<TwoFactorSetup>('/api/account/two-factor', 'POST'))
+    })
+  }
+
+  function handleEnable(e: FormEvent<HTMLFormElement>) {
+    e.preventDefault()
+    return run(async () => {
+      const data = await request<{ recoveryCodes: string[] }>('/api/account/two-factor/enable', 'POST', { code })
+      // Lifts the enrolment restriction from the current session
+      await update({ twoFactorEnrolled: true })
+      setRecoveryCodes(data.recoveryCodes)
+      setSetup(null)
+      setCode('')
+      await loadStatus()
+    })
+  }
+
+  function handleRegenerate(e: FormEvent<HTMLFormElement>) {
+    e.preventDefault()
+    return run(async () => {
+      const data = await request<{ recoveryCodes: string[] }>('/api/account/two-factor/recovery-codes', 'POST', { code })
+      setRecoveryCodes(data.recoveryCodes)
+      setCode('')
+      await loadStatus()
+    })
+  }
+
+  function handleDisable() {
+    return run(async () => {
+      await request('/api/account/two-factor', 'DELETE', { code })
+      setRecoveryCodes(null)
+      setCode('')
+      await loadStatus()
+    })
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div>
+          <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+            Two-factor authentication
+          </h2>
+          {status?.required && !status.enabled && (
+            <p className="mt-2 text-center text-sm text-gray-600">
+              Your account requires two-factor authentication. Set it up to continue.
+            </p>
+          )}
+        </div>
+
+        {error && (
+          <div className="rounded-md bg-red-50 p-4">
+            <h3 className="text-sm font-medium text-red-800">{error}</h3>
+          </div>
+        )}
+
+        {recoveryCodes && (
+          <div className="rounded-md bg-yellow-50 p-4 space-y-3">
+            <h3 className="text-sm font-medium text-yellow-800">
+              Save these recovery codes. Each one signs you in once if you lose your device. They will not be shown again.
+            </h3>
+            <ul className="grid grid-cols-2 gap-2 font-mono text-sm text-gray-900">
+              {recoveryCodes.map(recoveryCode => (
+                <li key={recoveryCode}>{recoveryCode}</li>
+              ))}
+            </ul>
+            <button type="button" className={buttonClassName} onClick={() => router.push('/dashboard')}>
+              Continue
+            </button>
+          </div>
+        )}
+
+        {!status && !error && <p className="text-center text-sm text-gray-600">Loading...</p>}
+
+        {status && !status.enabled && !setup && (
+          <button type="button" className={buttonClassName} onClick={handleStartSetup} disabled={loading}>
+            {loading ? 'Preparing...' : 'Set up authenticator app'}
+          </button>
+        )}
+
+        {setup && (
+          <form className="space-y-6" onSubmit={handleEnable}>
+            <div className="text-sm text-gray-700 space-y-3">
+              <p>Scan this QR code with your authenticator app, then enter the code it shows.</p>
+              {/* eslint-disable-next-line @next/next/no-img-element */}
+              <img src={setup.qrCode} alt="Two-factor QR code" className="mx-auto h-48 w-48" />
+              <p>
+                Can&apos;t scan it? Enter this key instead:{' '}
+                <code className="font-mono break-all">{setup.secret}</code>
+              </p>
+            </div>
+
+            <div>
+              <label htmlFor="code" className="block text-sm font-medium text-gray-700">
+                Authentication code
+              </label>
+              <input
+                id="code"
+                name="code"
+                type="text"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                required
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                className={inputClassName}
+                disabled={loading}
+              />
+            </div>
+
+            <button type="submit" className={buttonClassName} disabled={loading}>
+              {loading ? 'Verifying...' : 'Turn on two-factor authentication'}
+            </button>
+          </form>
+        )}
+
+        {status?.enabled && !recoveryCodes && (
+          <form className="space-y-6" onSubmit={handleRegenerate}>
+            <div className="rounded-md bg-green-50 p-4">
+              <h3 className="text-sm font-medium text-green-800">
+                Two-factor authentication is on. {status.recoveryCodesRemaining} recovery codes left.
+              </h3>
+            </div>
+
+            <div>
+              <label htmlFor="code" className="block text-sm font-medium text-gray-700">
+                Authentication code
+              </label>
+              <input
+                id="code"
+                name="code"
+                type="text"
+                autoComplete="one-time-code"
+                required
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                className={inputClassName}
+                placeholder="Code from your app or a recovery code"
+                disabled={loading}
+              />
+            </div>
+
+            <button type="submit" className={buttonClassName} disabled={loading}>
+              New recovery codes
+            </button>
+
+            {!status.required && (
+              <button type="button" className={secondaryButtonClassName} onClick={handleDisable} disabled={loading || !code}>
+                Turn off two-factor authentication
+              </button>
+            )}
+          </form>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,25 @@
+/**
+ * Account Sessions API Route
+ *
+ * DELETE - Sign out of all devices, including the current one
+ *
+ * Not available while impersonating.
+ */
+
+import { NextResponse } from 'next/server'
+import { withRoute } from '@/lib/api-route'
+import { ForbiddenError } from '@/lib/auth-context'
+import { revokeAllSessions } from '@/lib/session-version'
+
+export const DELETE = withRoute(
+  { requireTenant: false },
+  async ({ auth }) => {
+    if (auth.impersonatorId) {
+      throw new ForbiddenError('Sessions cannot be revoked while impersonating')
+    }
+
+    await revokeAllSessions(auth.userId)
+
+    return NextResponse.json({ success: true })
+  }
+)
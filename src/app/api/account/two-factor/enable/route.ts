@@ -0,0 +1,33 @@
+/**
+ * Two-Factor Enrolment Confirmation API Route
+ *
+ * POST - Confirm enrolment with a code from the authenticator app
+ * ({ code }). Returns the recovery codes, shown only this once.
+ */
+
+import { NextResponse } from 'next/server'
+import { withRoute } from '@/lib/api-route'
+import { ForbiddenError } from '@/lib/auth-context'
+import { enableTwoFactor, TwoFactorError } from '@/lib/two-factor'
+
+export const POST = withRoute(
+  { requireTenant: false, errors: [[TwoFactorError, 400]] },
+  async ({ request, auth }) => {
+    if (auth.impersonatorId) {
+      throw new ForbiddenError('Two-factor settings cannot be changed while impersonating')
+    }
+
+    const { code } = await request.json()
+
+    if (typeof code !== 'string' || !code) {
+      return NextResponse.json(
+        { error: 'code is required' },
+        { status: 400 }
+      )
+    }
+
+    const recoveryCodes = await enableTwoFactor(auth.userId, code)
+
+    return NextResponse.json({ recoveryCodes })
+  }
+)
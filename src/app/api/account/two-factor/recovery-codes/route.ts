@@ -0,0 +1,32 @@
+/**
+ * Recovery Codes API Route
+ *
+ * POST - Replace all recovery codes ({ code }); the old ones stop working
+ */
+
+import { NextResponse } from 'next/server'
+import { withRoute } from '@/lib/api-route'
+import { ForbiddenError } from '@/lib/auth-context'
+import { regenerateRecoveryCodes, TwoFactorError } from '@/lib/two-factor'
+
+export const POST = withRoute(
+  { requireTenant: false, errors: [[TwoFactorError, 400]] },
+  async ({ request, auth }) => {
+    if (auth.impersonatorId) {
+      throw new ForbiddenError('Two-factor settings cannot be changed while impersonating')
+    }
+
+    const { code } = await request.json()
+
+    if (typeof code !== 'string' || !code) {
+      return NextResponse.json(
+        { error: 'code is required' },
+        { status: 400 }
+      )
+    }
+
+    const recoveryCodes = await regenerateRecoveryCodes(auth.userId, code)
+
+    return NextResponse.json({ recoveryCodes })
+  }
+)
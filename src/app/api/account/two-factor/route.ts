@@ -0,0 +1,59 @@
+/**
+ * Two-Factor Authentication API Route
+ *
+ * GET    - 2FA status of the signed-in user
+ * POST   - Start enrolment: returns a new secret and its QR code
+ * DELETE - Turn 2FA off ({ code }); not allowed where it is required
+ *
+ * Not available while impersonating.
+ */
+
+import { NextResponse } from 'next/server'
+import { withRoute } from '@/lib/api-route'
+import { ForbiddenError } from '@/lib/auth-context'
+import {
+  disableTwoFactor,
+  getTwoFactorStatus,
+  startTwoFactorSetup,
+  TwoFactorError,
+} from '@/lib/two-factor'
+
+export const GET = withRoute(
+  { requireTenant: false },
+  async ({ auth }) => {
+    return NextResponse.json(await getTwoFactorStatus(auth.userId))
+  }
+)
+
+export const POST = withRoute(
+  { requireTenant: false, errors: [[TwoFactorError, 400]] },
+  async ({ auth }) => {
+    if (auth.impersonatorId) {
+      throw new ForbiddenError('Two-factor settings cannot be changed while impersonating')
+    }
+
+    return NextResponse.json(await startTwoFactorSetup(auth.userId))
+  }
+)
+
+export const DELETE = withRoute(
+  { requireTenant: false, errors: [[TwoFactorError, 400]] },
+  async ({ request, auth }) => {
+    if (auth.impersonatorId) {
+      throw new ForbiddenError('Two-factor settings cannot be changed while impersonating')
+    }
+
+    const { code } = await request.json()
+
+    if (typeof code !== 'string' || !code) {
+      return NextResponse.json(
+        { error: 'code is required' },
+        { status: 400 }
+      )
+    }
+
+    await disableTwoFactor(auth.userId, code)
+
+    return NextResponse.json({ success: true })
+  }
+)
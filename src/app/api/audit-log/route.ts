@@ -0,0 +1,72 @@
+/**
+ * Audit Log API Route
+ *
+ * GET - Paginated audit log entries, newest first
+ *
+ * Query parameters: entityType, userId, action, from, to (ISO dates),
+ * cursor, limit and format (json, csv or ndjson). Tenant users only see
+ * their own tenant; platform admins see all tenants or one via tenantId.
+ */
+
+import { NextResponse } from 'next/server'
+import { withRoute } from '@/lib/api-route'
+import { ForbiddenError } from '@/lib/auth-context'
+import { canAccessTenant, isPlatformAdmin, Permission } from '@/lib/rbac'
+import { parsePageParams } from '@/lib/pagination'
+import {
+  AUDIT_LOG_EXPORT_FORMATS,
+  AuditLogExportFormat,
+  AuditLogQueryError,
+  listAuditLog,
+  parseAuditLogFilters,
+  streamAuditLogExport,
+} from '@/lib/audit-log'
+
+const EXPORT_CONTENT_TYPES: Record<AuditLogExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson; charset=utf-8',
+}
+
+export const GET = withRoute(
+  {
+    permissions: [Permission.VIEW_AUDIT_LOG],
+    requireTenant: false,
+    errors: [[AuditLogQueryError, 400]],
+  },
+  async ({ request, auth }) => {
+    const { searchParams } = new URL(request.url)
+    const requestedTenantId = searchParams.get('tenantId')
+
+    if (!isPlatformAdmin(auth.role)) {
+      if (!auth.tenantId || (requestedTenantId && !canAccessTenant(auth.role, auth.tenantId, requestedTenantId))) {
+        throw new ForbiddenError()
+      }
+    }
+
+    const tenantId = isPlatformAdmin(auth.role) ? requestedTenantId : auth.tenantId
+    const where = parseAuditLogFilters(searchParams, tenantId)
+    const format = searchParams.get('format') ?? 'json'
+
+    if (format === 'json') {
+      return NextResponse.json(await listAuditLog(where, parsePageParams(searchParams)))
+    }
+
+    if (!AUDIT_LOG_EXPORT_FORMATS.includes(format as AuditLogExportFormat)) {
+      return NextResponse.json(
+        { error: `format must be one of json, ${AUDIT_LOG_EXPORT_FORMATS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const exportFormat = format as AuditLogExportFormat
+    const filename = `audit-log-${new Date().toISOString().slice(0, 10)}.${exportFormat}`
+
+    return new Response(streamAuditLogExport(where, exportFormat), {
+      headers: {
+        'Content-Type': EXPORT_CONTENT_TYPES[exportFormat],
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    })
+  }
+)
@@ -0,0 +1,57 @@
+/**
+ * Forgot Password API Route
+ *
+ * Emails a password reset link. The response is identical whether or
+ * not the account exists, and is returned before the email is sent.
+ * Requests are rate limited per address and IP.
+ */
+
+import { after, NextResponse } from 'next/server'
+import { requestPasswordReset } from '@/lib/password-reset'
+import { getClientIp, throttleEmailRequest, TooManyAttemptsError } from '@/lib/sign-in-throttle'
+
+export async function POST(request: Request) {
+  let email: string
+  try {
+    const body = await request.json()
+    email = typeof body?.email === 'string' ? body.email : ''
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid JSON body' },
+      { status: 400 }
+    )
+  }
+
+  if (!email) {
+    return NextResponse.json(
+      { error: 'Email is required' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    await throttleEmailRequest('password_reset', email, getClientIp(request.headers))
+  } catch (error) {
+    if (error instanceof TooManyAttemptsError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 429, headers: { 'Retry-After': String(Math.ceil(error.retryAfterMs / 1000)) } }
+      )
+    }
+    throw error
+  }
+
+  // Sent after the response so every request takes as long, account or not
+  after(async () => {
+    try {
+      await requestPasswordReset(email)
+    } catch (error) {
+      console.error('Password reset request error:', error)
+    }
+  })
+
+  return NextResponse.json({
+    success: true,
+    message: 'If an account exists for this email, a reset link has been sent.',
+  })
+}
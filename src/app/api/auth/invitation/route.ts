@@ -0,0 +1,77 @@
+/**
+ * Invitation API Route
+ *
+ * GET  - Details of a pending invitation (?token=...)
+ * POST - Accept an invitation by choosing a password
+ */
+
+import { NextResponse } from 'next/server'
+import { acceptInvitation, getInvitation, InvitationError } from '@/lib/invitations'
+
+export async function GET(request: Request) {
+  try {
+    const token = new URL(request.url).searchParams.get('token')
+    const invitation = token ? await getInvitation(token) : null
+
+    if (!invitation) {
+      return NextResponse.json(
+        { error: 'This invitation is invalid or has expired' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      email: invitation.email,
+      name: invitation.name,
+      companyName: invitation.tenant.companyName,
+    })
+  } catch (error) {
+    console.error('Invitation lookup error:', error)
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const { token, name, password } = await request.json()
+
+    if (typeof token !== 'string' || typeof password !== 'string' || !token || !password) {
+      return NextResponse.json(
+        { error: 'Token and password are required' },
+        { status: 400 }
+      )
+    }
+
+    const user = await acceptInvitation(token, {
+      name: typeof name === 'string' ? name : undefined,
+      password,
+    })
+
+    return NextResponse.json({ success: true, email: user.email })
+  } catch (error) {
+    if (error instanceof InvitationError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: 'Invalid JSON body' },
+        { status: 400 }
+      )
+    }
+
+    console.error('Invitation accept error:', error)
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
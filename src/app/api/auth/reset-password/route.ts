@@ -0,0 +1,49 @@
+/**
+ * Reset Password API Route
+ *
+ * Sets a new password with a single-use reset token
+ */
+
+import { NextResponse } from 'next/server'
+import { PasswordResetError, resetPassword } from '@/lib/password-reset'
+
+export async function POST(request: Request) {
+  try {
+    const { token, password } = await request.json()
+
+    if (typeof token !== 'string' || typeof password !== 'string' || !token || !password) {
+      return NextResponse.json(
+        { error: 'Token and password are required' },
+        { status: 400 }
+      )
+    }
+
+    await resetPassword(token, password)
+
+    return NextResponse.json({
+      success: true,
+      message: 'Your password has been reset. You can now sign in.',
+    })
+  } catch (error) {
+    if (error instanceof PasswordResetError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: 'Invalid JSON body' },
+        { status: 400 }
+      )
+    }
+
+    console.error('Password reset error:', error)
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
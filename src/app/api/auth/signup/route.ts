@@ -1,15 +1,31 @@
 /**
  * Sign Up API Route
  * 
- * Handles user registration with tenant creation
+ * Handles user registration with tenant creation. The new owner stays
+ * `pending` until they verify their email address.
  */
 
 import { NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { hashPassword, validatePasswordStrength } from '@/lib/password'
+import { sendVerificationEmail } from '@/lib/email-verification'
+import { getClientIp, throttleSignUp, TooManyAttemptsError } from '@/lib/sign-in-throttle'
 
 export async function POST(request: Request) {
   try {
+    // Limit account creation per IP
+    try {
+      await throttleSignUp(getClientIp(request.headers))
+    } catch (error) {
+      if (error instanceof TooManyAttemptsError) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 429, headers: { 'Retry-After': String(Math.ceil(error.retryAfterMs / 1000)) } }
+        )
+      }
+      throw error
+    }
+
     const body = await request.json()
     const { name, email, password, companyName } = body
 
@@ -71,7 +87,7 @@ export async function POST(request: Request) {
           name,
           passwordHash,
           role: 'tenant_owner',
-          status: 'active',
+          status: 'pending',
           tenantId: tenant.id
         }
       })
@@ -90,9 +106,16 @@ export async function POST(request: Request) {
       return { tenant, user }
     })
 
+    // The user can request a new link if sending fails
+    try {
+      await sendVerificationEmail(result.user)
+    } catch (error) {
+      console.error('Verification email error:', error)
+    }
+
     return NextResponse.json({
       success: true,
-      message: 'Account created successfully',
+      message: 'Account created. Check your email to verify your address.',
       userId: result.user.id,
       tenantId: result.tenant.id
     })
@@ -0,0 +1,71 @@
+/**
+ * Email Verification API Route
+ *
+ * GET  - Verification link target (?token=...); redirects to sign in
+ * POST - Re-send the verification email (response never reveals accounts;
+ *        rate limited per address and IP)
+ */
+
+import { after, NextResponse } from 'next/server'
+import { resendVerificationEmail, verifyEmail } from '@/lib/email-verification'
+import { getClientIp, throttleEmailRequest, TooManyAttemptsError } from '@/lib/sign-in-throttle'
+
+export async function GET(request: Request) {
+  const token = new URL(request.url).searchParams.get('token')
+
+  try {
+    if (token && (await verifyEmail(token))) {
+      return NextResponse.redirect(new URL('/auth/signin?verified=true', request.url))
+    }
+  } catch (error) {
+    console.error('Email verification error:', error)
+  }
+
+  return NextResponse.redirect(new URL('/auth/error?error=Verification', request.url))
+}
+
+export async function POST(request: Request) {
+  let email: string
+  try {
+    const body = await request.json()
+    email = typeof body?.email === 'string' ? body.email : ''
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid JSON body' },
+      { status: 400 }
+    )
+  }
+
+  if (!email) {
+    return NextResponse.json(
+      { error: 'Email is required' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    await throttleEmailRequest('verify_email', email, getClientIp(request.headers))
+  } catch (error) {
+    if (error instanceof TooManyAttemptsError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 429, headers: { 'Retry-After': String(Math.ceil(error.retryAfterMs / 1000)) } }
+      )
+    }
+    throw error
+  }
+
+  // Sent after the response so every request takes as long, account or not
+  after(async () => {
+    try {
+      await resendVerificationEmail(email)
+    } catch (error) {
+      console.error('Verification email error:', error)
+    }
+  })
+
+  return NextResponse.json({
+    success: true,
+    message: 'If this email needs verification, a new link has been sent.',
+  })
+}
@@ -0,0 +1,37 @@
+/**
+ * Billing Checkout API Route
+ *
+ * POST - Create a Stripe Checkout session for the subscription
+ */
+
+import { NextResponse } from 'next/server'
+import { withRoute } from '@/lib/api-route'
+import { Permission } from '@/lib/rbac'
+import { getStripe } from '@/lib/stripe'
+import { getOrCreateStripeCustomer } from '@/lib/billing'
+
+export const POST = withRoute(
+  { permissions: [Permission.MANAGE_BILLING] },
+  async ({ request, auth }) => {
+    const priceId = process.env.STRIPE_PRICE_ID
+    if (!priceId) {
+      throw new Error('STRIPE_PRICE_ID is not configured')
+    }
+
+    const customerId = await getOrCreateStripeCustomer(auth.tenantId)
+    const stripe = await getStripe()
+    const appUrl = process.env.NEXT_PUBLIC_APP_URL || new URL(request.url).origin
+
+    const session = await stripe.checkout.sessions.create({
+      mode: 'subscription',
+      customer: customerId,
+      client_reference_id: auth.tenantId,
+      line_items: [{ price: priceId, quantity: 1 }],
+      subscription_data: { metadata: { tenantId: auth.tenantId } },
+      success_url: `${appUrl}/dashboard?billing=success`,
+      cancel_url: `${appUrl}/dashboard?billing=canceled`,
+    })
+
+    return NextResponse.json({ url: session.url })
+  }
+)
@@ -0,0 +1,36 @@
+/**
+ * Billing Portal API Route
+ *
+ * POST - Create a Stripe customer portal link for managing the subscription
+ */
+
+import { NextResponse } from 'next/server'
+import { withRoute } from '@/lib/api-route'
+import { Permission } from '@/lib/rbac'
+import { getStripe } from '@/lib/stripe'
+
+export const POST = withRoute(
+  { permissions: [Permission.MANAGE_BILLING] },
+  async ({ request, db }) => {
+    const billing = await db.billingSubscription.findFirst({
+      select: { stripeCustomerId: true },
+    })
+
+    if (!billing?.stripeCustomerId) {
+      return NextResponse.json(
+        { error: 'No billing account found. Start a subscription first.' },
+        { status: 404 }
+      )
+    }
+
+    const stripe = await getStripe()
+    const appUrl = process.env.NEXT_PUBLIC_APP_URL || new URL(request.url).origin
+
+    const session = await stripe.billingPortal.sessions.create({
+      customer: billing.stripeCustomerId,
+      return_url: `${appUrl}/dashboard`,
+    })
+
+    return NextResponse.json({ url: session.url })
+  }
+)
@@ -0,0 +1,53 @@
+/**
+ * Scheduled Sync Cron Route
+ *
+ * Runs all due tenant syncs. Called by Vercel Cron (see vercel.json) or
+ * any local timer with `Authorization: Bearer $CRON_SECRET`.
+ */
+
+import { NextResponse } from 'next/server'
+import { timingSafeEqual } from 'crypto'
+import { runScheduler } from '@/lib/sync/scheduler'
+
+// Give the scheduler the longest run time the platform allows
+export const maxDuration = 300
+
+function isAuthorized(request: Request): boolean {
+  const secret = process.env.CRON_SECRET
+  const header = request.headers.get('authorization')
+
+  if (!secret || !header) {
+    return false
+  }
+
+  const actual = Buffer.from(header)
+  const expected = Buffer.from(`Bearer ${secret}`)
+
+  return actual.length === expected.length && timingSafeEqual(actual, expected)
+}
+
+export async function GET(request: Request) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const results = await runScheduler()
+
+    return NextResponse.json({
+      ran: results.filter(result => result.status === 'ran').length,
+      skipped: results.filter(result => result.status === 'skipped').length,
+      results,
+    })
+  } catch (error) {
+    console.error('Scheduler error:', error)
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
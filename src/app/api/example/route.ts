@@ -5,24 +5,17 @@
  */
 
 import { NextResponse } from 'next/server'
-import { requireTenant } from '@/lib/auth-context'
-import { hasPermission, Permission } from '@/lib/rbac'
-
-export async function GET() {
-  try {
-    // Require authentication and tenant
-    const auth = await requireTenant()
-
-    // Check permissions
-    if (!hasPermission(auth.role, Permission.VIEW_ORDERS)) {
-      return NextResponse.json(
-        { error: 'Insufficient permissions' },
-        { status: 403 }
-      )
-    }
+import { withRoute } from '@/lib/api-route'
+import { Permission } from '@/lib/rbac'
 
+// Requires a signed-in tenant user with VIEW_ORDERS; errors are mapped
+// to 401/403 JSON responses by withRoute
+export const GET = withRoute(
+  { permissions: [Permission.VIEW_ORDERS] },
+  async ({ auth, db }) => {
     // Your business logic here
-    // Note: auth.tenantId is available for querying tenant-specific data
+    // Note: `db` scopes every tenant-owned query to auth.tenantId
+    const orderCount = await db.order.count()
 
     return NextResponse.json({
       message: 'Success',
@@ -31,18 +24,7 @@ export async function GET() {
         tenantId: auth.tenantId,
         role: auth.role,
       },
+      orderCount,
     })
-  } catch (error) {
-    if (error instanceof Error && error.message === 'Unauthorized') {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      )
-    }
-
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    )
   }
-}
+)
@@ -0,0 +1,49 @@
+/**
+ * Fortnox OAuth Callback API Route
+ *
+ * Exchanges the authorization code for tokens and stores them
+ * encrypted on the tenant's Fortnox integration
+ */
+
+import { NextResponse } from 'next/server'
+import { withRoute } from '@/lib/api-route'
+import { getOnboardingState } from '@/lib/onboarding'
+import { Permission } from '@/lib/rbac'
+import { verifyOAuthState } from '@/lib/oauth-state'
+import { connectFortnox, FORTNOX_STATE_COOKIE } from '@/lib/fortnox/oauth'
+
+function redirectToDashboard(request: Request, result: string, path = '/dashboard') {
+  const url = new URL(path, request.url)
+  url.searchParams.set('fortnox', result)
+  return NextResponse.redirect(url)
+}
+
+export const GET = withRoute(
+  {
+    permissions: [Permission.MANAGE_INTEGRATIONS],
+    onError: (error, request) => {
+      console.error('Fortnox callback error:', error)
+      return redirectToDashboard(request, 'error')
+    },
+  },
+  async ({ request, auth }) => {
+    const { searchParams } = new URL(request.url)
+
+    if (!(await verifyOAuthState(FORTNOX_STATE_COOKIE, searchParams.get('state')))) {
+      return redirectToDashboard(request, 'invalid_state')
+    }
+
+    // User denied access or Fortnox returned an error
+    const code = searchParams.get('code')
+    if (searchParams.get('error') || !code) {
+      return redirectToDashboard(request, 'denied')
+    }
+
+    await connectFortnox(auth.tenantId, code)
+
+    // Back to the onboarding wizard while setup is unfinished
+    const { complete } = await getOnboardingState(auth.tenantId)
+
+    return redirectToDashboard(request, 'connected', complete ? '/dashboard' : '/tenant/onboarding')
+  }
+)
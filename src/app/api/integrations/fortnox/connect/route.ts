@@ -0,0 +1,22 @@
+/**
+ * Fortnox Connect API Route
+ *
+ * Starts the Fortnox OAuth flow by redirecting to Fortnox
+ */
+
+import { NextResponse } from 'next/server'
+import { withRoute } from '@/lib/api-route'
+import { Permission } from '@/lib/rbac'
+import { createOAuthState } from '@/lib/oauth-state'
+import { getFortnoxOAuthConfig } from '@/lib/platform-settings'
+import { buildAuthorizationUrl, FORTNOX_STATE_COOKIE } from '@/lib/fortnox/oauth'
+
+export const GET = withRoute(
+  { permissions: [Permission.MANAGE_INTEGRATIONS], billing: 'write' },
+  async () => {
+    const config = await getFortnoxOAuthConfig()
+    const state = await createOAuthState(FORTNOX_STATE_COOKIE)
+
+    return NextResponse.redirect(buildAuthorizationUrl(config, state))
+  }
+)
@@ -0,0 +1,37 @@
+/**
+ * Shopify Store API Route
+ *
+ * DELETE - Uninstall the app from a store and mark it disconnected
+ */
+
+import { NextResponse } from 'next/server'
+import { withRoute } from '@/lib/api-route'
+import { Permission } from '@/lib/rbac'
+import { disconnectShopifyStore } from '@/lib/shopify/oauth'
+
+export const DELETE = withRoute<{ storeId: string }>(
+  { permissions: [Permission.MANAGE_INTEGRATIONS], billing: 'write' },
+  async ({ db, params }) => {
+    const store = await db.shopifyStore.findFirst({
+      where: { id: params.storeId },
+    })
+
+    if (!store) {
+      return NextResponse.json(
+        { error: 'Store not found' },
+        { status: 404 }
+      )
+    }
+
+    const updated = await disconnectShopifyStore(store.id)
+
+    return NextResponse.json({
+      success: true,
+      store: {
+        id: updated.id,
+        shopDomain: updated.shopDomain,
+        status: updated.status,
+      },
+    })
+  }
+)
@@ -0,0 +1,72 @@
+/**
+ * Shopify OAuth Callback API Route
+ *
+ * Verifies the callback HMAC and state, exchanges the code for an
+ * access token and connects the store to the tenant
+ */
+
+import { NextResponse } from 'next/server'
+import { withRoute } from '@/lib/api-route'
+import { getOnboardingState } from '@/lib/onboarding'
+import { Permission } from '@/lib/rbac'
+import { verifyOAuthState } from '@/lib/oauth-state'
+import {
+  connectShopifyStore,
+  normalizeShopDomain,
+  verifyCallbackHmac,
+  SHOPIFY_STATE_COOKIE,
+} from '@/lib/shopify/oauth'
+import { registerShopifyWebhooks } from '@/lib/shopify/webhooks'
+
+function redirectToDashboard(request: Request, result: string, path = '/dashboard') {
+  const url = new URL(path, request.url)
+  url.searchParams.set('shopify', result)
+  return NextResponse.redirect(url)
+}
+
+export const GET = withRoute(
+  {
+    permissions: [Permission.MANAGE_INTEGRATIONS],
+    billing: 'write',
+    onError: (error, request) => {
+      console.error('Shopify callback error:', error)
+      return redirectToDashboard(request, 'error')
+    },
+  },
+  async ({ request, auth }) => {
+    const { searchParams } = new URL(request.url)
+
+    if (!verifyCallbackHmac(searchParams)) {
+      return redirectToDashboard(request, 'invalid_hmac')
+    }
+
+    const shopDomain = normalizeShopDomain(searchParams.get('shop'))
+    if (!shopDomain) {
+      return redirectToDashboard(request, 'invalid_shop')
+    }
+
+    // State must match the one issued for this shop
+    if (!(await verifyOAuthState(SHOPIFY_STATE_COOKIE, searchParams.get('state'), shopDomain))) {
+      return redirectToDashboard(request, 'invalid_state')
+    }
+
+    const code = searchParams.get('code')
+    if (!code) {
+      return redirectToDashboard(request, 'denied')
+    }
+
+    const store = await connectShopifyStore(auth.tenantId, shopDomain, code)
+
+    // Scheduled sync still picks up changes if registration fails
+    try {
+      await registerShopifyWebhooks(store)
+    } catch (error) {
+      console.error('Shopify webhook registration error:', error)
+    }
+
+    // Back to the onboarding wizard while setup is unfinished
+    const { complete } = await getOnboardingState(auth.tenantId)
+
+    return redirectToDashboard(request, 'connected', complete ? '/dashboard' : '/tenant/onboarding')
+  }
+)
@@ -0,0 +1,31 @@
+/**
+ * Shopify Install API Route
+ *
+ * Starts the Shopify app installation for a shop domain
+ * (GET /api/integrations/shopify/install?shop=my-shop.myshopify.com)
+ */
+
+import { NextResponse } from 'next/server'
+import { withRoute } from '@/lib/api-route'
+import { Permission } from '@/lib/rbac'
+import { createOAuthState } from '@/lib/oauth-state'
+import { buildInstallUrl, normalizeShopDomain, SHOPIFY_STATE_COOKIE } from '@/lib/shopify/oauth'
+
+export const GET = withRoute(
+  { permissions: [Permission.MANAGE_INTEGRATIONS], billing: 'write' },
+  async ({ request }) => {
+    const { searchParams } = new URL(request.url)
+    const shopDomain = normalizeShopDomain(searchParams.get('shop'))
+
+    if (!shopDomain) {
+      return NextResponse.json(
+        { error: 'Invalid shop domain' },
+        { status: 400 }
+      )
+    }
+
+    const state = await createOAuthState(SHOPIFY_STATE_COOKIE, shopDomain)
+
+    return NextResponse.redirect(buildInstallUrl(shopDomain, state))
+  }
+)
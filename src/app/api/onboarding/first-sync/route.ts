@@ -0,0 +1,40 @@
+/**
+ * First Sync Onboarding API Route
+ *
+ * POST - Start the first product and order sync. It runs after the
+ * response; the wizard polls GET /api/onboarding until it finished.
+ * Completes onboarding (and enables scheduled syncs) when both succeed.
+ */
+
+import { after, NextResponse } from 'next/server'
+import { withRoute } from '@/lib/api-route'
+import { Permission } from '@/lib/rbac'
+import { assertReadyForFirstSync, getOnboardingState, OnboardingError, runFirstSync } from '@/lib/onboarding'
+
+// Products and orders run back to back after the response, within this limit
+export const maxDuration = 300
+
+export const POST = withRoute(
+  {
+    permissions: [Permission.TRIGGER_SYNC],
+    billing: 'sync',
+    errors: [[OnboardingError, 409]],
+  },
+  async ({ auth }) => {
+    const tenantId = auth.tenantId
+    const onboarding = await getOnboardingState(tenantId)
+    assertReadyForFirstSync(onboarding)
+
+    const requestedAt = new Date()
+
+    after(async () => {
+      try {
+        await runFirstSync(tenantId)
+      } catch (error) {
+        console.error('First sync error:', error)
+      }
+    })
+
+    return NextResponse.json({ requestedAt, onboarding }, { status: 202 })
+  }
+)
@@ -0,0 +1,16 @@
+/**
+ * Onboarding API Route
+ *
+ * GET - Onboarding steps of the current tenant and where to resume
+ */
+
+import { NextResponse } from 'next/server'
+import { withRoute } from '@/lib/api-route'
+import { getOnboardingState } from '@/lib/onboarding'
+
+export const GET = withRoute(
+  {},
+  async ({ auth }) => {
+    return NextResponse.json(await getOnboardingState(auth.tenantId))
+  }
+)
@@ -0,0 +1,45 @@
+/**
+ * Webshop Customer Onboarding API Route
+ *
+ * POST - Choose the customer mode and find or create the collective
+ * Fortnox customer ({ mode, name? }, name defaults to the configured one)
+ */
+
+import { NextResponse } from 'next/server'
+import { withRoute } from '@/lib/api-route'
+import { Permission } from '@/lib/rbac'
+import { getOnboardingState } from '@/lib/onboarding'
+import { configureCustomerStrategy, CustomerStrategyError, CUSTOMER_MODES, isCustomerMode } from '@/lib/sync/customers'
+
+export const POST = withRoute(
+  {
+    permissions: [Permission.MANAGE_SYNC_SETTINGS],
+    billing: 'write',
+    errors: [[CustomerStrategyError, 409]],
+  },
+  async ({ request, auth }) => {
+    const { mode = 'collective', name } = await request.json()
+
+    if (!isCustomerMode(mode)) {
+      return NextResponse.json(
+        { error: `mode must be one of: ${CUSTOMER_MODES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+      return NextResponse.json(
+        { error: 'name must be a non-empty string' },
+        { status: 400 }
+      )
+    }
+
+    const strategy = await configureCustomerStrategy(auth.tenantId, { mode, collectiveCustomerName: name })
+
+    return NextResponse.json({
+      customerNumber: strategy.collectiveCustomerNumber,
+      strategy,
+      onboarding: await getOnboardingState(auth.tenantId),
+    })
+  }
+)
@@ -0,0 +1,23 @@
+/**
+ * Order Retry API Route
+ *
+ * POST - Re-sync a failed order to Fortnox
+ */
+
+import { NextResponse } from 'next/server'
+import { withRoute } from '@/lib/api-route'
+import { Permission } from '@/lib/rbac'
+import { retryOrderSync, OrderRetryError } from '@/lib/sync/orders'
+
+export const POST = withRoute<{ orderId: string }>(
+  {
+    permissions: [Permission.TRIGGER_SYNC],
+    billing: 'sync',
+    errors: [[OrderRetryError, 409]],
+  },
+  async ({ auth, params }) => {
+    const { job, order } = await retryOrderSync(auth.tenantId, params.orderId)
+
+    return NextResponse.json({ job, order })
+  }
+)
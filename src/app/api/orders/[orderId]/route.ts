@@ -0,0 +1,27 @@
+/**
+ * Order API Route
+ *
+ * GET - An order with its sync state, Fortnox documents and normalized
+ *       Shopify payload
+ */
+
+import { NextResponse } from 'next/server'
+import { withRoute } from '@/lib/api-route'
+import { Permission } from '@/lib/rbac'
+import { getOrderDetail } from '@/lib/order-queries'
+
+export const GET = withRoute<{ orderId: string }>(
+  { permissions: [Permission.VIEW_ORDERS] },
+  async ({ db, params }) => {
+    const order = await getOrderDetail(db, params.orderId)
+
+    if (!order) {
+      return NextResponse.json(
+        { error: 'Order not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ order })
+  }
+)
@@ -0,0 +1,28 @@
+/**
+ * Orders API Route
+ *
+ * GET - Paginated orders of the current tenant, newest first
+ *
+ * Query parameters: q (order number, customer, SKU or title), storeId,
+ * financialStatus, fulfillmentStatus, syncStatus (comma separated),
+ * from, to (ISO dates), cursor and limit.
+ */
+
+import { NextResponse } from 'next/server'
+import { withRoute } from '@/lib/api-route'
+import { Permission } from '@/lib/rbac'
+import { parsePageParams } from '@/lib/pagination'
+import { listOrders, OrderQueryError, parseOrderFilters } from '@/lib/order-queries'
+
+export const GET = withRoute(
+  {
+    permissions: [Permission.VIEW_ORDERS],
+    errors: [[OrderQueryError, 400]],
+  },
+  async ({ request, db }) => {
+    const { searchParams } = new URL(request.url)
+    const where = parseOrderFilters(searchParams)
+
+    return NextResponse.json(await listOrders(db, where, parsePageParams(searchParams)))
+  }
+)
@@ -0,0 +1,26 @@
+/**
+ * Product API Route
+ *
+ * GET - A product with its normalized Shopify payload
+ */
+
+import { NextResponse } from 'next/server'
+import { withRoute } from '@/lib/api-route'
+import { Permission } from '@/lib/rbac'
+import { getProductDetail } from '@/lib/product-queries'
+
+export const GET = withRoute<{ productId: string }>(
+  { permissions: [Permission.VIEW_PRODUCTS] },
+  async ({ db, params }) => {
+    const product = await getProductDetail(db, params.productId)
+
+    if (!product) {
+      return NextResponse.json(
+        { error: 'Product not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ product })
+  }
+)
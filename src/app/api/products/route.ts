@@ -0,0 +1,27 @@
+/**
+ * Products API Route
+ *
+ * GET - Paginated products (Shopify variants) of the current tenant
+ *
+ * Query parameters: q (SKU or title), storeId, status (comma separated),
+ * cursor and limit.
+ */
+
+import { NextResponse } from 'next/server'
+import { withRoute } from '@/lib/api-route'
+import { Permission } from '@/lib/rbac'
+import { parsePageParams } from '@/lib/pagination'
+import { listProducts, parseProductFilters, ProductQueryError } from '@/lib/product-queries'
+
+export const GET = withRoute(
+  {
+    permissions: [Permission.VIEW_PRODUCTS],
+    errors: [[ProductQueryError, 400]],
+  },
+  async ({ request, db }) => {
+    const { searchParams } = new URL(request.url)
+    const where = parseProductFilters(searchParams)
+
+    return NextResponse.json(await listProducts(db, where, parsePageParams(searchParams)))
+  }
+)
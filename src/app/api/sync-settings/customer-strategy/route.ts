@@ -0,0 +1,62 @@
+/**
+ * Customer Strategy API Route
+ *
+ * GET - Current customer mode and collective customer
+ * PUT - Change the customer mode ({ mode, collectiveCustomerName? })
+ */
+
+import { NextResponse } from 'next/server'
+import { withRoute } from '@/lib/api-route'
+import { Permission } from '@/lib/rbac'
+import { getSyncSettings } from '@/lib/sync/settings'
+import {
+  configureCustomerStrategy,
+  CustomerStrategyError,
+  CUSTOMER_MODES,
+  isCustomerMode,
+} from '@/lib/sync/customers'
+
+export const GET = withRoute(
+  { permissions: [Permission.VIEW_ORDERS] },
+  async ({ auth }) => {
+    const settings = await getSyncSettings(auth.tenantId)
+
+    return NextResponse.json({
+      strategy: {
+        customerMode: settings.customerMode,
+        customerTypeDefault: settings.customerTypeDefault,
+        collectiveCustomerNumber: settings.collectiveCustomerNumber,
+      },
+    })
+  }
+)
+
+export const PUT = withRoute(
+  {
+    permissions: [Permission.MANAGE_SYNC_SETTINGS],
+    billing: 'write',
+    errors: [[CustomerStrategyError, 409]],
+  },
+  async ({ request, auth }) => {
+    const { mode, collectiveCustomerName } = await request.json()
+
+    if (!isCustomerMode(mode)) {
+      return NextResponse.json(
+        { error: `mode must be one of: ${CUSTOMER_MODES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    if (collectiveCustomerName !== undefined
+      && (typeof collectiveCustomerName !== 'string' || !collectiveCustomerName.trim())) {
+      return NextResponse.json(
+        { error: 'collectiveCustomerName must be a non-empty string' },
+        { status: 400 }
+      )
+    }
+
+    const strategy = await configureCustomerStrategy(auth.tenantId, { mode, collectiveCustomerName })
+
+    return NextResponse.json({ strategy })
+  }
+)
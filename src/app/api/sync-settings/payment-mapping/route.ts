@@ -0,0 +1,67 @@
+/**
+ * Payment Method Mapping API Route
+ *
+ * GET - Current payment method mapping, with suggested rules for
+ *       common Shopify gateways
+ * PUT - Replace the payment method mapping
+ */
+
+import { NextResponse } from 'next/server'
+import { withRoute } from '@/lib/api-route'
+import { Permission } from '@/lib/rbac'
+import { Prisma } from '@/generated/prisma'
+import { getSyncSettings } from '@/lib/sync/settings'
+import {
+  parsePaymentMethodMapping,
+  validatePaymentMethodMapping,
+  PaymentMethodMapping,
+  PaymentMethodRule,
+  SUGGESTED_PAYMENT_METHOD_RULES,
+} from '@/lib/sync/payment-mapping'
+
+export const GET = withRoute(
+  { permissions: [Permission.VIEW_ORDERS] },
+  async ({ auth }) => {
+    const settings = await getSyncSettings(auth.tenantId)
+
+    return NextResponse.json({
+      mapping: parsePaymentMethodMapping(settings.paymentMethodMapping),
+      suggestions: SUGGESTED_PAYMENT_METHOD_RULES,
+    })
+  }
+)
+
+export const PUT = withRoute(
+  { permissions: [Permission.MANAGE_SYNC_SETTINGS], billing: 'write' },
+  async ({ request, auth, db }) => {
+    const body = await request.json()
+    const errors = validatePaymentMethodMapping(body?.mapping)
+
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: errors.join(', ') },
+        { status: 400 }
+      )
+    }
+
+    const mapping: PaymentMethodMapping = {
+      rules: (body.mapping as PaymentMethodMapping).rules.map(
+        ({ gateway, termsOfPayment, modeOfPayment, accountNumber, registerPayment }): PaymentMethodRule => ({
+          gateway: gateway.trim(),
+          ...(termsOfPayment ? { termsOfPayment: termsOfPayment.trim() } : {}),
+          ...(modeOfPayment ? { modeOfPayment: modeOfPayment.trim() } : {}),
+          ...(accountNumber ? { accountNumber } : {}),
+          ...(registerPayment ? { registerPayment } : {}),
+        })
+      ),
+    }
+
+    await getSyncSettings(auth.tenantId)
+    await db.syncSettings.update({
+      where: { tenantId: auth.tenantId },
+      data: { paymentMethodMapping: mapping as unknown as Prisma.InputJsonObject },
+    })
+
+    return NextResponse.json({ mapping })
+  }
+)
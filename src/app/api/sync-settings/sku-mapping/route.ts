@@ -0,0 +1,57 @@
+/**
+ * SKU Mapping Rule API Route
+ *
+ * GET - Current SKU mapping rule for the tenant
+ * PUT - Replace the SKU mapping rule
+ */
+
+import { NextResponse } from 'next/server'
+import { withRoute } from '@/lib/api-route'
+import { Permission } from '@/lib/rbac'
+import { Prisma } from '@/generated/prisma'
+import { getSyncSettings } from '@/lib/sync/settings'
+import {
+  parseSkuMappingRule,
+  validateSkuMappingRule,
+  SkuMappingRule,
+} from '@/lib/sync/sku-mapping'
+
+export const GET = withRoute(
+  { permissions: [Permission.VIEW_PRODUCTS] },
+  async ({ auth }) => {
+    const settings = await getSyncSettings(auth.tenantId)
+
+    return NextResponse.json({ rule: parseSkuMappingRule(settings.skuMappingRule) })
+  }
+)
+
+export const PUT = withRoute(
+  { permissions: [Permission.MANAGE_SYNC_SETTINGS], billing: 'write' },
+  async ({ request, auth, db }) => {
+    const body = await request.json()
+    const errors = validateSkuMappingRule(body?.rule)
+
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: errors.join(', ') },
+        { status: 400 }
+      )
+    }
+
+    const { source, stripPrefix, prefix, uppercase } = body.rule as SkuMappingRule
+    const rule: SkuMappingRule = {
+      source,
+      ...(stripPrefix ? { stripPrefix } : {}),
+      ...(prefix ? { prefix } : {}),
+      ...(uppercase ? { uppercase } : {}),
+    }
+
+    await getSyncSettings(auth.tenantId)
+    await db.syncSettings.update({
+      where: { tenantId: auth.tenantId },
+      data: { skuMappingRule: rule as unknown as Prisma.InputJsonObject },
+    })
+
+    return NextResponse.json({ rule })
+  }
+)
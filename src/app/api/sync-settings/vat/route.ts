@@ -0,0 +1,65 @@
+/**
+ * VAT Settings API Route
+ *
+ * GET - VAT handling mode, OSS registration and sales accounts
+ * PUT - Update them ({ mode?, ossRegistered?, accounts? }); accounts
+ *       are overrides of the defaults, null resets them
+ */
+
+import { NextResponse } from 'next/server'
+import { withRoute } from '@/lib/api-route'
+import { Permission } from '@/lib/rbac'
+import { Prisma } from '@/generated/prisma'
+import { getSyncSettings } from '@/lib/sync/settings'
+import {
+  getVatSettings,
+  isVatHandlingMode,
+  validateVatAccounts,
+  VAT_HANDLING_MODES,
+} from '@/lib/sync/vat'
+
+export const GET = withRoute(
+  { permissions: [Permission.VIEW_ORDERS] },
+  async ({ auth }) => {
+    const settings = await getSyncSettings(auth.tenantId)
+
+    return NextResponse.json({ vat: getVatSettings(settings) })
+  }
+)
+
+export const PUT = withRoute(
+  { permissions: [Permission.MANAGE_SYNC_SETTINGS], billing: 'write' },
+  async ({ request, auth, db }) => {
+    const { mode, ossRegistered, accounts } = await request.json()
+    const errors = validateVatAccounts(accounts)
+
+    if (mode !== undefined && !isVatHandlingMode(mode)) {
+      errors.push(`mode must be one of: ${VAT_HANDLING_MODES.join(', ')}`)
+    }
+
+    if (ossRegistered !== undefined && typeof ossRegistered !== 'boolean') {
+      errors.push('ossRegistered must be a boolean')
+    }
+
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: errors.join(', ') },
+        { status: 400 }
+      )
+    }
+
+    await getSyncSettings(auth.tenantId)
+    const settings = await db.syncSettings.update({
+      where: { tenantId: auth.tenantId },
+      data: {
+        ...(mode !== undefined ? { vatHandlingMode: mode } : {}),
+        ...(ossRegistered !== undefined ? { ossRegistered } : {}),
+        ...(accounts !== undefined
+          ? { vatAccountMapping: accounts === null ? Prisma.DbNull : accounts as Prisma.InputJsonObject }
+          : {}),
+      },
+    })
+
+    return NextResponse.json({ vat: getVatSettings(settings) })
+  }
+)
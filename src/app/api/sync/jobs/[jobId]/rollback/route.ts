@@ -0,0 +1,23 @@
+/**
+ * Sync Rollback API Route
+ *
+ * POST - Roll back a sync job (the latest orders or products sync)
+ */
+
+import { NextResponse } from 'next/server'
+import { withRoute } from '@/lib/api-route'
+import { Permission } from '@/lib/rbac'
+import { rollbackSyncJob, RollbackError } from '@/lib/sync/rollback'
+
+export const POST = withRoute<{ jobId: string }>(
+  {
+    permissions: [Permission.ROLLBACK_SYNC],
+    billing: 'sync',
+    errors: [[RollbackError, 409]],
+  },
+  async ({ auth, params }) => {
+    const job = await rollbackSyncJob(auth.tenantId, params.jobId)
+
+    return NextResponse.json({ job })
+  }
+)
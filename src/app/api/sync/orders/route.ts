@@ -0,0 +1,29 @@
+/**
+ * Order Sync API Route
+ *
+ * POST - Run an order sync for the current tenant
+ */
+
+import { NextResponse } from 'next/server'
+import { withRoute } from '@/lib/api-route'
+import { Permission } from '@/lib/rbac'
+import { syncOrders } from '@/lib/sync/orders'
+import { runWithSyncLock } from '@/lib/sync/lock'
+
+export const POST = withRoute(
+  { permissions: [Permission.TRIGGER_SYNC], billing: 'sync' },
+  async ({ auth }) => {
+    const { skipped, result } = await runWithSyncLock(auth.tenantId, 'orders', () =>
+      syncOrders(auth.tenantId)
+    )
+
+    if (skipped) {
+      return NextResponse.json(
+        { error: skipped.errorText, job: skipped },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json({ job: result })
+  }
+)
@@ -0,0 +1,29 @@
+/**
+ * Product Sync API Route
+ *
+ * POST - Run a product sync for the current tenant
+ */
+
+import { NextResponse } from 'next/server'
+import { withRoute } from '@/lib/api-route'
+import { Permission } from '@/lib/rbac'
+import { syncProducts } from '@/lib/sync/products'
+import { runWithSyncLock } from '@/lib/sync/lock'
+
+export const POST = withRoute(
+  { permissions: [Permission.TRIGGER_SYNC], billing: 'sync' },
+  async ({ auth }) => {
+    const { skipped, result } = await runWithSyncLock(auth.tenantId, 'products', () =>
+      syncProducts(auth.tenantId)
+    )
+
+    if (skipped) {
+      return NextResponse.json(
+        { error: skipped.errorText, job: skipped },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json({ job: result })
+  }
+)
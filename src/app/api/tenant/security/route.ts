@@ -0,0 +1,43 @@
+/**
+ * Tenant Security Settings API Route
+ *
+ * GET   - Security settings of the current tenant
+ * PATCH - Require two-factor authentication for every user
+ *         ({ requireTwoFactor }). Users who have not enrolled are signed
+ *         out and must enrol on their next sign-in.
+ */
+
+import { NextResponse } from 'next/server'
+import { withRoute } from '@/lib/api-route'
+import { Permission } from '@/lib/rbac'
+import { setTenantTwoFactorRequirement, TwoFactorError } from '@/lib/two-factor'
+
+export const GET = withRoute(
+  { permissions: [Permission.MANAGE_TENANT] },
+  async ({ db, auth }) => {
+    const tenant = await db.tenant.findUniqueOrThrow({
+      where: { id: auth.tenantId },
+      select: { requireTwoFactor: true },
+    })
+
+    return NextResponse.json(tenant)
+  }
+)
+
+export const PATCH = withRoute(
+  { permissions: [Permission.MANAGE_TENANT], errors: [[TwoFactorError, 400]] },
+  async ({ request, auth }) => {
+    const { requireTwoFactor } = await request.json()
+
+    if (typeof requireTwoFactor !== 'boolean') {
+      return NextResponse.json(
+        { error: 'requireTwoFactor must be a boolean' },
+        { status: 400 }
+      )
+    }
+
+    await setTenantTwoFactorRequirement(auth.tenantId, auth.userId, requireTwoFactor)
+
+    return NextResponse.json({ requireTwoFactor })
+  }
+)
@@ -0,0 +1,79 @@
+/**
+ * Tenant User API Route
+ *
+ * PATCH  - Change a user's role ({ role }) or status ({ status: 'active' | 'disabled' })
+ * DELETE - Revoke a pending invitation
+ */
+
+import { NextResponse } from 'next/server'
+import { withRoute } from '@/lib/api-route'
+import { Permission } from '@/lib/rbac'
+import { ASSIGNABLE_ROLES, isAssignableRole } from '@/lib/invitations'
+import {
+  changeUserRole,
+  deactivateUser,
+  reactivateUser,
+  revokeInvitation,
+  TenantUserError,
+} from '@/lib/tenant-users'
+
+function userNotFound() {
+  return NextResponse.json(
+    { error: 'User not found' },
+    { status: 404 }
+  )
+}
+
+export const PATCH = withRoute<{ userId: string }>(
+  {
+    permissions: [Permission.MANAGE_TENANT_USERS],
+    billing: 'write',
+    errors: [[TenantUserError, 400]],
+  },
+  async ({ request, auth, params }) => {
+    const { role, status } = await request.json()
+
+    if (role !== undefined && status !== undefined) {
+      return NextResponse.json(
+        { error: 'Change role and status in separate requests' },
+        { status: 400 }
+      )
+    }
+
+    if (role !== undefined) {
+      if (!isAssignableRole(role)) {
+        return NextResponse.json(
+          { error: `role must be one of ${ASSIGNABLE_ROLES.join(', ')}` },
+          { status: 400 }
+        )
+      }
+
+      const user = await changeUserRole(auth.tenantId, auth.userId, params.userId, role)
+      return user ? NextResponse.json({ user }) : userNotFound()
+    }
+
+    if (status === 'disabled' || status === 'active') {
+      const user = status === 'disabled'
+        ? await deactivateUser(auth.tenantId, auth.userId, params.userId)
+        : await reactivateUser(auth.tenantId, auth.userId, params.userId)
+      return user ? NextResponse.json({ user }) : userNotFound()
+    }
+
+    return NextResponse.json(
+      { error: 'Provide a role or a status of active or disabled' },
+      { status: 400 }
+    )
+  }
+)
+
+export const DELETE = withRoute<{ userId: string }>(
+  {
+    permissions: [Permission.MANAGE_TENANT_USERS],
+    errors: [[TenantUserError, 400]],
+  },
+  async ({ auth, params }) => {
+    const user = await revokeInvitation(auth.tenantId, auth.userId, params.userId)
+
+    return user ? NextResponse.json({ success: true }) : userNotFound()
+  }
+)
@@ -0,0 +1,60 @@
+/**
+ * Tenant Users API Route
+ *
+ * GET  - Users of the current tenant, including pending invitations
+ * POST - Invite a user by email (or re-send a pending invitation)
+ */
+
+import { NextResponse } from 'next/server'
+import { withRoute } from '@/lib/api-route'
+import { Permission } from '@/lib/rbac'
+import { ASSIGNABLE_ROLES, InvitationError, inviteUser, isAssignableRole } from '@/lib/invitations'
+import { listTenantUsers, TENANT_USER_SELECT } from '@/lib/tenant-users'
+import { prisma } from '@/lib/prisma'
+
+export const GET = withRoute(
+  { permissions: [Permission.MANAGE_TENANT_USERS] },
+  async ({ auth }) => {
+    return NextResponse.json({ users: await listTenantUsers(auth.tenantId) })
+  }
+)
+
+export const POST = withRoute(
+  {
+    permissions: [Permission.MANAGE_TENANT_USERS],
+    billing: 'write',
+    errors: [[InvitationError, 409]],
+  },
+  async ({ request, auth }) => {
+    const { email, name, role } = await request.json()
+
+    if (typeof email !== 'string' || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim())) {
+      return NextResponse.json(
+        { error: 'Invalid email address' },
+        { status: 400 }
+      )
+    }
+
+    if (typeof name !== 'string' || !name.trim()) {
+      return NextResponse.json(
+        { error: 'Name is required' },
+        { status: 400 }
+      )
+    }
+
+    if (!isAssignableRole(role)) {
+      return NextResponse.json(
+        { error: `role must be one of ${ASSIGNABLE_ROLES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const invited = await inviteUser(auth.tenantId, auth.userId, { email, name: name.trim(), role })
+    const user = await prisma.user.findUniqueOrThrow({
+      where: { id: invited.id },
+      select: TENANT_USER_SELECT,
+    })
+
+    return NextResponse.json({ user }, { status: 201 })
+  }
+)
@@ -0,0 +1,39 @@
+/**
+ * Ownership Transfer API Route
+ *
+ * POST - Make another active user the tenant owner ({ userId }).
+ * The current owner becomes a tenant admin.
+ */
+
+import { NextResponse } from 'next/server'
+import { withRoute } from '@/lib/api-route'
+import { Permission } from '@/lib/rbac'
+import { TenantUserError, transferOwnership } from '@/lib/tenant-users'
+
+export const POST = withRoute(
+  {
+    permissions: [Permission.MANAGE_TENANT_USERS, Permission.MANAGE_BILLING],
+    errors: [[TenantUserError, 400]],
+  },
+  async ({ request, auth }) => {
+    const { userId } = await request.json()
+
+    if (typeof userId !== 'string' || !userId) {
+      return NextResponse.json(
+        { error: 'userId is required' },
+        { status: 400 }
+      )
+    }
+
+    const user = await transferOwnership(auth.tenantId, auth.userId, userId)
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ user })
+  }
+)
@@ -0,0 +1,59 @@
+/**
+ * Shopify Webhook Receiver
+ *
+ * Verifies X-Shopify-Hmac-Sha256 and applies the delivery to every store
+ * connected to the shop, deduplicated per store by X-Shopify-Webhook-Id
+ */
+
+import { NextResponse } from 'next/server'
+import { normalizeShopDomain } from '@/lib/shopify/oauth'
+import { handleShopifyWebhook, verifyWebhookHmac } from '@/lib/shopify/webhooks'
+import { withAuditSource } from '@/lib/audit'
+
+export async function POST(request: Request) {
+  const rawBody = await request.text()
+
+  if (!verifyWebhookHmac(rawBody, request.headers.get('x-shopify-hmac-sha256'))) {
+    return NextResponse.json(
+      { error: 'Invalid signature' },
+      { status: 401 }
+    )
+  }
+
+  const topic = request.headers.get('x-shopify-topic')
+  const webhookId = request.headers.get('x-shopify-webhook-id')
+  const shopDomain = normalizeShopDomain(request.headers.get('x-shopify-shop-domain'))
+
+  if (!topic || !webhookId || !shopDomain) {
+    return NextResponse.json(
+      { error: 'Missing webhook headers' },
+      { status: 400 }
+    )
+  }
+
+  let payload: unknown
+  try {
+    payload = JSON.parse(rawBody)
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid JSON body' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const { applied, duplicates } = await withAuditSource('webhook', () =>
+      handleShopifyWebhook({ topic, shopDomain, webhookId, payload })
+    )
+
+    return NextResponse.json({ received: true, applied, duplicates })
+  } catch (error) {
+    console.error('Shopify webhook error:', error)
+
+    // Shopify retries; stores that succeeded are skipped as duplicates
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
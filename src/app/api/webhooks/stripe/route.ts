@@ -0,0 +1,81 @@
+/**
+ * Stripe Webhook Receiver
+ *
+ * Verifies the Stripe-Signature header and maps subscription lifecycle
+ * events onto the tenant's BillingSubscription
+ */
+
+import { NextResponse } from 'next/server'
+import type Stripe from 'stripe'
+import { getStripe } from '@/lib/stripe'
+import { getStripeConfig } from '@/lib/platform-settings'
+import { applyStripeSubscription } from '@/lib/billing'
+import { forgetWebhookEvent, recordWebhookEvent } from '@/lib/webhook-events'
+import { withAuditSource } from '@/lib/audit'
+
+async function handleEvent(stripe: Stripe, event: Stripe.Event) {
+  switch (event.type) {
+    case 'checkout.session.completed': {
+      const session = event.data.object
+      if (session.mode === 'subscription' && session.subscription) {
+        const subscriptionId = typeof session.subscription === 'string'
+          ? session.subscription
+          : session.subscription.id
+        await applyStripeSubscription(await stripe.subscriptions.retrieve(subscriptionId))
+      }
+      break
+    }
+
+    case 'customer.subscription.created':
+    case 'customer.subscription.updated':
+    case 'customer.subscription.deleted':
+      // Events can arrive out of order; store the subscription's current state
+      await applyStripeSubscription(await stripe.subscriptions.retrieve(event.data.object.id))
+      break
+  }
+}
+
+export async function POST(request: Request) {
+  const rawBody = await request.text()
+  const signature = request.headers.get('stripe-signature')
+
+  let stripe: Stripe
+  let event: Stripe.Event
+
+  try {
+    const { webhookSecret } = await getStripeConfig()
+    if (!webhookSecret || !signature) {
+      throw new Error('Missing webhook secret or signature')
+    }
+
+    stripe = await getStripe()
+    event = stripe.webhooks.constructEvent(rawBody, signature, webhookSecret)
+  } catch (error) {
+    console.error('Stripe webhook verification error:', error)
+
+    return NextResponse.json(
+      { error: 'Invalid signature' },
+      { status: 400 }
+    )
+  }
+
+  if (!(await recordWebhookEvent('stripe', event.id, event.type))) {
+    return NextResponse.json({ received: true, duplicate: true })
+  }
+
+  try {
+    await withAuditSource('webhook', () => handleEvent(stripe, event))
+
+    return NextResponse.json({ received: true })
+  } catch (error) {
+    console.error('Stripe webhook error:', error)
+
+    // Let Stripe's retry be processed
+    await forgetWebhookEvent('stripe', event.id)
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,11 @@
+/**
+ * Forgot Password Page
+ *
+ * Requests a password reset link by email
+ */
+
+import ForgotPasswordForm from './forgot-password-form'
+
+export default function ForgotPasswordPage() {
+  return <ForgotPasswordForm />
+}
@@ -0,0 +1,16 @@
+/**
+ * Accept Invitation Page
+ *
+ * Target of the invitation email link
+ */
+
+import { Suspense } from 'react'
+import AcceptInvitationForm from './accept-invitation-form'
+
+export default function AcceptInvitationPage() {
+  return (
+    <Suspense fallback={<div className="min-h-screen flex items-center justify-center">Loading...</div>}>
+      <AcceptInvitationForm />
+    </Suspense>
+  )
+}
@@ -0,0 +1,16 @@
+/**
+ * Reset Password Page
+ *
+ * Target of the password reset email link
+ */
+
+import { Suspense } from 'react'
+import ResetPasswordForm from './reset-password-form'
+
+export default function ResetPasswordPage() {
+  return (
+    <Suspense fallback={<div className="min-h-screen flex items-center justify-center">Loading...</div>}>
+      <ResetPasswordForm />
+    </Suspense>
+  )
+}
@@ -9,16 +9,31 @@
 import { signIn } from 'next-auth/react'
 import { useState, FormEvent } from 'react'
 import { useRouter, useSearchParams } from 'next/navigation'
+import Link from 'next/link'
+
+// Messages for redirects back to sign in (?registered=true etc.)
+const notices: Record<string, string> = {
+  registered: 'Account created. Check your email to verify your address before signing in.',
+  verified: 'Your email address is verified. You can now sign in.',
+  reset: 'Your password has been reset. Sign in with your new password.',
+  invited: 'Invitation accepted. Sign in to get started.',
+}
+
+// Error returned by authorize() when the account needs a 2FA code
+const TWO_FACTOR_REQUIRED = 'TwoFactorRequired'
 
 export default function SignInForm() {
   const router = useRouter()
   const searchParams = useSearchParams()
   const [email, setEmail] = useState('')
   const [password, setPassword] = useState('')
+  const [code, setCode] = useState('')
+  const [needsCode, setNeedsCode] = useState(false)
   const [error, setError] = useState('')
   const [loading, setLoading] = useState(false)
 
   const callbackUrl = searchParams.get('callbackUrl') || '/dashboard'
+  const notice = Object.keys(notices).find(key => searchParams.get(key) === 'true')
 
   async function handleSubmit(e: FormEvent<HTMLFormElement>) {
     e.preventDefault()
@@ -29,10 +44,13 @@ export default function SignInForm() {
       const result = await signIn('credentials', {
         email,
         password,
+        code,
         redirect: false,
       })
 
-      if (result?.error) {
+      if (result?.error === TWO_FACTOR_REQUIRED) {
+        setNeedsCode(true)
+      } else if (result?.error) {
         setError(result.error)
       } else if (result?.ok) {
         router.push(callbackUrl)
@@ -58,6 +76,12 @@ export default function SignInForm() {
         </div>
 
         <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
+          {notice && !error && (
+            <div className="rounded-md bg-green-50 p-4">
+              <h3 className="text-sm font-medium text-green-800">{notices[notice]}</h3>
+            </div>
+          )}
+
           {error && (
             <div className="rounded-md bg-red-50 p-4">
               <div className="flex">
@@ -105,6 +129,37 @@ export default function SignInForm() {
             </div>
           </div>
 
+          {needsCode && (
+            <div>
+              <label htmlFor="code" className="block text-sm font-medium text-gray-700">
+                Authentication code
+              </label>
+              <input
+                id="code"
+                name="code"
+                type="text"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                autoFocus
+                required
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                className="mt-1 appearance-none relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                placeholder="6-digit code or recovery code"
+                disabled={loading}
+              />
+              <p className="mt-2 text-xs text-gray-500">
+                Enter the code from your authenticator app, or one of your recovery codes.
+              </p>
+            </div>
+          )}
+
+          <div className="text-sm text-right">
+            <Link href="/auth/forgot-password" className="font-medium text-indigo-600 hover:text-indigo-500">
+              Forgot your password?
+            </Link>
+          </div>
+
           <div>
             <button
               type="submit"
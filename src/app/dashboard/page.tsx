@@ -9,6 +9,8 @@ import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { redirect } from 'next/navigation'
 import { SignOutButton } from '@/components/auth/signout-button'
+import { SignOutEverywhereButton } from '@/components/auth/signout-everywhere-button'
+import { getOnboardingState } from '@/lib/onboarding'
 
 export default async function DashboardPage() {
   const session = await getServerSession(authOptions)
@@ -18,6 +20,7 @@ export default async function DashboardPage() {
   }
 
   const { user } = session
+  const onboarding = user.tenantId ? await getOnboardingState(user.tenantId) : null
 
   return (
     <div className="min-h-screen bg-gray-100">
@@ -31,6 +34,11 @@ export default async function DashboardPage() {
               <span className="text-sm text-gray-700 mr-4">
                 {user.email}
               </span>
+              {!user.impersonatorId && (
+                <span className="mr-2">
+                  <SignOutEverywhereButton />
+                </span>
+              )}
               <SignOutButton />
             </div>
           </div>
@@ -45,6 +53,24 @@ export default async function DashboardPage() {
                 Welcome to Koppling
               </h2>
 
+              {onboarding && !onboarding.complete && (
+                <div className="bg-indigo-50 border-l-4 border-indigo-400 p-4 mb-6">
+                  <div className="flex">
+                    <div className="ml-3">
+                      <p className="text-sm text-indigo-700">
+                        <strong>Finish setting up Koppling</strong>
+                      </p>
+                      <p className="mt-2 text-sm text-indigo-700">
+                        Scheduled syncing starts once setup is complete.{' '}
+                        <a href="/tenant/onboarding" className="font-medium underline">
+                          Continue setup
+                        </a>
+                      </p>
+                    </div>
+                  </div>
+                </div>
+              )}
+
               <div className="bg-blue-50 border-l-4 border-blue-400 p-4 mb-6">
                 <div className="flex">
                   <div className="ml-3">
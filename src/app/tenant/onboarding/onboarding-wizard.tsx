@@ -0,0 +1,284 @@
+/**
+ * Onboarding Wizard Component
+ *
+ * Client component that walks a tenant through connecting Fortnox and
+ * Shopify, choosing the customer mode and running the first sync
+ */
+
+'use client'
+
+import { useState, FormEvent } from 'react'
+import { useSearchParams } from 'next/navigation'
+import Link from 'next/link'
+import type { CustomerMode } from '@/generated/prisma'
+import type { OnboardingState, OnboardingStep } from '@/lib/onboarding'
+
+interface OnboardingWizardProps {
+  initialState: OnboardingState
+  permissions: {
+    integrations: boolean
+    syncSettings: boolean
+    sync: boolean
+  }
+}
+
+const stepTitles: Record<OnboardingStep, string> = {
+  fortnox: 'Connect Fortnox',
+  shopify: 'Connect your Shopify store',
+  webshop_customer: 'Choose how orders are invoiced',
+  first_sync: 'Run the first sync',
+}
+
+const stepDescriptions: Record<OnboardingStep, string> = {
+  fortnox: 'Authorize Koppling to create invoices, articles and customers in Fortnox.',
+  shopify: 'Install the Koppling app in your Shopify store so orders and products can be read.',
+  webshop_customer: 'Invoice all orders to one collective customer, or create a Fortnox customer per Shopify customer (needed for B2B). Orders without a customer always use the collective customer, which we create if it does not exist yet.',
+  first_sync: 'Import products and orders and create the first invoices. Scheduled syncs start once this succeeds.',
+}
+
+// Results passed back by the OAuth callbacks (?fortnox=connected etc.)
+const callbackErrors: Record<string, string> = {
+  error: 'Something went wrong while connecting. Please try again.',
+  denied: 'Access was denied. Please try again and approve the connection.',
+  invalid_state: 'The connection request expired. Please try again.',
+  invalid_hmac: 'The connection request could not be verified. Please try again.',
+  invalid_shop: 'That shop domain is not valid.',
+}
+
+// How often the wizard checks on the first sync, and for how long
+const FIRST_SYNC_POLL_MS = 3000
+const FIRST_SYNC_POLL_LIMIT_MS = 10 * 60 * 1000
+
+const buttonClassName = 'inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed'
+const customerModeLabels: Record<CustomerMode, string> = {
+  collective: 'One collective customer',
+  per_customer: 'One Fortnox customer per Shopify customer',
+}
+
+const inputClassName = 'appearance-none block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm'
+
+export default function OnboardingWizard({ initialState, permissions }: OnboardingWizardProps) {
+  const searchParams = useSearchParams()
+  const [state, setState] = useState(initialState)
+  const [shopDomain, setShopDomain] = useState('')
+  const [customerMode, setCustomerMode] = useState(initialState.customerMode)
+  const [customerName, setCustomerName] = useState(initialState.webshopCustomerName)
+  const [error, setError] = useState('')
+  const [notice, setNotice] = useState('')
+  const [loading, setLoading] = useState(false)
+
+  const callbackResult = searchParams.get('fortnox') ?? searchParams.get('shopify')
+  const callbackError = callbackResult ? callbackErrors[callbackResult] : undefined
+
+  async function post(url: string, body: unknown) {
+    setError('')
+    setNotice('')
+    setLoading(true)
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Request failed')
+      }
+
+      setState(data.onboarding)
+      return data
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred')
+      return null
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  function handleShopify(e: FormEvent<HTMLFormElement>) {
+    e.preventDefault()
+    window.location.href = `/api/integrations/shopify/install?shop=${encodeURIComponent(shopDomain.trim())}`
+  }
+
+  async function handleWebshopCustomer(e: FormEvent<HTMLFormElement>) {
+    e.preventDefault()
+    const data = await post('/api/onboarding/webshop-customer', { mode: customerMode, name: customerName })
+    if (data) {
+      setNotice(`Fortnox customer ${data.customerNumber} is ready.`)
+    }
+  }
+
+  // The sync runs in the background; wait for a run started after the request to finish
+  async function handleFirstSync() {
+    const data = await post('/api/onboarding/first-sync', {})
+    if (!data) {
+      return
+    }
+
+    setLoading(true)
+    const requestedAt = new Date(data.requestedAt).getTime()
+    const deadline = Date.now() + FIRST_SYNC_POLL_LIMIT_MS
+
+    while (Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, FIRST_SYNC_POLL_MS))
+
+      try {
+        const response = await fetch('/api/onboarding')
+        if (!response.ok) {
+          continue
+        }
+
+        const next: OnboardingState = await response.json()
+        const lastRunAt = next.firstSync.lastRunAt ? new Date(next.firstSync.lastRunAt).getTime() : 0
+        if (next.firstSync.running || lastRunAt < requestedAt) {
+          continue
+        }
+
+        setState(next)
+        setLoading(false)
+        if (!next.steps.first_sync) {
+          setError(next.firstSync.error || 'The first sync did not finish successfully. Check sync history and try again.')
+        }
+        return
+      } catch {
+        // Keep polling through network hiccups
+      }
+    }
+
+    setLoading(false)
+    setError('The first sync is still running. Check sync history and reload this page later.')
+  }
+
+  function renderAction(step: OnboardingStep) {
+    const allowed = {
+      fortnox: permissions.integrations,
+      shopify: permissions.integrations,
+      webshop_customer: permissions.syncSettings,
+      first_sync: permissions.sync,
+    }[step]
+
+    if (!allowed) {
+      return <p className="text-sm text-gray-500">Ask your account owner or an admin to complete this step.</p>
+    }
+
+    switch (step) {
+      case 'fortnox':
+        return (
+          <a href="/api/integrations/fortnox/connect" className={buttonClassName}>
+            Connect Fortnox
+          </a>
+        )
+      case 'shopify':
+        return (
+          <form className="flex gap-2" onSubmit={handleShopify}>
+            <input
+              type="text"
+              required
+              value={shopDomain}
+              onChange={(e) => setShopDomain(e.target.value)}
+              className={inputClassName}
+              placeholder="my-shop.myshopify.com"
+            />
+            <button type="submit" className={buttonClassName}>
+              Install
+            </button>
+          </form>
+        )
+      case 'webshop_customer':
+        return (
+          <form className="flex gap-2" onSubmit={handleWebshopCustomer}>
+            <select
+              value={customerMode}
+              onChange={(e) => setCustomerMode(e.target.value as CustomerMode)}
+              className={inputClassName}
+              disabled={loading}
+            >
+              {(Object.keys(customerModeLabels) as CustomerMode[]).map(mode => (
+                <option key={mode} value={mode}>{customerModeLabels[mode]}</option>
+              ))}
+            </select>
+            <input
+              type="text"
+              required
+              value={customerName}
+              onChange={(e) => setCustomerName(e.target.value)}
+              className={inputClassName}
+              disabled={loading}
+            />
+            <button type="submit" className={buttonClassName} disabled={loading}>
+              {loading ? 'Saving...' : 'Save'}
+            </button>
+          </form>
+        )
+      case 'first_sync':
+        return (
+          <button type="button" className={buttonClassName} onClick={handleFirstSync} disabled={loading}>
+            {loading ? 'Syncing...' : 'Start first sync'}
+          </button>
+        )
+    }
+  }
+
+  const stepOrder = Object.keys(stepTitles) as OnboardingStep[]
+  const doneCount = stepOrder.filter(step => state.steps[step]).length
+
+  return (
+    <div className="min-h-screen bg-gray-100 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-2xl mx-auto space-y-6">
+        <div>
+          <h2 className="text-3xl font-extrabold text-gray-900">Set up Koppling</h2>
+          <p className="mt-2 text-sm text-gray-600">
+            {doneCount} of {stepOrder.length} steps done
+          </p>
+        </div>
+
+        {(error || callbackError) && (
+          <div className="rounded-md bg-red-50 p-4">
+            <h3 className="text-sm font-medium text-red-800">{error || callbackError}</h3>
+          </div>
+        )}
+
+        {notice && (
+          <div className="rounded-md bg-green-50 p-4">
+            <h3 className="text-sm font-medium text-green-800">{notice}</h3>
+          </div>
+        )}
+
+        {state.complete && (
+          <div className="rounded-md bg-green-50 p-4">
+            <h3 className="text-sm font-medium text-green-800">
+              Setup is complete. Orders and products now sync automatically.{' '}
+              <Link href="/dashboard" className="underline">Go to the dashboard</Link>
+            </h3>
+          </div>
+        )}
+
+        <ol className="space-y-4">
+          {stepOrder.map((step, index) => {
+            const done = state.steps[step]
+            const current = state.currentStep === step
+
+            return (
+              <li
+                key={step}
+                className={`bg-white shadow rounded-lg p-6 ${current ? 'ring-2 ring-indigo-500' : ''}`}
+              >
+                <div className="flex items-center justify-between">
+                  <h3 className="text-lg font-semibold text-gray-900">
+                    {index + 1}. {stepTitles[step]}
+                  </h3>
+                  {done && <span className="text-sm font-medium text-green-700">Done</span>}
+                </div>
+                <p className="mt-2 text-sm text-gray-600">{stepDescriptions[step]}</p>
+                {current && <div className="mt-4">{renderAction(step)}</div>}
+              </li>
+            )
+          })}
+        </ol>
+      </div>
+    </div>
+  )
+}
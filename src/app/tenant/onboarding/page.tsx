@@ -0,0 +1,41 @@
+/**
+ * Onboarding Page
+ *
+ * Guided setup for new tenants. Each step's completion comes from the
+ * tenant's real integration state, so the wizard resumes at the first
+ * unfinished step.
+ */
+
+import { getServerSession } from 'next-auth'
+import { redirect } from 'next/navigation'
+import { authOptions } from '@/lib/auth'
+import { getOnboardingState } from '@/lib/onboarding'
+import { hasPermission, Permission } from '@/lib/rbac'
+import OnboardingWizard from './onboarding-wizard'
+
+export default async function OnboardingPage() {
+  const session = await getServerSession(authOptions)
+
+  if (!session) {
+    redirect('/auth/signin?callbackUrl=/tenant/onboarding')
+  }
+
+  const { user } = session
+
+  if (!user.tenantId) {
+    redirect('/dashboard')
+  }
+
+  const state = await getOnboardingState(user.tenantId)
+
+  return (
+    <OnboardingWizard
+      initialState={state}
+      permissions={{
+        integrations: hasPermission(user.role, Permission.MANAGE_INTEGRATIONS),
+        syncSettings: hasPermission(user.role, Permission.MANAGE_SYNC_SETTINGS),
+        sync: hasPermission(user.role, Permission.TRIGGER_SYNC),
+      }}
+    />
+  )
+}
@@ -0,0 +1,42 @@
+/**
+ * Impersonate Button Component
+ *
+ * Client component for platform admins to start impersonating a user
+ */
+
+'use client'
+
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import { useState } from 'react'
+
+interface ImpersonateButtonProps {
+  userId: string
+}
+
+export function ImpersonateButton({ userId }: ImpersonateButtonProps) {
+  const { update } = useSession()
+  const router = useRouter()
+  const [loading, setLoading] = useState(false)
+
+  async function handleClick() {
+    setLoading(true)
+    try {
+      await update({ impersonateUserId: userId })
+      router.push('/dashboard')
+      router.refresh()
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <button
+      onClick={handleClick}
+      disabled={loading}
+      className="inline-flex items-center px-3 py-1 border border-gray-300 text-xs font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+    >
+      {loading ? 'Switching...' : 'Impersonate'}
+    </button>
+  )
+}
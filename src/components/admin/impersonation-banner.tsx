@@ -0,0 +1,42 @@
+/**
+ * Impersonation Banner Component
+ *
+ * Client component shown on every page while a platform admin is
+ * impersonating a user, with a button to stop impersonating
+ */
+
+'use client'
+
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+
+export function ImpersonationBanner() {
+  const { data: session, update } = useSession()
+  const router = useRouter()
+
+  if (!session?.user.impersonatorId) {
+    return null
+  }
+
+  async function handleStop() {
+    await update({ stopImpersonation: true })
+    router.push('/admin')
+    router.refresh()
+  }
+
+  return (
+    <div className="sticky top-0 z-50 bg-amber-500 text-amber-950">
+      <div className="max-w-7xl mx-auto px-4 py-2 sm:px-6 lg:px-8 flex items-center justify-between text-sm">
+        <span>
+          <strong>Impersonating</strong> {session.user.email} ({session.user.role}). All actions are logged.
+        </span>
+        <button
+          onClick={handleStop}
+          className="ml-4 px-3 py-1 rounded-md bg-amber-950 text-white text-xs font-medium hover:bg-amber-900"
+        >
+          Stop impersonating
+        </button>
+      </div>
+    </div>
+  )
+}
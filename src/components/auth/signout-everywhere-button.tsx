@@ -0,0 +1,46 @@
+/**
+ * Sign Out Everywhere Button Component
+ *
+ * Client component that ends every session of the current user,
+ * on all devices, then signs out locally
+ */
+
+'use client'
+
+import { signOut } from 'next-auth/react'
+import { useState } from 'react'
+
+export function SignOutEverywhereButton() {
+  const [loading, setLoading] = useState(false)
+
+  async function handleClick() {
+    if (!confirm('Sign out of all devices, including this one?')) {
+      return
+    }
+
+    setLoading(true)
+    try {
+      const response = await fetch('/api/account/sessions', { method: 'DELETE' })
+
+      if (!response.ok) {
+        const data = await response.json()
+        alert(data.error || 'Could not sign out of all devices')
+        return
+      }
+
+      await signOut({ callbackUrl: '/auth/signin' })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <button
+      onClick={handleClick}
+      disabled={loading}
+      className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+    >
+      {loading ? 'Signing out...' : 'Sign Out Everywhere'}
+    </button>
+  )
+}
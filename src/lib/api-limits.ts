@@ -0,0 +1,236 @@
+/**
+ * API Rate Limiting
+ *
+ * Client-side throttling and retries shared by the Fortnox and Shopify
+ * API clients:
+ * - a token bucket per key (Fortnox tenant, Shopify store) keeps a sync
+ *   under the provider's limit instead of running into it
+ * - 429s are retried with exponential backoff, honouring Retry-After;
+ *   5xx responses and network errors only for requests the caller marks
+ *   idempotent (GETs by default), so a write is never sent twice
+ * - a tracker collects what was observed during a sync run, stored on
+ *   SyncJob.rateLimitInfoJson
+ *
+ * Buckets live in process memory. They smooth one instance's bursts but
+ * are not shared across instances; the retries cover the rest.
+ */
+
+import { Prisma } from '@/generated/prisma'
+
+export type RateLimitedApi = 'fortnox' | 'shopify' | 'shopify_graphql'
+
+export interface TokenBucketOptions {
+  capacity: number
+  refillPerSecond: number
+}
+
+export interface TokenBucket {
+  // Wait until `cost` tokens are available and take them; resolves to the ms waited
+  take(cost?: number): Promise<number>
+  // Align with the limits reported by the provider
+  update(state: { available: number; capacity?: number; refillPerSecond?: number }): void
+}
+
+export interface RetryOptions {
+  bucket: TokenBucket
+  api: RateLimitedApi
+  // Retry 5xx responses and network errors, not just 429s
+  idempotent: boolean
+  tracker?: RateLimitTracker
+  cost?: number
+}
+
+interface ApiUsage {
+  requests: number
+  retries: number
+  rateLimited: number
+  serverErrors: number
+  throttledMs: number
+  // Last limits reported by the provider (headers or GraphQL cost)
+  limits?: Record<string, string | number>
+}
+
+export interface RateLimitTracker {
+  request(api: RateLimitedApi): void
+  retried(api: RateLimitedApi, status: number | null): void
+  throttled(api: RateLimitedApi, waitedMs: number): void
+  observe(api: RateLimitedApi, limits: Record<string, string | number>): void
+  toJson(): Prisma.InputJsonObject
+}
+
+export const MAX_RETRIES = 4
+
+const BASE_BACKOFF_MS = 500
+const MAX_BACKOFF_MS = 30_000
+
+const buckets = new Map<string, TokenBucket>()
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+/**
+ * Create a token bucket that starts full
+ */
+export function createTokenBucket(options: TokenBucketOptions): TokenBucket {
+  let { capacity, refillPerSecond } = options
+  let tokens = capacity
+  let refilledAt = Date.now()
+  // Callers queue behind each other so tokens are handed out in order
+  let queue: Promise<unknown> = Promise.resolve()
+
+  function refill() {
+    const now = Date.now()
+    tokens = Math.min(capacity, tokens + ((now - refilledAt) / 1000) * refillPerSecond)
+    refilledAt = now
+  }
+
+  async function acquire(cost: number): Promise<number> {
+    let waited = 0
+    refill()
+
+    while (tokens < Math.min(cost, capacity)) {
+      const delay = Math.ceil(((Math.min(cost, capacity) - tokens) / refillPerSecond) * 1000)
+      await sleep(delay)
+      waited += delay
+      refill()
+    }
+
+    tokens -= cost
+    return waited
+  }
+
+  return {
+    take(cost = 1) {
+      const turn = queue.then(() => acquire(cost))
+      queue = turn.catch(() => undefined)
+      return turn
+    },
+
+    update(state) {
+      capacity = state.capacity ?? capacity
+      refillPerSecond = state.refillPerSecond ?? refillPerSecond
+      refill()
+      tokens = Math.min(capacity, state.available)
+    },
+  }
+}
+
+/**
+ * The shared bucket for a key, created on first use
+ */
+export function getTokenBucket(key: string, options: TokenBucketOptions): TokenBucket {
+  let bucket = buckets.get(key)
+  if (!bucket) {
+    bucket = createTokenBucket(options)
+    buckets.set(key, bucket)
+  }
+  return bucket
+}
+
+/**
+ * Delay before retry number `attempt` (0-based)
+ * Retry-After (seconds or an HTTP date) wins over the backoff.
+ */
+export function retryDelayMs(attempt: number, retryAfter: string | null): number {
+  if (retryAfter) {
+    const seconds = Number(retryAfter)
+    const ms = Number.isFinite(seconds) ? seconds * 1000 : new Date(retryAfter).getTime() - Date.now()
+    if (Number.isFinite(ms) && ms >= 0) {
+      return Math.min(ms, MAX_BACKOFF_MS)
+    }
+  }
+
+  const backoff = BASE_BACKOFF_MS * 2 ** attempt
+  return Math.min(backoff + Math.random() * BASE_BACKOFF_MS, MAX_BACKOFF_MS)
+}
+
+function isRetryable(status: number, idempotent: boolean): boolean {
+  return status === 429 || (idempotent && status >= 500)
+}
+
+/**
+ * Send a request through the bucket, retrying throttled and failed attempts
+ * Returns the last response; the caller handles non-OK statuses.
+ */
+export async function sendWithRetry(send: () => Promise<Response>, options: RetryOptions): Promise<Response> {
+  const { api, tracker } = options
+
+  for (let attempt = 0; ; attempt++) {
+    const waited = await options.bucket.take(options.cost)
+    if (waited > 0) {
+      tracker?.throttled(api, waited)
+    }
+
+    tracker?.request(api)
+
+    let response: Response
+    try {
+      response = await send()
+    } catch (error) {
+      if (!options.idempotent || attempt >= MAX_RETRIES) {
+        throw error
+      }
+      tracker?.retried(api, null)
+      await sleep(retryDelayMs(attempt, null))
+      continue
+    }
+
+    if (!isRetryable(response.status, options.idempotent) || attempt >= MAX_RETRIES) {
+      return response
+    }
+
+    tracker?.retried(api, response.status)
+    if (response.status === 429) {
+      // The provider's bucket is empty; ours should be too
+      options.bucket.update({ available: 0 })
+    }
+
+    await response.body?.cancel()
+    await sleep(retryDelayMs(attempt, response.headers.get('retry-after')))
+  }
+}
+
+/**
+ * Collect request counts, retries and reported limits for one sync run
+ */
+export function createRateLimitTracker(): RateLimitTracker {
+  const usage = new Map<RateLimitedApi, ApiUsage>()
+
+  function entry(api: RateLimitedApi): ApiUsage {
+    let current = usage.get(api)
+    if (!current) {
+      current = { requests: 0, retries: 0, rateLimited: 0, serverErrors: 0, throttledMs: 0 }
+      usage.set(api, current)
+    }
+    return current
+  }
+
+  return {
+    request(api) {
+      entry(api).requests++
+    },
+
+    retried(api, status) {
+      const current = entry(api)
+      current.retries++
+      if (status === 429) {
+        current.rateLimited++
+      } else {
+        current.serverErrors++
+      }
+    },
+
+    throttled(api, waitedMs) {
+      entry(api).throttledMs += waitedMs
+    },
+
+    observe(api, limits) {
+      entry(api).limits = limits
+    },
+
+    toJson() {
+      return Object.fromEntries(usage) as unknown as Prisma.InputJsonObject
+    },
+  }
+}
@@ -0,0 +1,212 @@
+/**
+ * Audit Log Queries
+ *
+ * Filter parsing, paging and CSV/NDJSON serialization for reading the
+ * audit log. Tenant scoping is decided by the caller.
+ */
+
+import { Prisma } from '@/generated/prisma'
+import { prisma } from '@/lib/prisma'
+import { PageParams, pageArgs, toPage } from '@/lib/pagination'
+
+export const AUDIT_LOG_EXPORT_FORMATS = ['csv', 'ndjson'] as const
+
+export type AuditLogExportFormat = (typeof AUDIT_LOG_EXPORT_FORMATS)[number]
+
+// Rows fetched per query while streaming an export
+const EXPORT_BATCH_SIZE = 500
+
+export const AUDIT_LOG_CSV_COLUMNS = [
+  'id',
+  'createdAt',
+  'tenantId',
+  'userId',
+  'userEmail',
+  'source',
+  'action',
+  'entityType',
+  'entityId',
+  'ipAddress',
+  'changes',
+] as const
+
+export class AuditLogQueryError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'AuditLogQueryError'
+  }
+}
+
+const AUDIT_LOG_SELECT = {
+  id: true,
+  tenantId: true,
+  userId: true,
+  user: { select: { email: true } },
+  entityType: true,
+  entityId: true,
+  action: true,
+  changesJson: true,
+  source: true,
+  ipAddress: true,
+  createdAt: true,
+} satisfies Prisma.AuditLogSelect
+
+type AuditLogRow = Prisma.AuditLogGetPayload<{ select: typeof AUDIT_LOG_SELECT }>
+
+export interface AuditLogRecord {
+  id: string
+  createdAt: string
+  tenantId: string | null
+  userId: string | null
+  userEmail: string | null
+  source: string | null
+  action: string | null
+  entityType: string | null
+  entityId: string | null
+  ipAddress: string | null
+  changes: Prisma.JsonValue
+}
+
+function parseDate(value: string | null, name: string): Date | undefined {
+  if (!value) {
+    return undefined
+  }
+
+  const date = new Date(value)
+  if (Number.isNaN(date.getTime())) {
+    throw new AuditLogQueryError(`Invalid ${name} date`)
+  }
+  return date
+}
+
+/**
+ * Build the where clause from query parameters
+ * `tenantId` is the already-authorized tenant scope; null means all tenants.
+ */
+export function parseAuditLogFilters(
+  searchParams: URLSearchParams,
+  tenantId: string | null
+): Prisma.AuditLogWhereInput {
+  const from = parseDate(searchParams.get('from'), 'from')
+  const to = parseDate(searchParams.get('to'), 'to')
+
+  if (from && to && from > to) {
+    throw new AuditLogQueryError('from must be before to')
+  }
+
+  return {
+    ...(tenantId ? { tenantId } : {}),
+    ...(searchParams.get('entityType') ? { entityType: searchParams.get('entityType') } : {}),
+    ...(searchParams.get('userId') ? { userId: searchParams.get('userId') } : {}),
+    ...(searchParams.get('action') ? { action: searchParams.get('action') } : {}),
+    ...(from || to ? { createdAt: { ...(from ? { gte: from } : {}), ...(to ? { lte: to } : {}) } } : {}),
+  }
+}
+
+function toRecord(row: AuditLogRow): AuditLogRecord {
+  return {
+    id: row.id,
+    createdAt: row.createdAt.toISOString(),
+    tenantId: row.tenantId,
+    userId: row.userId,
+    userEmail: row.user?.email ?? null,
+    source: row.source,
+    action: row.action,
+    entityType: row.entityType,
+    entityId: row.entityId,
+    ipAddress: row.ipAddress,
+    changes: row.changesJson,
+  }
+}
+
+/**
+ * One page of audit log entries, newest first
+ */
+export async function listAuditLog(where: Prisma.AuditLogWhereInput, page: PageParams) {
+  const rows = await prisma.auditLog.findMany({
+    where,
+    select: AUDIT_LOG_SELECT,
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    ...pageArgs(page),
+  })
+
+  const { items, nextCursor } = toPage(rows, page.limit)
+
+  return { items: items.map(toRecord), nextCursor }
+}
+
+/**
+ * Iterate every matching entry, newest first, in batches
+ */
+export async function* iterateAuditLog(where: Prisma.AuditLogWhereInput): AsyncGenerator<AuditLogRecord> {
+  let cursor: string | null = null
+
+  do {
+    const page: Awaited<ReturnType<typeof listAuditLog>> = await listAuditLog(where, {
+      cursor,
+      limit: EXPORT_BATCH_SIZE,
+    })
+
+    yield* page.items
+    cursor = page.nextCursor
+  } while (cursor)
+}
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) {
+    return ''
+  }
+
+  let text = typeof value === 'string' ? value : JSON.stringify(value)
+
+  // Keep spreadsheets from evaluating cells as formulas
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Serialize a record as one line of the given export format
+ */
+export function formatAuditLogLine(record: AuditLogRecord, format: AuditLogExportFormat): string {
+  if (format === 'ndjson') {
+    return `${JSON.stringify(record)}\n`
+  }
+  return `${AUDIT_LOG_CSV_COLUMNS.map(column => csvCell(record[column])).join(',')}\r\n`
+}
+
+/**
+ * Stream every matching entry as CSV (with header row) or NDJSON
+ */
+export function streamAuditLogExport(
+  where: Prisma.AuditLogWhereInput,
+  format: AuditLogExportFormat
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  const records = iterateAuditLog(where)
+
+  return new ReadableStream({
+    start(controller) {
+      if (format === 'csv') {
+        controller.enqueue(encoder.encode(`${AUDIT_LOG_CSV_COLUMNS.join(',')}\r\n`))
+      }
+    },
+    async pull(controller) {
+      try {
+        const { value, done } = await records.next()
+        if (done) {
+          controller.close()
+          return
+        }
+        controller.enqueue(encoder.encode(formatAuditLogLine(value, format)))
+      } catch (error) {
+        controller.error(error)
+      }
+    },
+    async cancel() {
+      await records.return(undefined)
+    },
+  })
+}
@@ -0,0 +1,383 @@
+/**
+ * Automatic Audit Logging
+ *
+ * Prisma extension that writes an AuditLog entry for every create,
+ * update and delete of a tenant-owned model, with a before/after diff
+ * of the changed fields. The acting user, tenant and IP come from the
+ * request headers set by middleware; background work (sync, webhooks)
+ * declares its source with `withAuditSource`.
+ *
+ * Entries are written after the response (or immediately outside a
+ * request) so they never hold up or fail the audited write. Nested
+ * writes through relations are not intercepted. Snapshots are read
+ * outside any surrounding transaction, so the after state combines the
+ * committed row with the written data and the operation result.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks'
+import { after } from 'next/server'
+import { headers } from 'next/headers'
+import { Prisma } from '@/generated/prisma'
+import { TENANT_OWNED_MODELS, TenantOwnedModel, isTenantOwnedModel, toClientModelName } from '@/lib/tenant-models'
+
+export const AUDIT_SOURCES = ['ui', 'api', 'sync', 'webhook', 'admin'] as const
+
+export type AuditSource = (typeof AUDIT_SOURCES)[number]
+
+export type AuditAction = 'create' | 'update' | 'delete'
+
+// Internal bookkeeping tables (and the audit log itself) that are not audited
+const UNAUDITED_MODELS = new Set<TenantOwnedModel>(['syncJob', 'syncJobChange', 'syncLock', 'auditLog'])
+
+// Raw provider payloads are kept on the row itself; the TOTP replay
+// counter changes on every two-factor sign-in
+const OMITTED_FIELDS = new Set(['rawJson', 'createdAt', 'updatedAt', 'totpLastStep'])
+
+const REDACTED_FIELD = /(Secret|Hash|Hashes)$/
+const REDACTED_VALUE = '[REDACTED]'
+
+type AuditRow = Record<string, unknown>
+
+type AuditContextOverride = {
+  source: AuditSource
+}
+
+type ResolvedAuditContext = {
+  source: AuditSource
+  userId: string | null
+  impersonatorId: string | null
+  ipAddress: string | null
+}
+
+type ModelDelegate = {
+  findUnique(args: unknown): Promise<AuditRow | null>
+  findMany(args: unknown): Promise<AuditRow[]>
+}
+
+type AuditLogDelegate = {
+  createMany(args: { data: Prisma.AuditLogCreateManyInput[] }): Promise<unknown>
+}
+
+const auditContextStorage = new AsyncLocalStorage<AuditContextOverride>()
+
+/**
+ * Attribute all audited writes made by fn to the given source
+ */
+export function withAuditSource<T>(source: AuditSource, fn: () => Promise<T>): Promise<T> {
+  return auditContextStorage.run({ source }, fn)
+}
+
+async function getRequestHeaders(): Promise<Headers | null> {
+  try {
+    return await headers()
+  } catch {
+    // Outside a request scope (scripts, timers)
+    return null
+  }
+}
+
+async function resolveAuditContext(): Promise<ResolvedAuditContext> {
+  const override = auditContextStorage.getStore()
+  const requestHeaders = await getRequestHeaders()
+
+  const userId = requestHeaders?.get('x-user-id') ?? null
+  const impersonatorId = requestHeaders?.get('x-impersonator-id') ?? null
+  const ipAddress = requestHeaders?.get('x-forwarded-for')?.split(',')[0].trim()
+    || requestHeaders?.get('x-real-ip')
+    || null
+
+  return {
+    source: override?.source ?? inferSource(requestHeaders, impersonatorId),
+    userId,
+    impersonatorId,
+    ipAddress,
+  }
+}
+
+/**
+ * Infer the source of a write from the request that made it
+ * Writes outside any request come from background jobs.
+ */
+function inferSource(requestHeaders: Headers | null, impersonatorId: string | null): AuditSource {
+  if (!requestHeaders) {
+    return 'sync'
+  }
+
+  if (impersonatorId || requestHeaders.get('x-user-role') === 'platform_admin') {
+    return 'admin'
+  }
+
+  // Server actions and same-origin fetches come from our own pages
+  if (requestHeaders.get('next-action') || requestHeaders.get('sec-fetch-site') === 'same-origin') {
+    return 'ui'
+  }
+
+  return 'api'
+}
+
+/**
+ * Serialize a row for the audit log, dropping noisy fields and
+ * redacting secrets and hashes
+ */
+function sanitize(row: AuditRow): AuditRow {
+  const result: AuditRow = {}
+
+  for (const [field, value] of Object.entries(row)) {
+    if (OMITTED_FIELDS.has(field)) {
+      continue
+    }
+    result[field] = REDACTED_FIELD.test(field) && value !== null
+      ? REDACTED_VALUE
+      : JSON.parse(JSON.stringify(value ?? null))
+  }
+
+  return result
+}
+
+/**
+ * Diff two rows, keeping only fields whose value changed
+ * Returns null when nothing changed.
+ */
+export function diffRows(before: AuditRow | null, after: AuditRow | null) {
+  const beforeClean = before ? sanitize(before) : null
+  const afterClean = after ? sanitize(after) : null
+
+  if (!beforeClean || !afterClean) {
+    return { before: beforeClean, after: afterClean }
+  }
+
+  const changedBefore: AuditRow = {}
+  const changedAfter: AuditRow = {}
+
+  for (const field of new Set([...Object.keys(beforeClean), ...Object.keys(afterClean)])) {
+    // Redacted values compare equal, so diff secrets on the raw row
+    const beforeValue = REDACTED_FIELD.test(field) ? before?.[field] : beforeClean[field]
+    const afterValue = REDACTED_FIELD.test(field) ? after?.[field] : afterClean[field]
+
+    if (JSON.stringify(beforeValue ?? null) !== JSON.stringify(afterValue ?? null)) {
+      changedBefore[field] = beforeClean[field] ?? null
+      changedAfter[field] = afterClean[field] ?? null
+    }
+  }
+
+  if (Object.keys(changedAfter).length === 0) {
+    return null
+  }
+
+  return { before: changedBefore, after: changedAfter }
+}
+
+function buildEntry(
+  model: TenantOwnedModel,
+  action: AuditAction,
+  before: AuditRow | null,
+  after: AuditRow | null,
+  context: ResolvedAuditContext
+): Prisma.AuditLogCreateManyInput | null {
+  const changes = diffRows(before, after)
+  if (!changes) {
+    return null
+  }
+
+  const row = after ?? before
+  const tenantField = TENANT_OWNED_MODELS[model]
+  // A deleted tenant's entries would be removed with it
+  const tenantId = model === 'tenant' && action === 'delete' ? null : row?.[tenantField]
+  const entityId = row?.id
+
+  return {
+    tenantId: typeof tenantId === 'string' ? tenantId : null,
+    userId: context.userId,
+    entityType: model,
+    entityId: typeof entityId === 'string' ? entityId : null,
+    action,
+    changesJson: {
+      ...changes,
+      ...(context.impersonatorId ? { impersonatorId: context.impersonatorId } : {}),
+    } as unknown as Prisma.InputJsonObject,
+    source: context.source,
+    ipAddress: context.ipAddress,
+  }
+}
+
+function toRows(value: unknown): AuditRow[] {
+  if (Array.isArray(value)) {
+    return value.filter((row): row is AuditRow => !!row && typeof row === 'object')
+  }
+  return value && typeof value === 'object' ? [value as AuditRow] : []
+}
+
+/**
+ * Scalar columns of an operation result, without relations loaded
+ * through include / nested select
+ */
+function resultScalars(result: unknown, args: unknown): AuditRow {
+  if (!result || typeof result !== 'object' || Array.isArray(result)) {
+    return {}
+  }
+
+  const { include, select } = (args ?? {}) as { include?: AuditRow; select?: AuditRow }
+  const relations = new Set([
+    ...Object.keys(include ?? {}),
+    ...Object.entries(select ?? {}).filter(([, value]) => value && typeof value === 'object').map(([key]) => key),
+  ])
+
+  return Object.fromEntries(Object.entries(result as AuditRow).filter(([key]) => !relations.has(key)))
+}
+
+/**
+ * Plain values written by a data argument (`{ set }` unwrapped,
+ * atomic operations and relation writes skipped)
+ */
+function plainData(data: unknown): AuditRow {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return {}
+  }
+
+  const result: AuditRow = {}
+
+  for (const [key, value] of Object.entries(data as AuditRow)) {
+    if (value === null || typeof value !== 'object' || value instanceof Date) {
+      result[key] = value
+    } else if ('set' in value) {
+      result[key] = (value as { set: unknown }).set
+    }
+  }
+
+  return result
+}
+
+function rowIds(rows: AuditRow[]): string[] {
+  return rows.map(row => row.id).filter((id): id is string => typeof id === 'string')
+}
+
+/**
+ * Write entries without blocking the caller
+ * Inside a request this runs after the response, which also lets the
+ * insert wait for any transaction that created the referenced rows.
+ */
+function persistEntries(auditLog: AuditLogDelegate, entries: Prisma.AuditLogCreateManyInput[]) {
+  if (entries.length === 0) {
+    return
+  }
+
+  const write = () =>
+    auditLog.createMany({ data: entries }).catch(error => {
+      console.error('Audit log write error:', error)
+    })
+
+  try {
+    after(write)
+  } catch {
+    // Outside a request scope
+    void write()
+  }
+}
+
+export const auditLogExtension = Prisma.defineExtension(client => {
+  const delegates = client as unknown as Record<string, ModelDelegate>
+  const { auditLog } = client as unknown as { auditLog: AuditLogDelegate }
+
+  return client.$extends({
+    name: 'audit-log',
+
+    query: {
+      $allModels: {
+        async $allOperations({ model, operation, args, query }) {
+          const clientModel = toClientModelName(model)
+
+          if (!isTenantOwnedModel(clientModel) || UNAUDITED_MODELS.has(clientModel)) {
+            return query(args)
+          }
+
+          const delegate = delegates[clientModel]
+          const where = (args as { where?: unknown }).where
+          let entries: (Prisma.AuditLogCreateManyInput | null)[] = []
+
+          switch (operation) {
+            case 'create':
+            case 'createManyAndReturn': {
+              const result = await query(args)
+              const created = toRows(result)
+              const ids = rowIds(created)
+              const committed = ids.length > 0
+                ? await delegate.findMany({ where: { id: { in: ids } } })
+                : []
+              const committedById = new Map(committed.map(row => [row.id, row]))
+              const context = await resolveAuditContext()
+
+              entries = created.map(row => buildEntry(clientModel, 'create', null, {
+                ...committedById.get(row.id),
+                ...resultScalars(row, args),
+              }, context))
+              persistEntries(auditLog, entries.filter(entry => entry !== null))
+              return result
+            }
+
+            case 'createMany': {
+              const result = await query(args)
+              const context = await resolveAuditContext()
+              const data = toRows((args as { data?: unknown }).data)
+
+              entries = data.map(row => buildEntry(clientModel, 'create', null, row, context))
+              persistEntries(auditLog, entries.filter(entry => entry !== null))
+              return result
+            }
+
+            case 'update':
+            case 'upsert':
+            case 'delete': {
+              const before = await delegate.findUnique({ where })
+              const result = await query(args)
+              const written = operation === 'upsert'
+                ? plainData(before ? (args as { update?: unknown }).update : (args as { create?: unknown }).create)
+                : plainData((args as { data?: unknown }).data)
+              const afterRow = operation === 'delete'
+                ? null
+                : {
+                    ...(before ?? {}),
+                    ...(await delegate.findUnique({ where: before ? { id: before.id } : where })),
+                    ...written,
+                    ...resultScalars(result, args),
+                  }
+              const context = await resolveAuditContext()
+              const action: AuditAction = operation === 'delete'
+                ? 'delete'
+                : before ? 'update' : 'create'
+
+              entries = [buildEntry(clientModel, action, before, afterRow, context)]
+              persistEntries(auditLog, entries.filter(entry => entry !== null))
+              return result
+            }
+
+            case 'updateMany':
+            case 'updateManyAndReturn':
+            case 'deleteMany': {
+              const beforeRows = await delegate.findMany({ where })
+              const result = await query(args)
+              const context = await resolveAuditContext()
+
+              if (operation === 'deleteMany') {
+                entries = beforeRows.map(row => buildEntry(clientModel, 'delete', row, null, context))
+              } else {
+                const afterRows = await delegate.findMany({ where: { id: { in: rowIds(beforeRows) } } })
+                const afterById = new Map(afterRows.map(row => [row.id, row]))
+                const written = plainData((args as { data?: unknown }).data)
+
+                entries = beforeRows.map(row =>
+                  buildEntry(clientModel, 'update', row, { ...row, ...afterById.get(row.id), ...written }, context)
+                )
+              }
+
+              persistEntries(auditLog, entries.filter(entry => entry !== null))
+              return result
+            }
+
+            default:
+              return query(args)
+          }
+        },
+      },
+    },
+  })
+})
@@ -14,6 +14,30 @@ export interface AuthContext {
   userId: string
   tenantId: string | null
   role: UserRole
+  // Platform admin acting as this user, if impersonating
+  impersonatorId?: string | null
+}
+
+export type TenantAuthContext = AuthContext & { tenantId: string }
+
+/**
+ * Not signed in (401)
+ */
+export class UnauthorizedError extends Error {
+  constructor(message = 'Unauthorized') {
+    super(message)
+    this.name = 'UnauthorizedError'
+  }
+}
+
+/**
+ * Signed in but not allowed (403)
+ */
+export class ForbiddenError extends Error {
+  constructor(message = 'Insufficient permissions') {
+    super(message)
+    this.name = 'ForbiddenError'
+  }
 }
 
 /**
@@ -25,6 +49,7 @@ export async function getAuthContext(): Promise<AuthContext | null> {
   const userId = headersList.get('x-user-id')
   const tenantId = headersList.get('x-tenant-id')
   const role = headersList.get('x-user-role') as UserRole | null
+  const impersonatorId = headersList.get('x-impersonator-id')
 
   if (!userId || !role) {
     return null
@@ -34,6 +59,7 @@ export async function getAuthContext(): Promise<AuthContext | null> {
     userId,
     tenantId,
     role,
+    impersonatorId,
   }
 }
 
@@ -51,6 +77,7 @@ export async function getAuthContextFromSession(): Promise<AuthContext | null> {
     userId: session.user.id,
     tenantId: session.user.tenantId,
     role: session.user.role,
+    impersonatorId: session.user.impersonatorId ?? null,
   }
 }
 
@@ -61,7 +88,7 @@ export async function requireAuth(): Promise<AuthContext> {
   const context = await getAuthContext()
 
   if (!context) {
-    throw new Error('Unauthorized')
+    throw new UnauthorizedError()
   }
 
   return context
@@ -70,14 +97,14 @@ export async function requireAuth(): Promise<AuthContext> {
 /**
  * Require tenant - throws error if user doesn't have a tenant
  */
-export async function requireTenant(): Promise<Required<AuthContext>> {
+export async function requireTenant(): Promise<TenantAuthContext> {
   const context = await requireAuth()
 
   if (!context.tenantId) {
-    throw new Error('No tenant associated with user')
+    throw new ForbiddenError('No tenant associated with user')
   }
 
-  return context as Required<AuthContext>
+  return context as TenantAuthContext
 }
 
 /**
@@ -87,7 +114,7 @@ export async function requireRole(...roles: UserRole[]): Promise<AuthContext> {
   const context = await requireAuth()
 
   if (!roles.includes(context.role)) {
-    throw new Error('Insufficient permissions')
+    throw new ForbiddenError()
   }
 
   return context
@@ -11,6 +11,30 @@ import { PrismaAdapter } from '@auth/prisma-adapter'
 import bcrypt from 'bcryptjs'
 import { prisma } from '@/lib/prisma'
 import { UserRole } from '@/generated/prisma'
+import {
+  ImpersonationUpdate,
+  isImpersonationExpired,
+  startImpersonation,
+  stopImpersonation,
+} from '@/lib/impersonation'
+import {
+  auditSignIn,
+  getClientIp,
+  recordSignInSuccess,
+  releaseSignInAttempt,
+  throttleSignIn,
+  TooManyAttemptsError,
+} from '@/lib/sign-in-throttle'
+import {
+  completeTwoFactorEnrolment,
+  isTwoFactorRequired,
+  TwoFactorUpdate,
+  verifySecondFactor,
+} from '@/lib/two-factor'
+import { refreshSessionToken } from '@/lib/session-version'
+
+// Sign-in error telling the form to ask for an authentication code
+const TWO_FACTOR_REQUIRED_ERROR = 'TwoFactorRequired'
 
 declare module 'next-auth' {
   interface Session {
@@ -20,6 +44,7 @@ declare module 'next-auth' {
       name?: string | null
       role: UserRole
       tenantId: string | null
+      impersonatorId?: string | null
     }
   }
 
@@ -29,6 +54,9 @@ declare module 'next-auth' {
     name?: string | null
     role: UserRole
     tenantId: string | null
+    sessionVersion: number
+    twoFactorVerified: boolean
+    twoFactorEnrolmentRequired: boolean
   }
 }
 
@@ -37,6 +65,17 @@ declare module 'next-auth/jwt' {
     id: string
     role: UserRole
     tenantId: string | null
+    // User's sessionVersion at sign-in (see session-version.ts)
+    sessionVersion?: number
+    // Second factor completed at sign-in
+    twoFactorVerified?: boolean
+    // 2FA is required but not set up yet; only enrolment is reachable
+    twoFactorEnrolmentRequired?: boolean
+    // Last time the token was re-checked against the database
+    sessionCheckedAt?: number
+    // Set while a platform admin is impersonating this user
+    impersonatorId?: string | null
+    impersonationStartedAt?: number | null
   }
 }
 
@@ -48,48 +87,101 @@ export const authOptions: NextAuthOptions = {
       name: 'credentials',
       credentials: {
         email: { label: 'Email', type: 'email' },
-        password: { label: 'Password', type: 'password' }
+        password: { label: 'Password', type: 'password' },
+        code: { label: 'Authentication code', type: 'text' }
       },
 
-      async authorize(credentials) {
+      async authorize(credentials, req) {
         try {
           if (!credentials?.email || !credentials?.password) {
             throw new Error('Missing credentials')
           }
 
+          const email = credentials.email
+          const ipAddress = getClientIp(req?.headers)
+
+          // Counted up front; locked-out emails and IPs are rejected before the password is checked
+          try {
+            await throttleSignIn(email, ipAddress)
+          } catch (error) {
+            if (error instanceof TooManyAttemptsError) {
+              await auditSignIn({ action: 'sign_in_locked', email, ipAddress })
+            }
+            throw error
+          }
+
           // Find user by email
           const user = await prisma.user.findUnique({
-            where: { email: credentials.email },
+            where: { email },
             include: { tenant: true }
           })
 
-          if (!user || !user.passwordHash) {
+          // Verify password
+          const isValid = user?.passwordHash
+            ? await bcrypt.compare(credentials.password, user.passwordHash)
+            : false
+
+          if (!user || !isValid) {
+            await auditSignIn({
+              action: 'sign_in_failed',
+              email,
+              ipAddress,
+              user,
+              reason: 'invalid_credentials',
+            })
             throw new Error('Invalid credentials')
           }
 
-          // Verify password
-          const isValid = await bcrypt.compare(credentials.password, user.passwordHash)
+          // Second factor (TOTP or recovery code) for users who enrolled
+          const twoFactorEnabled = !!user.totpEnabledAt
+          if (twoFactorEnabled) {
+            if (!credentials.code) {
+              await releaseSignInAttempt(email, ipAddress)
+              throw new Error(TWO_FACTOR_REQUIRED_ERROR)
+            }
 
-          if (!isValid) {
-            throw new Error('Invalid credentials')
+            if (!(await verifySecondFactor(user.id, credentials.code))) {
+              await auditSignIn({
+                action: 'sign_in_failed',
+                email,
+                ipAddress,
+                user,
+                reason: 'invalid_second_factor',
+              })
+              throw new Error('Invalid authentication code')
+            }
+          }
+
+          // Users who signed up but have not verified their email yet
+          if (user.status === 'pending') {
+            await auditSignIn({ action: 'sign_in_failed', email, ipAddress, user, reason: 'email_not_verified' })
+            throw new Error('Please verify your email address before signing in')
           }
 
           // Check if user is active
           if (user.status !== 'active') {
+            await auditSignIn({ action: 'sign_in_failed', email, ipAddress, user, reason: 'user_inactive' })
             throw new Error('Account is not active')
           }
 
           // Check if tenant is active (except for platform admins)
           if (user.role !== 'platform_admin' && user.tenant?.status !== 'active') {
+            await auditSignIn({ action: 'sign_in_failed', email, ipAddress, user, reason: 'tenant_inactive' })
             throw new Error('Account is not active')
           }
 
+          await recordSignInSuccess(email, ipAddress)
+          await auditSignIn({ action: 'sign_in_succeeded', email, ipAddress, user })
+
           return {
             id: user.id,
             email: user.email,
             name: user.name,
             role: user.role,
-            tenantId: user.tenantId
+            tenantId: user.tenantId,
+            sessionVersion: user.sessionVersion,
+            twoFactorVerified: twoFactorEnabled,
+            twoFactorEnrolmentRequired: !twoFactorEnabled && isTwoFactorRequired(user)
           }
         } catch (error: any) {
           // Log error for debugging but don't expose technical details
@@ -110,7 +202,7 @@ export const authOptions: NextAuthOptions = {
 
   session: {
     strategy: 'jwt',
-    maxAge: 30 * 24 * 60 * 60, // 30 days
+    maxAge: 30 * 24 * 60 * 60, // 30 days, re-checked against the database (see session-version.ts)
   },
 
   pages: {
@@ -119,12 +211,47 @@ export const authOptions: NextAuthOptions = {
   },
 
   callbacks: {
-    async jwt({ token, user }) {
+    async jwt({ token, user, trigger, session }) {
       if (user) {
         token.id = user.id
         token.role = user.role
         token.tenantId = user.tenantId
+        token.sessionVersion = user.sessionVersion
+        token.twoFactorVerified = user.twoFactorVerified
+        token.twoFactorEnrolmentRequired = user.twoFactorEnrolmentRequired
+        token.sessionCheckedAt = Date.now()
+      } else {
+        // Ends the session if the user's role, status or session version
+        // changed (checked periodically, and before every session update)
+        token = await refreshSessionToken(token, trigger === 'update')
       }
+
+      // Impersonation and 2FA enrolment are applied with useSession().update(...)
+      if (trigger === 'update') {
+        const update = session as (ImpersonationUpdate & TwoFactorUpdate) | undefined
+
+        if (update?.twoFactorEnrolled && !token.impersonatorId) {
+          return completeTwoFactorEnrolment(token)
+        }
+
+        if (update?.stopImpersonation) {
+          return stopImpersonation(token)
+        }
+
+        if (update?.impersonateUserId) {
+          try {
+            return await startImpersonation(token, update.impersonateUserId)
+          } catch (error) {
+            console.error('Impersonation error:', error)
+            return token
+          }
+        }
+      }
+
+      if (isImpersonationExpired(token)) {
+        return stopImpersonation(token, 'expired')
+      }
+
       return token
     },
 
@@ -133,6 +260,7 @@ export const authOptions: NextAuthOptions = {
         session.user.id = token.id
         session.user.role = token.role
         session.user.tenantId = token.tenantId
+        session.user.impersonatorId = token.impersonatorId ?? null
       }
       return session
     }
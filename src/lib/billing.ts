@@ -0,0 +1,187 @@
+/**
+ * Billing
+ *
+ * Stripe subscription lifecycle and the access rules that follow from a
+ * tenant's subscription status:
+ *
+ * - active: full access
+ * - past_due: full access during a grace period, then read-only
+ * - canceled: syncs are paused
+ * - incomplete / no subscription: syncs are paused until checkout completes
+ */
+
+import type Stripe from 'stripe'
+import { prisma } from '@/lib/prisma'
+import { SubscriptionStatus } from '@/generated/prisma'
+import { getStripe } from '@/lib/stripe'
+
+// Days a past_due tenant keeps full access after the failed payment
+export const PAST_DUE_GRACE_DAYS = 7
+
+export interface BillingAccess {
+  canWrite: boolean
+  canSync: boolean
+  reason: string | null
+}
+
+export class BillingAccessError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'BillingAccessError'
+  }
+}
+
+/**
+ * Map a Stripe subscription status onto our SubscriptionStatus
+ */
+export function mapStripeStatus(status: Stripe.Subscription.Status): SubscriptionStatus {
+  switch (status) {
+    case 'active':
+    case 'trialing':
+      return 'active'
+    case 'past_due':
+    case 'unpaid':
+      return 'past_due'
+    case 'canceled':
+    case 'incomplete_expired':
+      return 'canceled'
+    case 'incomplete':
+    case 'paused':
+    default:
+      return 'incomplete'
+  }
+}
+
+/**
+ * Derive access from a subscription
+ */
+export function getBillingAccess(
+  subscription: { status: SubscriptionStatus | null; pastDueSince: Date | null } | null,
+  now = new Date()
+): BillingAccess {
+  switch (subscription?.status) {
+    case 'active':
+      return { canWrite: true, canSync: true, reason: null }
+
+    case 'past_due': {
+      const graceEnd = (subscription.pastDueSince?.getTime() ?? 0) + PAST_DUE_GRACE_DAYS * 24 * 60 * 60 * 1000
+      if (now.getTime() <= graceEnd) {
+        return { canWrite: true, canSync: true, reason: 'Payment is past due' }
+      }
+      return { canWrite: false, canSync: false, reason: 'Payment is past due - account is read-only' }
+    }
+
+    case 'canceled':
+      return { canWrite: true, canSync: false, reason: 'Subscription is canceled - syncs are paused' }
+
+    default:
+      return { canWrite: true, canSync: false, reason: 'No active subscription' }
+  }
+}
+
+/**
+ * Get a tenant's billing access
+ */
+export async function getTenantBillingAccess(tenantId: string): Promise<BillingAccess> {
+  const subscription = await prisma.billingSubscription.findUnique({
+    where: { tenantId },
+    select: { status: true, pastDueSince: true },
+  })
+
+  return getBillingAccess(subscription)
+}
+
+/**
+ * Throw unless the tenant may make changes (or, with `sync`, run syncs)
+ */
+export async function requireBillingAccess(tenantId: string, level: 'write' | 'sync' = 'write'): Promise<void> {
+  const access = await getTenantBillingAccess(tenantId)
+  const allowed = level === 'sync' ? access.canSync : access.canWrite
+
+  if (!allowed) {
+    throw new BillingAccessError(access.reason ?? 'Billing does not allow this action')
+  }
+}
+
+/**
+ * Get the tenant's Stripe customer, creating it on first use
+ */
+export async function getOrCreateStripeCustomer(tenantId: string): Promise<string> {
+  const existing = await prisma.billingSubscription.findUnique({
+    where: { tenantId },
+    select: { stripeCustomerId: true },
+  })
+
+  if (existing?.stripeCustomerId) {
+    return existing.stripeCustomerId
+  }
+
+  const tenant = await prisma.tenant.findUniqueOrThrow({
+    where: { id: tenantId },
+    include: { users: { where: { role: 'tenant_owner' }, take: 1 } },
+  })
+
+  const stripe = await getStripe()
+  const customer = await stripe.customers.create({
+    name: tenant.companyName,
+    email: tenant.users[0]?.email,
+    metadata: { tenantId },
+  })
+
+  await prisma.billingSubscription.upsert({
+    where: { tenantId },
+    create: { tenantId, stripeCustomerId: customer.id },
+    update: { stripeCustomerId: customer.id },
+  })
+
+  return customer.id
+}
+
+/**
+ * Store a Stripe subscription's state on the tenant it belongs to
+ * Pass the subscription as just retrieved from Stripe, not an event's
+ * copy, so events delivered out of order cannot restore an old state.
+ * Events for another subscription than the tenant's current one (e.g.
+ * an old canceled subscription) are ignored.
+ */
+export async function applyStripeSubscription(subscription: Stripe.Subscription): Promise<void> {
+  const customerId = typeof subscription.customer === 'string'
+    ? subscription.customer
+    : subscription.customer.id
+
+  const billing = subscription.metadata.tenantId
+    ? await prisma.billingSubscription.findUnique({ where: { tenantId: subscription.metadata.tenantId } })
+    : await prisma.billingSubscription.findFirst({ where: { stripeCustomerId: customerId } })
+
+  if (!billing) {
+    console.error(`No billing subscription found for Stripe customer ${customerId}`)
+    return
+  }
+
+  // A new subscription only replaces one that no longer runs
+  const isNewSubscription = billing.stripeSubscriptionId && billing.stripeSubscriptionId !== subscription.id
+  if (isNewSubscription && (billing.status === 'active' || billing.status === 'past_due')) {
+    console.warn(`Ignoring Stripe subscription ${subscription.id}; tenant is on ${billing.stripeSubscriptionId}`)
+    return
+  }
+
+  const status = mapStripeStatus(subscription.status)
+  const pastDueSince = status === 'past_due'
+    ? (billing.status === 'past_due' && !isNewSubscription ? billing.pastDueSince : null) ?? new Date()
+    : null
+
+  const periodEnd = subscription.items.data
+    .map(item => item.current_period_end)
+    .reduce((max, value) => Math.max(max, value), 0)
+
+  await prisma.billingSubscription.update({
+    where: { id: billing.id },
+    data: {
+      stripeCustomerId: customerId,
+      stripeSubscriptionId: subscription.id,
+      status,
+      currentPeriodEnd: periodEnd ? new Date(periodEnd * 1000) : null,
+      pastDueSince,
+    },
+  })
+}
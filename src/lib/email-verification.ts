@@ -0,0 +1,57 @@
+/**
+ * Email Verification
+ *
+ * New sign-ups start as `pending` and become `active` once they follow
+ * the verification link mailed to them.
+ */
+
+import { prisma } from '@/lib/prisma'
+import { consumeUserToken, EMAIL_VERIFICATION_TTL_MS, issueUserToken } from '@/lib/user-tokens'
+import { sendMail } from '@/lib/mail/transport'
+import { appUrl, emailVerificationEmail } from '@/lib/mail/templates'
+
+export async function sendVerificationEmail(user: { id: string; email: string }): Promise<void> {
+  const token = await issueUserToken(user.id, 'email_verification', EMAIL_VERIFICATION_TTL_MS)
+
+  await sendMail(emailVerificationEmail({
+    to: user.email,
+    url: appUrl('/api/auth/verify-email', { token }),
+    expiresInHours: EMAIL_VERIFICATION_TTL_MS / 3_600_000,
+  }))
+}
+
+/**
+ * Re-send the verification email for an unverified account
+ * Resolves the same way whether or not the account exists.
+ */
+export async function resendVerificationEmail(email: string): Promise<void> {
+  const user = await prisma.user.findUnique({
+    where: { email: email.trim() },
+    select: { id: true, email: true, status: true, emailVerifiedAt: true, passwordHash: true },
+  })
+
+  // Invited users (no password yet) verify by accepting the invitation
+  if (!user || user.status !== 'pending' || user.emailVerifiedAt || !user.passwordHash) {
+    return
+  }
+
+  await sendVerificationEmail(user)
+}
+
+/**
+ * Verify an email address; returns false for invalid or expired tokens
+ */
+export async function verifyEmail(token: string): Promise<boolean> {
+  const userId = await consumeUserToken(token, 'email_verification')
+  if (!userId) {
+    return false
+  }
+
+  // Only pending users are activated; disabled users stay disabled
+  await prisma.user.updateMany({
+    where: { id: userId, status: 'pending' },
+    data: { status: 'active', emailVerifiedAt: new Date() },
+  })
+
+  return true
+}
@@ -0,0 +1,154 @@
+/**
+ * Encrypted Fields Prisma Extension
+ *
+ * Transparently encrypts `*Secret` columns on write and decrypts them
+ * on read, so application code only ever handles plaintext.
+ *
+ * Note: nested writes (e.g. creating a FortnoxIntegration through
+ * `tenant.create({ data: { fortnoxIntegration: { create } } })`) are not
+ * intercepted. Write secret columns through their own model.
+ */
+
+import { Prisma } from '@/generated/prisma'
+import { encrypt, decrypt, isEncrypted } from '@/lib/encryption'
+
+/**
+ * Encrypted columns per model (Prisma client model names)
+ */
+export const ENCRYPTED_FIELDS = {
+  fortnoxIntegration: ['accessTokenSecret', 'refreshTokenSecret'],
+  shopifyStore: ['accessTokenSecret'],
+  user: ['totpSecret'],
+  platformSettings: [
+    'fortnoxClientIdSecret',
+    'fortnoxClientSecretSecret',
+    'stripeSecretKeySecret',
+    'stripeWebhookSecretSecret',
+  ],
+} as const
+
+type EncryptedModel = keyof typeof ENCRYPTED_FIELDS
+
+const WRITE_OPERATIONS = new Set([
+  'create',
+  'createMany',
+  'createManyAndReturn',
+  'update',
+  'updateMany',
+  'updateManyAndReturn',
+  'upsert',
+])
+
+function decryptValue(value: string | null): string | null {
+  if (value === null || !isEncrypted(value)) {
+    return value
+  }
+  return decrypt(value)
+}
+
+function encryptData(model: EncryptedModel, data: unknown): unknown {
+  if (Array.isArray(data)) {
+    return data.map(item => encryptData(model, item))
+  }
+
+  if (!data || typeof data !== 'object') {
+    return data
+  }
+
+  const result: Record<string, unknown> = { ...(data as Record<string, unknown>) }
+
+  for (const field of ENCRYPTED_FIELDS[model]) {
+    const value = result[field]
+
+    if (typeof value === 'string') {
+      result[field] = encrypt(value)
+    } else if (value && typeof value === 'object' && typeof (value as { set?: unknown }).set === 'string') {
+      result[field] = { set: encrypt((value as { set: string }).set) }
+    }
+  }
+
+  return result
+}
+
+function encryptArgs(model: EncryptedModel, args: Record<string, unknown>): Record<string, unknown> {
+  const result = { ...args }
+
+  if ('data' in result) {
+    result.data = encryptData(model, result.data)
+  }
+  if ('create' in result) {
+    result.create = encryptData(model, result.create)
+  }
+  if ('update' in result) {
+    result.update = encryptData(model, result.update)
+  }
+
+  return result
+}
+
+function writeHandler(model: EncryptedModel) {
+  return ({ operation, args, query }: {
+    operation: string
+    args: unknown
+    query: (args: unknown) => Promise<unknown>
+  }) => {
+    if (WRITE_OPERATIONS.has(operation)) {
+      return query(encryptArgs(model, args as Record<string, unknown>))
+    }
+    return query(args)
+  }
+}
+
+export const encryptedFieldsExtension = Prisma.defineExtension({
+  name: 'encrypted-fields',
+
+  query: {
+    fortnoxIntegration: { $allOperations: writeHandler('fortnoxIntegration') },
+    shopifyStore: { $allOperations: writeHandler('shopifyStore') },
+    user: { $allOperations: writeHandler('user') },
+    platformSettings: { $allOperations: writeHandler('platformSettings') },
+  },
+
+  result: {
+    fortnoxIntegration: {
+      accessTokenSecret: {
+        needs: { accessTokenSecret: true },
+        compute: ({ accessTokenSecret }) => decryptValue(accessTokenSecret),
+      },
+      refreshTokenSecret: {
+        needs: { refreshTokenSecret: true },
+        compute: ({ refreshTokenSecret }) => decryptValue(refreshTokenSecret),
+      },
+    },
+    shopifyStore: {
+      accessTokenSecret: {
+        needs: { accessTokenSecret: true },
+        compute: ({ accessTokenSecret }) => decryptValue(accessTokenSecret),
+      },
+    },
+    user: {
+      totpSecret: {
+        needs: { totpSecret: true },
+        compute: ({ totpSecret }) => decryptValue(totpSecret),
+      },
+    },
+    platformSettings: {
+      fortnoxClientIdSecret: {
+        needs: { fortnoxClientIdSecret: true },
+        compute: ({ fortnoxClientIdSecret }) => decryptValue(fortnoxClientIdSecret),
+      },
+      fortnoxClientSecretSecret: {
+        needs: { fortnoxClientSecretSecret: true },
+        compute: ({ fortnoxClientSecretSecret }) => decryptValue(fortnoxClientSecretSecret),
+      },
+      stripeSecretKeySecret: {
+        needs: { stripeSecretKeySecret: true },
+        compute: ({ stripeSecretKeySecret }) => decryptValue(stripeSecretKeySecret),
+      },
+      stripeWebhookSecretSecret: {
+        needs: { stripeWebhookSecretSecret: true },
+        compute: ({ stripeWebhookSecretSecret }) => decryptValue(stripeWebhookSecretSecret),
+      },
+    },
+  },
+})
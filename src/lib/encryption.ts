@@ -0,0 +1,139 @@
+/**
+ * Encryption Utilities
+ *
+ * Authenticated field-level encryption for secrets stored in the database
+ * (OAuth tokens, API keys). Uses AES-256-GCM keyed from ENCRYPTION_KEY.
+ *
+ * Ciphertexts are versioned and tagged with the id of the key that
+ * produced them:
+ *
+ *   enc:v1:<keyId>:<iv>:<authTag>:<ciphertext>
+ *
+ * Keys listed in ENCRYPTION_KEY_PREVIOUS (comma separated) can still
+ * decrypt, which allows rotating keys without downtime.
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto'
+
+const PREFIX = 'enc'
+const VERSION = 'v1'
+const ALGORITHM = 'aes-256-gcm'
+const IV_LENGTH = 12
+
+interface EncryptionKey {
+  id: string
+  key: Buffer
+}
+
+function deriveKey(secret: string): EncryptionKey {
+  const key = createHash('sha256').update(secret).digest()
+  const id = createHash('sha256').update(key).digest('hex').slice(0, 8)
+  return { id, key }
+}
+
+/**
+ * Current key, used for all new ciphertexts
+ */
+function getCurrentKey(): EncryptionKey {
+  const secret = process.env.ENCRYPTION_KEY
+
+  if (!secret) {
+    throw new Error('ENCRYPTION_KEY is not configured')
+  }
+
+  return deriveKey(secret)
+}
+
+/**
+ * All keys that may decrypt, current key first
+ */
+function getKeyRing(): EncryptionKey[] {
+  const previous = (process.env.ENCRYPTION_KEY_PREVIOUS || '')
+    .split(',')
+    .map(secret => secret.trim())
+    .filter(Boolean)
+    .map(deriveKey)
+
+  return [getCurrentKey(), ...previous]
+}
+
+/**
+ * Check if a value is a ciphertext produced by encrypt()
+ */
+export function isEncrypted(value: string): boolean {
+  return value.startsWith(`${PREFIX}:`)
+}
+
+/**
+ * Get the key id a ciphertext was encrypted with
+ */
+export function getKeyId(value: string): string | null {
+  if (!isEncrypted(value)) {
+    return null
+  }
+  return value.split(':')[2] ?? null
+}
+
+/**
+ * Encrypt a plaintext string with the current key
+ */
+export function encrypt(plaintext: string): string {
+  const { id, key } = getCurrentKey()
+  const iv = randomBytes(IV_LENGTH)
+  const cipher = createCipheriv(ALGORITHM, key, iv)
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()])
+  const authTag = cipher.getAuthTag()
+
+  return [
+    PREFIX,
+    VERSION,
+    id,
+    iv.toString('base64url'),
+    authTag.toString('base64url'),
+    ciphertext.toString('base64url'),
+  ].join(':')
+}
+
+/**
+ * Decrypt a value produced by encrypt()
+ */
+export function decrypt(value: string): string {
+  const [prefix, version, keyId, iv, authTag, ciphertext] = value.split(':')
+
+  if (prefix !== PREFIX || !iv || !authTag || ciphertext === undefined) {
+    throw new Error('Malformed encrypted value')
+  }
+
+  if (version !== VERSION) {
+    throw new Error(`Unsupported encryption version: ${version}`)
+  }
+
+  const entry = getKeyRing().find(k => k.id === keyId)
+  if (!entry) {
+    throw new Error(`No encryption key available for key id ${keyId}`)
+  }
+
+  const decipher = createDecipheriv(ALGORITHM, entry.key, Buffer.from(iv, 'base64url'))
+  decipher.setAuthTag(Buffer.from(authTag, 'base64url'))
+
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, 'base64url')),
+    decipher.final(),
+  ]).toString('utf8')
+}
+
+/**
+ * Check if a stored value should be re-encrypted with the current key
+ * (plaintext, or encrypted with a previous key)
+ */
+export function needsReencryption(value: string): boolean {
+  return getKeyId(value) !== getCurrentKey().id
+}
+
+/**
+ * Re-encrypt a stored value with the current key
+ * Plaintext values (from before encryption was enabled) are encrypted as-is.
+ */
+export function reencrypt(value: string): string {
+  return encrypt(isEncrypted(value) ? decrypt(value) : value)
+}
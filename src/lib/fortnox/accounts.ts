@@ -0,0 +1,14 @@
+/**
+ * Fortnox Accounts
+ *
+ * Helpers for account numbers from the BAS chart of accounts
+ */
+
+const ACCOUNT_NUMBER_REGEX = /^[1-9]\d{3}$/
+
+/**
+ * Check if a value is a four-digit account number
+ */
+export function isAccountNumber(value: unknown): value is number {
+  return typeof value === 'number' && ACCOUNT_NUMBER_REGEX.test(String(value))
+}
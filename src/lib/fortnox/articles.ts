@@ -0,0 +1,57 @@
+/**
+ * Fortnox Articles
+ *
+ * Article register lookups, creation and updates
+ */
+
+import { FortnoxApiError, type FortnoxClient } from '@/lib/fortnox/client'
+import type { FortnoxArticle } from '@/lib/fortnox/types'
+
+/**
+ * Get an article by number, or null if it does not exist
+ */
+export async function getArticle(client: FortnoxClient, articleNumber: string): Promise<FortnoxArticle | null> {
+  try {
+    const result = await client.get<{ Article: FortnoxArticle }>(
+      `/articles/${encodeURIComponent(articleNumber)}`
+    )
+    return result.Article
+  } catch (error) {
+    if (error instanceof FortnoxApiError && error.status === 404) {
+      return null
+    }
+    throw error
+  }
+}
+
+/**
+ * Create an article
+ */
+export async function createArticle(client: FortnoxClient, article: FortnoxArticle): Promise<FortnoxArticle> {
+  const result = await client.post<{ Article: FortnoxArticle }>('/articles', { Article: article })
+  return result.Article
+}
+
+/**
+ * Update an article
+ */
+export async function updateArticle(
+  client: FortnoxClient,
+  articleNumber: string,
+  changes: Partial<FortnoxArticle>
+): Promise<FortnoxArticle> {
+  const result = await client.put<{ Article: FortnoxArticle }>(
+    `/articles/${encodeURIComponent(articleNumber)}`,
+    { Article: changes },
+    { idempotent: true }
+  )
+  return result.Article
+}
+
+/**
+ * Delete an article
+ * Fortnox refuses to delete articles that are used on documents.
+ */
+export async function deleteArticle(client: FortnoxClient, articleNumber: string): Promise<void> {
+  await client.delete(`/articles/${encodeURIComponent(articleNumber)}`)
+}
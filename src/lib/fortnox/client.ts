@@ -0,0 +1,133 @@
+/**
+ * Fortnox API Client
+ *
+ * Client for the Fortnox API v3, authenticated with the tenant's OAuth
+ * access token. Requests are throttled per tenant to Fortnox's limit of
+ * 25 requests per 5 seconds and retried on 429/5xx (see api-limits.ts).
+ * A 401 refreshes the access token once and retries.
+ *
+ * The API can be pointed at a local mock via FORTNOX_API_URL.
+ */
+
+import { getFortnoxAccessToken, refreshFortnoxToken } from '@/lib/fortnox/oauth'
+import type { FortnoxMetaInformation } from '@/lib/fortnox/types'
+import { getTokenBucket, RateLimitTracker, sendWithRetry } from '@/lib/api-limits'
+
+const FORTNOX_API_URL = process.env.FORTNOX_API_URL || 'https://api.fortnox.se/3'
+
+const FORTNOX_RATE_LIMIT = { capacity: 25, refillPerSecond: 5 }
+
+// Largest page Fortnox list endpoints return
+const FORTNOX_PAGE_SIZE = 500
+
+export class FortnoxApiError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public code?: number
+  ) {
+    super(message)
+    this.name = 'FortnoxApiError'
+  }
+}
+
+interface FortnoxErrorBody {
+  ErrorInformation?: {
+    message?: string
+    Message?: string
+    code?: number
+    Code?: number
+  }
+}
+
+export interface FortnoxClientOptions {
+  // Collects request counts and retries for the sync job
+  tracker?: RateLimitTracker
+}
+
+export interface FortnoxRequestOptions {
+  // Safe to repeat after a 5xx or network error. Only GETs are by default:
+  // action endpoints such as /invoices/{n}/credit must never run twice.
+  idempotent?: boolean
+}
+
+export function createFortnoxClient(tenantId: string, options: FortnoxClientOptions = {}) {
+  const bucket = getTokenBucket(`fortnox:${tenantId}`, FORTNOX_RATE_LIMIT)
+
+  function send(method: string, path: string, accessToken: string, body: unknown, idempotent: boolean) {
+    return sendWithRetry(
+      () => fetch(`${FORTNOX_API_URL}${path}`, {
+        method,
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+          'Content-Type': 'application/json',
+          Accept: 'application/json',
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      }),
+      { bucket, api: 'fortnox', idempotent, tracker: options.tracker }
+    )
+  }
+
+  async function request<T>(
+    method: string,
+    path: string,
+    body?: unknown,
+    requestOptions: FortnoxRequestOptions = {}
+  ): Promise<T> {
+    const idempotent = requestOptions.idempotent ?? method === 'GET'
+    let response = await send(method, path, await getFortnoxAccessToken(tenantId), body, idempotent)
+
+    // The token was revoked or expired early
+    if (response.status === 401) {
+      response = await send(method, path, await refreshFortnoxToken(tenantId), body, idempotent)
+    }
+
+    if (!response.ok) {
+      const errorBody: FortnoxErrorBody = await response.json().catch(() => ({}))
+      const info = errorBody.ErrorInformation
+      throw new FortnoxApiError(
+        info?.message || info?.Message || `Fortnox request failed (${response.status}): ${method} ${path}`,
+        response.status,
+        info?.code ?? info?.Code
+      )
+    }
+
+    if (response.status === 204) {
+      return undefined as T
+    }
+
+    return response.json()
+  }
+
+  return {
+    get: <T>(path: string) => request<T>('GET', path),
+    post: <T>(path: string, body: unknown) => request<T>('POST', path, body),
+    put: <T>(path: string, body?: unknown, requestOptions?: FortnoxRequestOptions) =>
+      request<T>('PUT', path, body, requestOptions),
+    delete: (path: string, requestOptions?: FortnoxRequestOptions) =>
+      request<void>('DELETE', path, undefined, requestOptions),
+
+    /**
+     * GET every page of a list resource, following MetaInformation
+     * `key` is the property holding the list (e.g. "Invoices")
+     */
+    async getAll<T>(path: string, key: string): Promise<T[]> {
+      const items: T[] = []
+      const separator = path.includes('?') ? '&' : '?'
+
+      for (let page = 1, totalPages = 1; page <= totalPages; page++) {
+        const result = await request<Record<string, unknown> & { MetaInformation?: FortnoxMetaInformation }>(
+          'GET',
+          `${path}${separator}limit=${FORTNOX_PAGE_SIZE}&page=${page}`
+        )
+        items.push(...((result[key] as T[] | undefined) ?? []))
+        totalPages = result.MetaInformation?.['@TotalPages'] ?? 1
+      }
+
+      return items
+    },
+  }
+}
+
+export type FortnoxClient = ReturnType<typeof createFortnoxClient>
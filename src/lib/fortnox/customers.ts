@@ -0,0 +1,96 @@
+/**
+ * Fortnox Customers
+ *
+ * Customer lookups and creation
+ */
+
+import type { FortnoxClient } from '@/lib/fortnox/client'
+import type { FortnoxCustomer } from '@/lib/fortnox/types'
+
+/**
+ * Find a customer by exact name
+ */
+export async function findCustomerByName(
+  client: FortnoxClient,
+  name: string
+): Promise<FortnoxCustomer | null> {
+  const result = await client.get<{ Customers: FortnoxCustomer[] }>(
+    `/customers?name=${encodeURIComponent(name)}`
+  )
+
+  return result.Customers.find(customer => customer.Name === name) ?? null
+}
+
+/**
+ * Find a customer by email address (case-insensitive)
+ */
+export async function findCustomerByEmail(
+  client: FortnoxClient,
+  email: string
+): Promise<FortnoxCustomer | null> {
+  const result = await client.get<{ Customers: FortnoxCustomer[] }>(
+    `/customers?email=${encodeURIComponent(email)}`
+  )
+
+  return result.Customers.find(customer => customer.Email?.toLowerCase() === email.toLowerCase()) ?? null
+}
+
+/**
+ * Find a customer by organisation number (digits compared)
+ */
+export async function findCustomerByOrganisationNumber(
+  client: FortnoxClient,
+  organisationNumber: string
+): Promise<FortnoxCustomer | null> {
+  const digits = (value?: string) => value?.replace(/\D/g, '')
+
+  const result = await client.get<{ Customers: FortnoxCustomer[] }>(
+    `/customers?organisationnumber=${encodeURIComponent(organisationNumber)}`
+  )
+
+  return result.Customers
+    .find(customer => digits(customer.OrganisationNumber) === digits(organisationNumber)) ?? null
+}
+
+/**
+ * Create a customer
+ */
+export async function createCustomer(client: FortnoxClient, customer: FortnoxCustomer): Promise<FortnoxCustomer> {
+  const result = await client.post<{ Customer: FortnoxCustomer }>('/customers', { Customer: customer })
+  return result.Customer
+}
+
+/**
+ * Update a customer
+ */
+export async function updateCustomer(
+  client: FortnoxClient,
+  customerNumber: string,
+  customer: Partial<FortnoxCustomer>
+): Promise<FortnoxCustomer> {
+  const result = await client.put<{ Customer: FortnoxCustomer }>(
+    `/customers/${encodeURIComponent(customerNumber)}`,
+    { Customer: customer },
+    { idempotent: true }
+  )
+  return result.Customer
+}
+
+/**
+ * Find a customer by name, creating it if it does not exist
+ */
+export async function findOrCreateCustomerByName(client: FortnoxClient, name: string): Promise<string> {
+  const existing = await findCustomerByName(client, name)
+
+  if (existing?.CustomerNumber) {
+    return existing.CustomerNumber
+  }
+
+  const created = await createCustomer(client, { Name: name, Type: 'PRIVATE' })
+
+  if (!created.CustomerNumber) {
+    throw new Error(`Fortnox did not return a customer number for "${name}"`)
+  }
+
+  return created.CustomerNumber
+}
@@ -0,0 +1,127 @@
+/**
+ * Fortnox Invoices
+ *
+ * Invoice lookups and creation. Every invoice created by the sync engine
+ * carries the Shopify order reference in ExternalInvoiceReference1, which
+ * is what makes invoicing idempotent.
+ */
+
+import type { FortnoxClient } from '@/lib/fortnox/client'
+import type { FortnoxInvoice, FortnoxInvoiceListItem } from '@/lib/fortnox/types'
+
+/**
+ * External reference stored on invoices created for a Shopify order
+ */
+export function shopifyOrderReference(shopifyOrderId: string): string {
+  return `shopify-${shopifyOrderId}`
+}
+
+/**
+ * External reference stored on credit invoices created for a Shopify refund
+ */
+export function shopifyRefundReference(shopifyRefundId: string): string {
+  return `shopify-refund-${shopifyRefundId}`
+}
+
+/**
+ * Find a non-cancelled invoice by its external reference
+ */
+export async function findInvoiceByReference(
+  client: FortnoxClient,
+  reference: string
+): Promise<FortnoxInvoiceListItem | null> {
+  const result = await client.get<{ Invoices: FortnoxInvoiceListItem[] }>(
+    `/invoices?externalinvoicereference1=${encodeURIComponent(reference)}`
+  )
+
+  return result.Invoices.find(
+    invoice => invoice.ExternalInvoiceReference1 === reference && !invoice.Cancelled
+  ) ?? null
+}
+
+/**
+ * Find the invoice an order is billed on by the order's external reference
+ * Unlike findInvoiceByReference this skips invoices credited in full (e.g.
+ * by a rollback) and their credit invoices, so an order whose invoice was
+ * credited is invoiced again instead of being matched to the credited one.
+ * A credit that was itself cancelled does not count.
+ */
+export async function findUncreditedInvoiceByReference(
+  client: FortnoxClient,
+  reference: string
+): Promise<FortnoxInvoiceListItem | null> {
+  const result = await client.get<{ Invoices: FortnoxInvoiceListItem[] }>(
+    `/invoices?externalinvoicereference1=${encodeURIComponent(reference)}`
+  )
+
+  const candidates = result.Invoices.filter(
+    invoice => invoice.ExternalInvoiceReference1 === reference && !invoice.Cancelled && invoice.Total >= 0
+  )
+
+  for (const candidate of candidates) {
+    // Fortnox only credits booked invoices
+    if (!candidate.Booked) {
+      return candidate
+    }
+
+    const invoice = await getInvoice(client, candidate.DocumentNumber)
+    if (!invoice.CreditInvoiceReference) {
+      return candidate
+    }
+
+    // Partial credits (refunds) leave the invoice in place
+    const credit = await getInvoice(client, invoice.CreditInvoiceReference)
+    if (credit.Cancelled || credit.Total !== -candidate.Total) {
+      return candidate
+    }
+  }
+
+  return null
+}
+
+/**
+ * Create an invoice
+ */
+export async function createInvoice(client: FortnoxClient, invoice: FortnoxInvoice): Promise<FortnoxInvoice> {
+  const result = await client.post<{ Invoice: FortnoxInvoice }>('/invoices', { Invoice: invoice })
+  return result.Invoice
+}
+
+/**
+ * Get an invoice by document number
+ */
+export async function getInvoice(client: FortnoxClient, documentNumber: string): Promise<FortnoxInvoice> {
+  const result = await client.get<{ Invoice: FortnoxInvoice }>(`/invoices/${encodeURIComponent(documentNumber)}`)
+  return result.Invoice
+}
+
+/**
+ * Cancel an unbooked invoice
+ */
+export async function cancelInvoice(client: FortnoxClient, documentNumber: string): Promise<FortnoxInvoice> {
+  const result = await client.put<{ Invoice: FortnoxInvoice }>(
+    `/invoices/${encodeURIComponent(documentNumber)}/cancel`
+  )
+  return result.Invoice
+}
+
+/**
+ * Create a credit invoice for a booked invoice
+ * Returns the original invoice, whose CreditInvoiceReference points at the credit.
+ */
+export async function creditInvoice(client: FortnoxClient, documentNumber: string): Promise<FortnoxInvoice> {
+  const result = await client.put<{ Invoice: FortnoxInvoice }>(
+    `/invoices/${encodeURIComponent(documentNumber)}/credit`
+  )
+  return result.Invoice
+}
+
+/**
+ * Bookkeep an invoice (required before payments can be registered)
+ */
+export async function bookkeepInvoice(client: FortnoxClient, documentNumber: string): Promise<FortnoxInvoice> {
+  const result = await client.put<{ Invoice: FortnoxInvoice }>(
+    `/invoices/${encodeURIComponent(documentNumber)}/bookkeep`
+  )
+  return result.Invoice
+}
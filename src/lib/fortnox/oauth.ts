@@ -0,0 +1,254 @@
+/**
+ * Fortnox OAuth
+ *
+ * Authorization code flow against Fortnox, token storage and refresh.
+ * Tokens are stored on the tenant's FortnoxIntegration row and encrypted
+ * at rest by the Prisma client.
+ *
+ * The auth server can be pointed at a local mock via FORTNOX_AUTH_URL.
+ */
+
+import { prisma } from '@/lib/prisma'
+import { getFortnoxOAuthConfig, FortnoxOAuthConfig } from '@/lib/platform-settings'
+
+const FORTNOX_AUTH_URL = process.env.FORTNOX_AUTH_URL || 'https://apps.fortnox.se/oauth-v1'
+
+// Scopes required by the sync engine
+export const FORTNOX_SCOPES = [
+  'companyinformation',
+  'customer',
+  'article',
+  'invoice',
+  'payment',
+  'bookkeeping',
+  'settings',
+]
+
+// Cookie holding the OAuth state during the redirect
+export const FORTNOX_STATE_COOKIE = 'fortnox_oauth_state'
+
+// Refresh tokens this long before they actually expire
+const REFRESH_MARGIN_MS = 5 * 60 * 1000
+
+// Covers waiting for another refresh of the tenant plus the token request
+const REFRESH_LOCK_TIMEOUT_MS = 30_000
+
+// Token requests give up well within REFRESH_LOCK_TIMEOUT_MS
+const TOKEN_REQUEST_TIMEOUT_MS = 10_000
+
+interface FortnoxTokenResponse {
+  access_token: string
+  refresh_token: string
+  expires_in: number
+  token_type: string
+  scope?: string
+}
+
+export class FortnoxAuthError extends Error {
+  // `rejected`: Fortnox refused the grant itself, so retrying cannot help
+  constructor(message: string, public rejected = false) {
+    super(message)
+    this.name = 'FortnoxAuthError'
+  }
+}
+
+/**
+ * Build the Fortnox authorization URL the user is redirected to
+ */
+export function buildAuthorizationUrl(config: FortnoxOAuthConfig, state: string): string {
+  const url = new URL(`${FORTNOX_AUTH_URL}/auth`)
+  url.searchParams.set('client_id', config.clientId)
+  url.searchParams.set('redirect_uri', config.redirectUrl)
+  url.searchParams.set('scope', FORTNOX_SCOPES.join(' '))
+  url.searchParams.set('state', state)
+  url.searchParams.set('access_type', 'offline')
+  url.searchParams.set('response_type', 'code')
+  return url.toString()
+}
+
+/**
+ * Whether a failed token response means the grant is no longer valid
+ * (revoked or already used), as opposed to Fortnox being unavailable
+ */
+export function isRejectedGrant(status: number, body: string): boolean {
+  if (status === 401) {
+    return true
+  }
+
+  try {
+    return status === 400 && JSON.parse(body)?.error === 'invalid_grant'
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Call the token endpoint
+ * A request that times out is a FortnoxAuthError that does not reject
+ * the grant, so the integration stays connected.
+ */
+async function requestToken(
+  config: FortnoxOAuthConfig,
+  params: Record<string, string>
+): Promise<FortnoxTokenResponse> {
+  const credentials = Buffer.from(`${config.clientId}:${config.clientSecret}`).toString('base64')
+
+  try {
+    const response = await fetch(`${FORTNOX_AUTH_URL}/token`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        Authorization: `Basic ${credentials}`,
+      },
+      body: new URLSearchParams(params),
+      signal: AbortSignal.timeout(TOKEN_REQUEST_TIMEOUT_MS),
+    })
+
+    if (!response.ok) {
+      const body = await response.text()
+      throw new FortnoxAuthError(
+        `Fortnox token request failed (${response.status}): ${body}`,
+        isRejectedGrant(response.status, body)
+      )
+    }
+
+    return await response.json()
+  } catch (error) {
+    if (error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError')) {
+      throw new FortnoxAuthError(`Fortnox token request timed out after ${TOKEN_REQUEST_TIMEOUT_MS} ms`)
+    }
+    throw error
+  }
+}
+
+/**
+ * Exchange an authorization code for tokens and store them on the tenant
+ */
+export async function connectFortnox(tenantId: string, code: string): Promise<void> {
+  const config = await getFortnoxOAuthConfig()
+
+  const tokens = await requestToken(config, {
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: config.redirectUrl,
+  })
+
+  const data = {
+    status: 'connected' as const,
+    accessTokenSecret: tokens.access_token,
+    refreshTokenSecret: tokens.refresh_token,
+    expiresAt: new Date(Date.now() + tokens.expires_in * 1000),
+    connectedAt: new Date(),
+  }
+
+  await prisma.$transaction([
+    prisma.fortnoxIntegration.upsert({
+      where: { tenantId },
+      create: { tenantId, ...data },
+      update: data,
+    }),
+    prisma.tenantOnboarding.upsert({
+      where: { tenantId },
+      create: { tenantId, fortnoxConnected: true },
+      update: { fortnoxConnected: true },
+    }),
+  ])
+}
+
+/**
+ * Run fn holding the tenant's refresh lock (a transaction-scoped
+ * advisory lock), so only one request at a time uses the refresh token
+ */
+async function withRefreshLock<T>(tenantId: string, fn: () => Promise<T>): Promise<T> {
+  return prisma.$transaction(async tx => {
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`fortnox-refresh:${tenantId}`}))`
+    return fn()
+  }, { timeout: REFRESH_LOCK_TIMEOUT_MS })
+}
+
+/**
+ * Refresh the tenant's tokens
+ * Fortnox refresh tokens are single use, so refreshes are serialized per
+ * tenant; a request that waited for another refresh uses its result.
+ * Marks the integration as expired only if Fortnox rejects the grant,
+ * not when the token endpoint is unavailable.
+ */
+export async function refreshFortnoxToken(tenantId: string): Promise<string> {
+  const seen = await prisma.fortnoxIntegration.findUnique({
+    where: { tenantId },
+    select: { refreshTokenSecret: true },
+  })
+
+  return withRefreshLock(tenantId, async () => {
+    const integration = await prisma.fortnoxIntegration.findUnique({
+      where: { tenantId },
+    })
+
+    if (!integration?.refreshTokenSecret || integration.status !== 'connected') {
+      throw new FortnoxAuthError('Fortnox is not connected')
+    }
+
+    // Refreshed by another request while this one waited
+    if (integration.refreshTokenSecret !== seen?.refreshTokenSecret && integration.accessTokenSecret) {
+      return integration.accessTokenSecret
+    }
+
+    const config = await getFortnoxOAuthConfig()
+
+    let tokens: FortnoxTokenResponse
+    try {
+      tokens = await requestToken(config, {
+        grant_type: 'refresh_token',
+        refresh_token: integration.refreshTokenSecret,
+      })
+    } catch (error) {
+      if (error instanceof FortnoxAuthError && error.rejected) {
+        await prisma.$transaction([
+          prisma.fortnoxIntegration.update({
+            where: { tenantId },
+            data: { status: 'expired' },
+          }),
+          prisma.tenantOnboarding.updateMany({
+            where: { tenantId },
+            data: { fortnoxConnected: false },
+          }),
+        ])
+      }
+      throw error
+    }
+
+    await prisma.fortnoxIntegration.update({
+      where: { tenantId },
+      data: {
+        accessTokenSecret: tokens.access_token,
+        refreshTokenSecret: tokens.refresh_token,
+        expiresAt: new Date(Date.now() + tokens.expires_in * 1000),
+      },
+    })
+
+    return tokens.access_token
+  })
+}
+
+/**
+ * Get a valid access token for the tenant, refreshing it if it is
+ * about to expire
+ */
+export async function getFortnoxAccessToken(tenantId: string): Promise<string> {
+  const integration = await prisma.fortnoxIntegration.findUnique({
+    where: { tenantId },
+  })
+
+  if (!integration?.accessTokenSecret || integration.status !== 'connected') {
+    throw new FortnoxAuthError(
+      integration?.status === 'expired' ? 'Fortnox connection has expired' : 'Fortnox is not connected'
+    )
+  }
+
+  const expiresAt = integration.expiresAt?.getTime() ?? 0
+  if (expiresAt - REFRESH_MARGIN_MS <= Date.now()) {
+    return refreshFortnoxToken(tenantId)
+  }
+
+  return integration.accessTokenSecret
+}
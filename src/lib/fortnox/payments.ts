@@ -0,0 +1,50 @@
+/**
+ * Fortnox Invoice Payments
+ *
+ * Registering, reading and removing customer payments on invoices
+ */
+
+import type { FortnoxClient } from '@/lib/fortnox/client'
+import type { FortnoxInvoicePayment } from '@/lib/fortnox/types'
+
+/**
+ * Register a payment on an invoice
+ */
+export async function createInvoicePayment(
+  client: FortnoxClient,
+  payment: FortnoxInvoicePayment
+): Promise<FortnoxInvoicePayment> {
+  const result = await client.post<{ InvoicePayment: FortnoxInvoicePayment }>(
+    '/invoicepayments',
+    { InvoicePayment: payment }
+  )
+  return result.InvoicePayment
+}
+
+/**
+ * List the payments registered on an invoice
+ */
+export async function listInvoicePayments(
+  client: FortnoxClient,
+  invoiceNumber: number
+): Promise<FortnoxInvoicePayment[]> {
+  const result = await client.get<{ InvoicePayments: FortnoxInvoicePayment[] }>(
+    `/invoicepayments?invoicenumber=${invoiceNumber}`
+  )
+  return result.InvoicePayments
+}
+
+/**
+ * Get a payment by number
+ */
+export async function getInvoicePayment(client: FortnoxClient, number: number): Promise<FortnoxInvoicePayment> {
+  const result = await client.get<{ InvoicePayment: FortnoxInvoicePayment }>(`/invoicepayments/${number}`)
+  return result.InvoicePayment
+}
+
+/**
+ * Delete an unbooked payment
+ */
+export async function deleteInvoicePayment(client: FortnoxClient, number: number): Promise<void> {
+  await client.delete(`/invoicepayments/${number}`)
+}
@@ -0,0 +1,96 @@
+/**
+ * Fortnox API Types
+ *
+ * Subset of the Fortnox API v3 resources used by the sync engine.
+ * Fortnox uses PascalCase property names.
+ */
+
+export interface FortnoxInvoiceRow {
+  ArticleNumber?: string
+  Description?: string
+  DeliveredQuantity?: number
+  Price?: number
+  VAT?: number
+  AccountNumber?: number
+  Discount?: number
+  DiscountType?: 'AMOUNT' | 'PERCENT'
+}
+
+// How VAT is reported for an invoice
+export type FortnoxVatType = 'SEVAT' | 'SEREVERSEDVAT' | 'EUREVERSEDVAT' | 'EUVAT' | 'EXPORT'
+
+export interface FortnoxInvoice {
+  DocumentNumber?: string
+  CustomerNumber: string
+  CustomerName?: string
+  InvoiceDate?: string
+  Currency?: string
+  CurrencyRate?: number
+  CurrencyUnit?: number
+  VATIncluded?: boolean
+  VATType?: FortnoxVatType
+  YourOrderNumber?: string
+  ExternalInvoiceReference1?: string
+  ExternalInvoiceReference2?: string
+  TermsOfPayment?: string
+  WayOfDelivery?: string
+  Remarks?: string
+  InvoiceRows: FortnoxInvoiceRow[]
+  Cancelled?: boolean
+  Booked?: boolean
+  Total?: number
+  Balance?: number
+  CreditInvoiceReference?: string
+}
+
+export interface FortnoxInvoiceListItem {
+  DocumentNumber: string
+  CustomerNumber: string
+  ExternalInvoiceReference1?: string
+  Cancelled: boolean
+  Booked: boolean
+  Total: number
+  Balance?: number
+}
+
+export interface FortnoxInvoicePayment {
+  Number?: number
+  InvoiceNumber: number
+  // Amount in SEK; AmountCurrency in the invoice currency
+  Amount: number
+  AmountCurrency?: number
+  PaymentDate: string
+  ModeOfPayment?: string
+  ModeOfPaymentAccount?: number
+  Booked?: boolean
+}
+
+export interface FortnoxCustomer {
+  CustomerNumber?: string
+  Name: string
+  Email?: string
+  OrganisationNumber?: string
+  Type?: 'PRIVATE' | 'COMPANY'
+  Address1?: string
+  Address2?: string
+  ZipCode?: string
+  City?: string
+  CountryCode?: string
+  Phone1?: string
+}
+
+export interface FortnoxArticle {
+  ArticleNumber: string
+  Description: string
+  EAN?: string
+  Type?: 'STOCK' | 'SERVICE'
+  StockGoods?: boolean
+  Active?: boolean
+  SalesPrice?: number
+}
+
+export interface FortnoxMetaInformation {
+  '@TotalResources': number
+  '@TotalPages': number
+  '@CurrentPage': number
+}
@@ -0,0 +1,150 @@
+/**
+ * Impersonation
+ *
+ * Lets platform admins act as a tenant user to see exactly what the
+ * customer sees. Impersonation is started and stopped explicitly through
+ * a session update (see the jwt callback in auth.ts), is limited in time,
+ * and every request made while it is active is written to the audit log
+ * with both identities.
+ */
+
+import type { JWT } from 'next-auth/jwt'
+import { prisma } from '@/lib/prisma'
+import { hasPermission, Permission } from '@/lib/rbac'
+
+// Impersonation ends automatically after this long
+export const IMPERSONATION_MAX_AGE_MS = 60 * 60 * 1000
+
+export class ImpersonationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ImpersonationError'
+  }
+}
+
+/**
+ * Session update payloads understood by the jwt callback
+ */
+export interface ImpersonationUpdate {
+  impersonateUserId?: string
+  stopImpersonation?: boolean
+}
+
+/**
+ * Check if an impersonation on the token has run past its max age
+ */
+export function isImpersonationExpired(token: JWT, now = Date.now()): boolean {
+  return !!token.impersonatorId && (token.impersonationStartedAt ?? 0) + IMPERSONATION_MAX_AGE_MS < now
+}
+
+/**
+ * Switch the token to the target user
+ */
+export async function startImpersonation(token: JWT, targetUserId: string): Promise<JWT> {
+  if (token.impersonatorId) {
+    throw new ImpersonationError('Already impersonating a user')
+  }
+
+  if (!hasPermission(token.role, Permission.IMPERSONATE_USERS)) {
+    throw new ImpersonationError('Insufficient permissions')
+  }
+
+  const target = await prisma.user.findUnique({
+    where: { id: targetUserId },
+    select: { id: true, email: true, name: true, role: true, tenantId: true, status: true },
+  })
+
+  if (!target || target.role === 'platform_admin' || target.status !== 'active') {
+    throw new ImpersonationError('User cannot be impersonated')
+  }
+
+  await prisma.auditLog.create({
+    data: {
+      tenantId: target.tenantId,
+      userId: token.id,
+      entityType: 'user',
+      entityId: target.id,
+      action: 'impersonation_started',
+      changesJson: { impersonatorId: token.id, userId: target.id },
+      source: 'admin',
+    },
+  })
+
+  return {
+    ...token,
+    id: target.id,
+    email: target.email,
+    name: target.name,
+    role: target.role,
+    tenantId: target.tenantId,
+    impersonatorId: token.id,
+    impersonationStartedAt: Date.now(),
+  }
+}
+
+/**
+ * Switch the token back to the impersonating admin
+ */
+export async function stopImpersonation(token: JWT, reason: 'stopped' | 'expired' = 'stopped'): Promise<JWT> {
+  if (!token.impersonatorId) {
+    return token
+  }
+
+  const admin = await prisma.user.findUniqueOrThrow({
+    where: { id: token.impersonatorId },
+    select: { id: true, email: true, name: true, role: true, tenantId: true },
+  })
+
+  await prisma.auditLog.create({
+    data: {
+      tenantId: token.tenantId,
+      userId: admin.id,
+      entityType: 'user',
+      entityId: token.id,
+      action: `impersonation_${reason}`,
+      changesJson: { impersonatorId: admin.id, userId: token.id },
+      source: 'admin',
+    },
+  })
+
+  return {
+    ...token,
+    id: admin.id,
+    email: admin.email,
+    name: admin.name,
+    role: admin.role,
+    tenantId: admin.tenantId,
+    impersonatorId: null,
+    impersonationStartedAt: null,
+  }
+}
+
+/**
+ * Record a request made while impersonating
+ */
+export async function recordImpersonatedRequest(entry: {
+  impersonatorId: string
+  userId: string
+  tenantId: string | null
+  method: string
+  path: string
+  ipAddress: string | null
+}): Promise<void> {
+  await prisma.auditLog.create({
+    data: {
+      tenantId: entry.tenantId,
+      userId: entry.userId,
+      entityType: 'request',
+      entityId: entry.path,
+      action: 'impersonated_request',
+      changesJson: {
+        impersonatorId: entry.impersonatorId,
+        userId: entry.userId,
+        method: entry.method,
+        path: entry.path,
+      },
+      source: 'admin',
+      ipAddress: entry.ipAddress,
+    },
+  })
+}
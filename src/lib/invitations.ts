@@ -0,0 +1,198 @@
+/**
+ * User Invitations
+ *
+ * Tenant owners invite colleagues by email. An invitation creates a
+ * `pending` user in the owner's tenant and mails a signed, expiring
+ * link. Accepting sets the password and activates the user, which also
+ * makes the link unusable. Re-sending bumps the user's sessionVersion,
+ * invalidating earlier links.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto'
+import { prisma } from '@/lib/prisma'
+import { UserRole } from '@/generated/prisma'
+import { hashPassword, validatePasswordStrength } from '@/lib/password'
+import { sendMail } from '@/lib/mail/transport'
+import { appUrl, invitationEmail } from '@/lib/mail/templates'
+import { REVOKE_SESSIONS } from '@/lib/session-version'
+
+export const INVITATION_TTL_DAYS = 7
+
+// Roles an owner can hand out; ownership moves only by transfer
+export const ASSIGNABLE_ROLES = ['tenant_admin', 'tenant_viewer'] as const satisfies readonly UserRole[]
+
+export type AssignableRole = (typeof ASSIGNABLE_ROLES)[number]
+
+export class InvitationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'InvitationError'
+  }
+}
+
+interface InvitationPayload {
+  sub: string // user id
+  v: number // sessionVersion when issued
+  exp: number // expiry, ms since epoch
+}
+
+function getSigningSecret(): string {
+  const secret = process.env.NEXTAUTH_SECRET
+  if (!secret) {
+    throw new Error('NEXTAUTH_SECRET is not configured')
+  }
+  return secret
+}
+
+function sign(data: string): string {
+  return createHmac('sha256', getSigningSecret()).update(`invitation:${data}`).digest('base64url')
+}
+
+export function createInvitationToken(userId: string, sessionVersion: number, now = Date.now()): string {
+  const payload: InvitationPayload = {
+    sub: userId,
+    v: sessionVersion,
+    exp: now + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000,
+  }
+  const data = Buffer.from(JSON.stringify(payload)).toString('base64url')
+
+  return `${data}.${sign(data)}`
+}
+
+/**
+ * Verify signature and expiry; returns the payload or null
+ */
+export function verifyInvitationToken(token: string, now = Date.now()): InvitationPayload | null {
+  const [data, signature] = token.split('.')
+  if (!data || !signature) {
+    return null
+  }
+
+  const expected = Buffer.from(sign(data))
+  const actual = Buffer.from(signature)
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null
+  }
+
+  try {
+    const payload = JSON.parse(Buffer.from(data, 'base64url').toString()) as InvitationPayload
+    return typeof payload.sub === 'string' && payload.exp > now ? payload : null
+  } catch {
+    return null
+  }
+}
+
+export function isAssignableRole(role: unknown): role is AssignableRole {
+  return ASSIGNABLE_ROLES.includes(role as AssignableRole)
+}
+
+/**
+ * Invite a user to the tenant, or re-send a pending invitation
+ */
+export async function inviteUser(
+  tenantId: string,
+  inviterId: string,
+  input: { email: string; name: string; role: AssignableRole }
+) {
+  const email = input.email.trim()
+  const existing = await prisma.user.findUnique({ where: { email } })
+
+  if (existing && (existing.tenantId !== tenantId || existing.status !== 'pending' || !isAssignableRole(existing.role))) {
+    throw new InvitationError('A user with this email already exists')
+  }
+
+  const user = existing
+    ? await prisma.user.update({
+        where: { id: existing.id },
+        data: { name: input.name, role: input.role, ...REVOKE_SESSIONS },
+      })
+    : await prisma.user.create({
+        data: {
+          tenantId,
+          email,
+          name: input.name,
+          role: input.role,
+          status: 'pending',
+          // No usable password until the invitation is accepted
+          passwordHash: '',
+        },
+      })
+
+  const [inviter, tenant] = await Promise.all([
+    prisma.user.findUnique({ where: { id: inviterId }, select: { name: true } }),
+    prisma.tenant.findUniqueOrThrow({ where: { id: tenantId }, select: { companyName: true } }),
+  ])
+
+  const token = createInvitationToken(user.id, user.sessionVersion)
+
+  await sendMail(invitationEmail({
+    to: user.email,
+    inviterName: inviter?.name ?? 'A colleague',
+    companyName: tenant.companyName,
+    url: appUrl('/auth/invite', { token }),
+    expiresInDays: INVITATION_TTL_DAYS,
+  }))
+
+  return user
+}
+
+/**
+ * Look up the pending user an invitation token belongs to
+ */
+export async function getInvitation(token: string) {
+  const payload = verifyInvitationToken(token)
+  if (!payload) {
+    return null
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: payload.sub },
+    select: {
+      id: true,
+      email: true,
+      name: true,
+      status: true,
+      sessionVersion: true,
+      tenant: { select: { companyName: true } },
+    },
+  })
+
+  if (!user || user.status !== 'pending' || user.sessionVersion !== payload.v) {
+    return null
+  }
+
+  return user
+}
+
+/**
+ * Accept an invitation: set name and password and activate the user
+ */
+export async function acceptInvitation(token: string, input: { name?: string; password: string }) {
+  const invitation = await getInvitation(token)
+  if (!invitation) {
+    throw new InvitationError('This invitation is invalid or has expired')
+  }
+
+  const validation = validatePasswordStrength(input.password)
+  if (!validation.valid) {
+    throw new InvitationError(validation.errors.join(', '))
+  }
+
+  // Conditional on still being pending, so the link works only once
+  const { count } = await prisma.user.updateMany({
+    where: { id: invitation.id, status: 'pending', sessionVersion: invitation.sessionVersion },
+    data: {
+      name: input.name?.trim() || invitation.name,
+      passwordHash: await hashPassword(input.password),
+      status: 'active',
+      // The invitation link proves the address
+      emailVerifiedAt: new Date(),
+    },
+  })
+
+  if (count === 0) {
+    throw new InvitationError('This invitation is invalid or has expired')
+  }
+
+  return { id: invitation.id, email: invitation.email }
+}
@@ -0,0 +1,81 @@
+/**
+ * Email Templates
+ *
+ * Plain text and HTML bodies for account emails
+ */
+
+import { MailMessage } from '@/lib/mail/transport'
+
+/**
+ * Absolute URL to a page of the app
+ */
+export function appUrl(pathname: string, params: Record<string, string> = {}): string {
+  const base = process.env.NEXT_PUBLIC_APP_URL || process.env.NEXTAUTH_URL || 'http://localhost:3000'
+  const url = new URL(pathname, base)
+
+  for (const [key, value] of Object.entries(params)) {
+    url.searchParams.set(key, value)
+  }
+  return url.toString()
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function buildMessage(to: string, subject: string, lines: string[], action: { label: string; url: string }): MailMessage {
+  const text = [...lines, '', `${action.label}: ${action.url}`].join('\n')
+  const html = [
+    ...lines.map(line => `<p>${escapeHtml(line)}</p>`),
+    `<p><a href="${escapeHtml(action.url)}">${escapeHtml(action.label)}</a></p>`,
+  ].join('\n')
+
+  return { to, subject, text, html }
+}
+
+export function invitationEmail(params: {
+  to: string
+  inviterName: string
+  companyName: string
+  url: string
+  expiresInDays: number
+}): MailMessage {
+  return buildMessage(
+    params.to,
+    `You have been invited to ${params.companyName} on Koppling`,
+    [
+      `${params.inviterName} has invited you to join ${params.companyName} on Koppling.`,
+      `The invitation expires in ${params.expiresInDays} days.`,
+    ],
+    { label: 'Accept invitation', url: params.url }
+  )
+}
+
+export function passwordResetEmail(params: { to: string; url: string; expiresInMinutes: number }): MailMessage {
+  return buildMessage(
+    params.to,
+    'Reset your Koppling password',
+    [
+      'We received a request to reset the password for your Koppling account.',
+      `The link expires in ${params.expiresInMinutes} minutes and can be used once.`,
+      'If you did not request a password reset, you can ignore this email.',
+    ],
+    { label: 'Reset password', url: params.url }
+  )
+}
+
+export function emailVerificationEmail(params: { to: string; url: string; expiresInHours: number }): MailMessage {
+  return buildMessage(
+    params.to,
+    'Verify your email address',
+    [
+      'Welcome to Koppling! Please confirm your email address to activate your account.',
+      `The link expires in ${params.expiresInHours} hours.`,
+    ],
+    { label: 'Verify email address', url: params.url }
+  )
+}
@@ -0,0 +1,108 @@
+/**
+ * Mail Transport
+ *
+ * Pluggable outgoing email. EMAIL_TRANSPORT selects the driver:
+ * - console - print messages to the server log (default outside production)
+ * - file    - write each message as JSON to EMAIL_FILE_DIR (default .mail)
+ * - http    - POST to EMAIL_API_URL with EMAIL_API_KEY (default in production;
+ *             the payload matches Resend's send email API)
+ */
+
+import { mkdir, writeFile } from 'fs/promises'
+import path from 'path'
+import { randomUUID } from 'crypto'
+
+const DEFAULT_EMAIL_API_URL = 'https://api.resend.com/emails'
+const DEFAULT_EMAIL_FILE_DIR = '.mail'
+
+export interface MailMessage {
+  to: string
+  subject: string
+  text: string
+  html?: string
+}
+
+export interface MailTransport {
+  send(message: MailMessage & { from: string }): Promise<void>
+}
+
+export class MailTransportError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'MailTransportError'
+  }
+}
+
+export function createConsoleTransport(): MailTransport {
+  return {
+    async send(message) {
+      console.info(
+        `[mail] From: ${message.from}\n[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n\n${message.text}\n`
+      )
+    },
+  }
+}
+
+export function createFileTransport(directory = process.env.EMAIL_FILE_DIR || DEFAULT_EMAIL_FILE_DIR): MailTransport {
+  return {
+    async send(message) {
+      await mkdir(directory, { recursive: true })
+
+      const filename = `${new Date().toISOString().replace(/[:.]/g, '-')}-${randomUUID()}.json`
+      await writeFile(path.join(directory, filename), JSON.stringify(message, null, 2))
+    },
+  }
+}
+
+export function createHttpTransport(
+  apiUrl = process.env.EMAIL_API_URL || DEFAULT_EMAIL_API_URL,
+  apiKey = process.env.EMAIL_API_KEY
+): MailTransport {
+  return {
+    async send(message) {
+      if (!apiKey) {
+        throw new MailTransportError('EMAIL_API_KEY is not configured')
+      }
+
+      const response = await fetch(apiUrl, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(message),
+      })
+
+      if (!response.ok) {
+        throw new MailTransportError(`Email API returned ${response.status}: ${await response.text()}`)
+      }
+    },
+  }
+}
+
+/**
+ * Transport selected by EMAIL_TRANSPORT
+ */
+export function getMailTransport(): MailTransport {
+  const driver = process.env.EMAIL_TRANSPORT
+    || (process.env.NODE_ENV === 'production' ? 'http' : 'console')
+
+  switch (driver) {
+    case 'console':
+      return createConsoleTransport()
+    case 'file':
+      return createFileTransport()
+    case 'http':
+      return createHttpTransport()
+    default:
+      throw new MailTransportError(`Unknown EMAIL_TRANSPORT: ${driver}`)
+  }
+}
+
+/**
+ * Send an email from EMAIL_FROM through the configured transport
+ */
+export async function sendMail(message: MailMessage): Promise<void> {
+  const from = process.env.EMAIL_FROM || 'noreply@koppling.se'
+  await getMailTransport().send({ ...message, from })
+}
@@ -0,0 +1,54 @@
+/**
+ * OAuth State Helpers
+ *
+ * Generates and verifies the `state` parameter used to protect
+ * OAuth redirects against CSRF. The state is kept in a short-lived
+ * httpOnly cookie and compared on callback.
+ */
+
+import { cookies } from 'next/headers'
+import { randomBytes, timingSafeEqual } from 'crypto'
+
+const STATE_MAX_AGE = 10 * 60 // 10 minutes
+
+/**
+ * Create a new state value and store it in a cookie
+ * An optional context (e.g. the shop domain) is bound to the state and
+ * must match on callback.
+ */
+export async function createOAuthState(cookieName: string, context = ''): Promise<string> {
+  const state = randomBytes(24).toString('hex')
+  const cookieStore = await cookies()
+
+  cookieStore.set(cookieName, `${state}|${context}`, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: STATE_MAX_AGE,
+  })
+
+  return state
+}
+
+/**
+ * Verify a returned state against the cookie and clear it (single use)
+ */
+export async function verifyOAuthState(
+  cookieName: string,
+  state: string | null,
+  context = ''
+): Promise<boolean> {
+  const cookieStore = await cookies()
+  const stored = cookieStore.get(cookieName)?.value
+  cookieStore.delete(cookieName)
+
+  if (!state || !stored) {
+    return false
+  }
+
+  const actual = Buffer.from(`${state}|${context}`)
+  const expected = Buffer.from(stored)
+
+  return actual.length === expected.length && timingSafeEqual(actual, expected)
+}
@@ -0,0 +1,163 @@
+/**
+ * Tenant Onboarding
+ *
+ * The setup steps a new tenant goes through before scheduled syncing
+ * starts: connect Fortnox, connect a Shopify store, choose how orders
+ * map to Fortnox customers (sync/customers.ts), and run the first sync.
+ *
+ * Step completion is derived from the real integration state and
+ * cached on TenantOnboarding, which the scheduler filters on (see
+ * sync/scheduler.ts) so scheduled syncs only run for onboarded tenants.
+ */
+
+import { prisma } from '@/lib/prisma'
+import type { CustomerMode } from '@/generated/prisma'
+import { getSyncSettings } from '@/lib/sync/settings'
+import { runTenantSync, ScheduledRunResult } from '@/lib/sync/scheduler'
+
+export const ONBOARDING_STEPS = ['fortnox', 'shopify', 'webshop_customer', 'first_sync'] as const
+
+export type OnboardingStep = (typeof ONBOARDING_STEPS)[number]
+
+export class OnboardingError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'OnboardingError'
+  }
+}
+
+export interface OnboardingState {
+  steps: Record<OnboardingStep, boolean>
+  // First incomplete step (where the wizard resumes), null when done
+  currentStep: OnboardingStep | null
+  complete: boolean
+  customerMode: CustomerMode
+  webshopCustomerName: string
+  firstSync: FirstSyncStatus
+}
+
+// Progress of the first sync, which runs after the request that starts it
+export interface FirstSyncStatus {
+  running: boolean
+  // When the last product or order sync job was created (ISO string)
+  lastRunAt: string | null
+  // Why the last run did not succeed, while the step is not done
+  error: string | null
+}
+
+/**
+ * Derive the onboarding state from the tenant's integrations and sync
+ * history, updating the cached flags if they drifted
+ */
+export async function getOnboardingState(tenantId: string): Promise<OnboardingState> {
+  const [onboarding, fortnox, connectedStores, successfulSync, settings, lock, lastJob] = await Promise.all([
+    prisma.tenantOnboarding.upsert({
+      where: { tenantId },
+      create: { tenantId },
+      update: {},
+    }),
+    prisma.fortnoxIntegration.findUnique({
+      where: { tenantId },
+      select: { status: true },
+    }),
+    prisma.shopifyStore.count({
+      where: { tenantId, status: 'connected' },
+    }),
+    prisma.syncJob.findFirst({
+      where: { tenantId, type: 'orders', status: 'success' },
+      select: { id: true },
+    }),
+    getSyncSettings(tenantId),
+    prisma.syncLock.findFirst({
+      where: { tenantId, expiresAt: { gt: new Date() } },
+      select: { holderId: true },
+    }),
+    prisma.syncJob.findFirst({
+      where: { tenantId, type: { in: ['products', 'orders'] } },
+      orderBy: { createdAt: 'desc' },
+      select: { status: true, errorText: true, createdAt: true },
+    }),
+  ])
+
+  const fortnoxConnected = fortnox?.status === 'connected'
+
+  // The wizard confirmation is kept as stored; it only counts while
+  // Fortnox is connected, so a reconnect does not ask for it again
+  const flags = {
+    fortnoxConnected,
+    shopifyStoreAdded: connectedStores > 0,
+    webshopKundConfigured: onboarding.webshopKundConfigured,
+    firstSyncCompleted: onboarding.firstSyncCompleted || !!successfulSync,
+  }
+
+  const drifted = (Object.keys(flags) as (keyof typeof flags)[])
+    .some(flag => flags[flag] !== onboarding[flag])
+
+  if (drifted) {
+    await prisma.tenantOnboarding.update({
+      where: { tenantId },
+      data: flags,
+    })
+  }
+
+  const steps: Record<OnboardingStep, boolean> = {
+    fortnox: flags.fortnoxConnected,
+    shopify: flags.shopifyStoreAdded,
+    webshop_customer: flags.webshopKundConfigured && fortnoxConnected,
+    first_sync: flags.firstSyncCompleted,
+  }
+  const currentStep = ONBOARDING_STEPS.find(step => !steps[step]) ?? null
+
+  return {
+    steps,
+    currentStep,
+    complete: currentStep === null,
+    customerMode: settings.customerMode,
+    webshopCustomerName: settings.customerTypeDefault,
+    firstSync: {
+      running: !!lock,
+      lastRunAt: lastJob?.createdAt.toISOString() ?? null,
+      error: !steps.first_sync && (lastJob?.status === 'failed' || lastJob?.status === 'skipped')
+        ? lastJob.errorText
+        : null,
+    },
+  }
+}
+
+/**
+ * Throw OnboardingError unless every step before the first sync is done
+ */
+export function assertReadyForFirstSync(state: OnboardingState): void {
+  const missing = ONBOARDING_STEPS.find(step => step !== 'first_sync' && !state.steps[step])
+
+  if (missing) {
+    throw new OnboardingError(`Complete the "${missing}" step first`)
+  }
+}
+
+/**
+ * Run the first product and order sync once the other steps are done
+ * Marks onboarding complete when both syncs succeed. Takes as long as
+ * the backfill, so routes run it after the response (see
+ * /api/onboarding/first-sync) and the wizard polls getOnboardingState.
+ */
+export async function runFirstSync(tenantId: string): Promise<ScheduledRunResult & { completed: boolean }> {
+  assertReadyForFirstSync(await getOnboardingState(tenantId))
+
+  const result = await runTenantSync(tenantId)
+
+  const jobs = await prisma.syncJob.findMany({
+    where: { id: { in: result.jobIds } },
+    select: { status: true },
+  })
+  const completed = result.status === 'ran' && jobs.length > 0 && jobs.every(job => job.status === 'success')
+
+  if (completed) {
+    await prisma.tenantOnboarding.update({
+      where: { tenantId },
+      data: { firstSyncCompleted: true },
+    })
+  }
+
+  return { ...result, completed }
+}
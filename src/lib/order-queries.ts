@@ -0,0 +1,183 @@
+/**
+ * Order Queries
+ *
+ * Search, filters, paging and the detail view for browsing a tenant's
+ * orders in the portal. Queries run on the route's tenant-scoped client.
+ *
+ * Search matches the order number, customer name and email, and the
+ * SKUs and titles of the order's lines (Order.searchText).
+ */
+
+import { OrderSyncStatus, Prisma } from '@/generated/prisma'
+import type { TenantPrismaClient } from '@/lib/tenant-prisma'
+import { PageParams, pageArgs, toPage } from '@/lib/pagination'
+import { normalizeOrder } from '@/lib/shopify/normalize'
+import type { ShopifyOrder } from '@/lib/shopify/types'
+
+export const ORDER_SYNC_STATUSES = Object.values(OrderSyncStatus)
+
+// Shopify leaves fulfillment_status empty until something is shipped
+const UNFULFILLED = 'unfulfilled'
+
+export class OrderQueryError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'OrderQueryError'
+  }
+}
+
+const ORDER_LIST_SELECT = {
+  id: true,
+  shopifyStoreId: true,
+  shopifyOrderId: true,
+  orderNumber: true,
+  status: true,
+  financialStatus: true,
+  fulfillmentStatus: true,
+  customerName: true,
+  customerEmail: true,
+  customerRef: true,
+  totalAmount: true,
+  currency: true,
+  orderedAt: true,
+  syncStatus: true,
+  fortnoxDocumentNumber: true,
+  syncError: true,
+  syncAttempts: true,
+  lastSyncAttemptAt: true,
+  updatedAt: true,
+} satisfies Prisma.OrderSelect
+
+function parseDate(value: string | null, name: string): Date | undefined {
+  if (!value) {
+    return undefined
+  }
+
+  const date = new Date(value)
+  if (Number.isNaN(date.getTime())) {
+    throw new OrderQueryError(`Invalid ${name} date`)
+  }
+  return date
+}
+
+// Comma-separated values of a query parameter
+function parseList(searchParams: URLSearchParams, name: string): string[] {
+  return (searchParams.get(name) ?? '')
+    .split(',')
+    .map(value => value.trim())
+    .filter(Boolean)
+}
+
+/**
+ * Build the where clause from query parameters
+ * q, storeId, financialStatus, fulfillmentStatus and syncStatus (comma
+ * separated lists), from and to (ISO dates, on the Shopify order date).
+ */
+export function parseOrderFilters(searchParams: URLSearchParams): Prisma.OrderWhereInput {
+  const filters: Prisma.OrderWhereInput[] = []
+
+  const query = searchParams.get('q')?.trim()
+  if (query) {
+    filters.push({
+      OR: [
+        { searchText: { contains: query.toLowerCase() } },
+        { orderNumber: { contains: query, mode: 'insensitive' } },
+        { customerRef: query },
+      ],
+    })
+  }
+
+  const storeIds = parseList(searchParams, 'storeId')
+  if (storeIds.length > 0) {
+    filters.push({ shopifyStoreId: { in: storeIds } })
+  }
+
+  const financialStatuses = parseList(searchParams, 'financialStatus')
+  if (financialStatuses.length > 0) {
+    filters.push({ financialStatus: { in: financialStatuses } })
+  }
+
+  const fulfillmentStatuses = parseList(searchParams, 'fulfillmentStatus')
+  if (fulfillmentStatuses.length > 0) {
+    filters.push({
+      OR: [
+        { fulfillmentStatus: { in: fulfillmentStatuses } },
+        ...(fulfillmentStatuses.includes(UNFULFILLED) ? [{ fulfillmentStatus: null }] : []),
+      ],
+    })
+  }
+
+  const syncStatuses = parseList(searchParams, 'syncStatus')
+  const invalid = syncStatuses.find(status => !ORDER_SYNC_STATUSES.includes(status as OrderSyncStatus))
+  if (invalid) {
+    throw new OrderQueryError(`syncStatus must be one of ${ORDER_SYNC_STATUSES.join(', ')}`)
+  }
+  if (syncStatuses.length > 0) {
+    filters.push({ syncStatus: { in: syncStatuses as OrderSyncStatus[] } })
+  }
+
+  const from = parseDate(searchParams.get('from'), 'from')
+  const to = parseDate(searchParams.get('to'), 'to')
+
+  if (from && to && from > to) {
+    throw new OrderQueryError('from must be before to')
+  }
+  if (from || to) {
+    filters.push({ orderedAt: { ...(from ? { gte: from } : {}), ...(to ? { lte: to } : {}) } })
+  }
+
+  return filters.length > 0 ? { AND: filters } : {}
+}
+
+/**
+ * One page of orders, newest first
+ */
+export async function listOrders(db: TenantPrismaClient, where: Prisma.OrderWhereInput, page: PageParams) {
+  const rows = await db.order.findMany({
+    where,
+    select: ORDER_LIST_SELECT,
+    orderBy: [{ orderedAt: { sort: 'desc', nulls: 'last' } }, { id: 'desc' }],
+    ...pageArgs(page),
+  })
+
+  return toPage(rows, page.limit)
+}
+
+/**
+ * An order with its store, Fortnox documents and normalized payload,
+ * or null if the tenant has no such order
+ */
+export async function getOrderDetail(db: TenantPrismaClient, orderId: string) {
+  const order = await db.order.findFirst({
+    where: { id: orderId },
+    select: {
+      ...ORDER_LIST_SELECT,
+      createdAt: true,
+      rawJson: true,
+      shopifyStore: { select: { id: true, storeName: true, shopDomain: true } },
+      fortnoxDocuments: {
+        select: {
+          documentType: true,
+          documentNumber: true,
+          creditedDocumentNumber: true,
+          creditReason: true,
+          fullCredit: true,
+          total: true,
+          createdAt: true,
+        },
+        orderBy: { createdAt: 'asc' },
+      },
+    },
+  })
+
+  if (!order) {
+    return null
+  }
+
+  const { rawJson, ...fields } = order
+
+  return {
+    ...fields,
+    details: rawJson ? normalizeOrder(rawJson as unknown as ShopifyOrder) : null,
+  }
+}
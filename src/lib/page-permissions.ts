@@ -0,0 +1,53 @@
+/**
+ * Page Permissions
+ *
+ * Permissions required for page routes under /tenant and /admin,
+ * enforced by middleware. The longest matching prefix wins.
+ */
+
+import { UserRole } from '@/generated/prisma'
+import { hasAllPermissions, Permission } from '@/lib/rbac'
+
+const PAGE_PERMISSIONS: Record<string, Permission[]> = {
+  // Platform admin portal
+  '/admin': [Permission.MANAGE_PLATFORM],
+  '/admin/tenants': [Permission.MANAGE_ALL_TENANTS],
+  '/admin/settings': [Permission.MANAGE_PLATFORM_SETTINGS],
+  '/admin/blog': [Permission.MANAGE_BLOG],
+  '/admin/changelog': [Permission.MANAGE_CHANGELOG],
+
+  // Tenant portal
+  '/tenant': [],
+  '/tenant/orders': [Permission.VIEW_ORDERS],
+  '/tenant/products': [Permission.VIEW_PRODUCTS],
+  '/tenant/sync': [Permission.VIEW_SYNC_HISTORY],
+  '/tenant/sync-settings': [Permission.MANAGE_SYNC_SETTINGS],
+  '/tenant/integrations': [Permission.MANAGE_INTEGRATIONS],
+  '/tenant/users': [Permission.MANAGE_TENANT_USERS],
+  '/tenant/billing': [Permission.MANAGE_BILLING],
+  '/tenant/audit-log': [Permission.VIEW_AUDIT_LOG],
+  '/tenant/settings': [Permission.MANAGE_TENANT],
+}
+
+function matchesPrefix(pathname: string, prefix: string): boolean {
+  return pathname === prefix || pathname.startsWith(`${prefix}/`)
+}
+
+/**
+ * Permissions required for a page, or null if the page is not mapped
+ */
+export function getPagePermissions(pathname: string): Permission[] | null {
+  const prefix = Object.keys(PAGE_PERMISSIONS)
+    .filter(candidate => matchesPrefix(pathname, candidate))
+    .sort((a, b) => b.length - a.length)[0]
+
+  return prefix ? PAGE_PERMISSIONS[prefix] : null
+}
+
+/**
+ * Check whether a role may open a page
+ */
+export function canAccessPage(role: UserRole, pathname: string): boolean {
+  const permissions = getPagePermissions(pathname)
+  return permissions === null || hasAllPermissions(role, permissions)
+}
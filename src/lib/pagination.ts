@@ -0,0 +1,58 @@
+/**
+ * Cursor Pagination Helpers
+ *
+ * List endpoints page with an opaque `cursor` (the id of the last item
+ * returned) and a bounded `limit`. Fetch `limit + 1` rows to know
+ * whether another page exists.
+ */
+
+export const DEFAULT_PAGE_SIZE = 50
+export const MAX_PAGE_SIZE = 200
+
+export interface PageParams {
+  cursor: string | null
+  limit: number
+}
+
+export interface Page<T> {
+  items: T[]
+  nextCursor: string | null
+}
+
+/**
+ * Read `cursor` and `limit` from query parameters
+ */
+export function parsePageParams(searchParams: URLSearchParams): PageParams {
+  const requested = Number.parseInt(searchParams.get('limit') ?? '', 10)
+  const limit = Number.isFinite(requested) && requested > 0
+    ? Math.min(requested, MAX_PAGE_SIZE)
+    : DEFAULT_PAGE_SIZE
+
+  return {
+    cursor: searchParams.get('cursor') || null,
+    limit,
+  }
+}
+
+/**
+ * Prisma findMany arguments for a page
+ */
+export function pageArgs({ cursor, limit }: PageParams) {
+  return {
+    take: limit + 1,
+    ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+  }
+}
+
+/**
+ * Trim the extra row fetched by pageArgs and derive the next cursor
+ */
+export function toPage<T extends { id: string }>(rows: T[], limit: number): Page<T> {
+  const hasMore = rows.length > limit
+  const items = hasMore ? rows.slice(0, limit) : rows
+
+  return {
+    items,
+    nextCursor: hasMore ? items[items.length - 1].id : null,
+  }
+}
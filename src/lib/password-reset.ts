@@ -0,0 +1,64 @@
+/**
+ * Password Reset
+ *
+ * Forgot-password requests always look the same to the caller, whether
+ * or not the account exists. Reset links carry a single-use hashed token
+ * (see user-tokens.ts); using one signs the user out everywhere.
+ */
+
+import { prisma } from '@/lib/prisma'
+import { hashPassword, validatePasswordStrength } from '@/lib/password'
+import { consumeUserToken, issueUserToken, PASSWORD_RESET_TTL_MS } from '@/lib/user-tokens'
+import { sendMail } from '@/lib/mail/transport'
+import { appUrl, passwordResetEmail } from '@/lib/mail/templates'
+import { REVOKE_SESSIONS } from '@/lib/session-version'
+
+export class PasswordResetError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PasswordResetError'
+  }
+}
+
+/**
+ * Email a reset link if an active account exists
+ * Resolves the same way either way so callers cannot probe for accounts.
+ */
+export async function requestPasswordReset(email: string): Promise<void> {
+  const user = await prisma.user.findUnique({
+    where: { email: email.trim() },
+    select: { id: true, email: true, status: true },
+  })
+
+  if (!user || user.status !== 'active') {
+    return
+  }
+
+  const token = await issueUserToken(user.id, 'password_reset', PASSWORD_RESET_TTL_MS)
+
+  await sendMail(passwordResetEmail({
+    to: user.email,
+    url: appUrl('/auth/reset-password', { token }),
+    expiresInMinutes: PASSWORD_RESET_TTL_MS / 60_000,
+  }))
+}
+
+/**
+ * Set a new password with a reset token
+ */
+export async function resetPassword(token: string, password: string): Promise<void> {
+  const validation = validatePasswordStrength(password)
+  if (!validation.valid) {
+    throw new PasswordResetError(validation.errors.join(', '))
+  }
+
+  const userId = await consumeUserToken(token, 'password_reset')
+  if (!userId) {
+    throw new PasswordResetError('This reset link is invalid or has expired')
+  }
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { passwordHash: await hashPassword(password), ...REVOKE_SESSIONS },
+  })
+}
@@ -0,0 +1,64 @@
+/**
+ * Platform Settings
+ *
+ * Reads the single-row platform_settings table managed by platform admins.
+ * Secret columns are decrypted transparently by the Prisma client;
+ * environment variables act as a fallback for initial setup.
+ */
+
+import { prisma } from '@/lib/prisma'
+
+export interface FortnoxOAuthConfig {
+  clientId: string
+  clientSecret: string
+  redirectUrl: string
+}
+
+/**
+ * Get the platform settings row (if it has been created)
+ */
+export async function getPlatformSettings() {
+  return prisma.platformSettings.findFirst({
+    orderBy: { createdAt: 'asc' },
+  })
+}
+
+/**
+ * Get Fortnox OAuth client credentials
+ * Throws if the platform has not been configured
+ */
+export async function getFortnoxOAuthConfig(): Promise<FortnoxOAuthConfig> {
+  const settings = await getPlatformSettings()
+
+  const clientId = settings?.fortnoxClientIdSecret || process.env.FORTNOX_CLIENT_ID
+  const clientSecret = settings?.fortnoxClientSecretSecret || process.env.FORTNOX_CLIENT_SECRET
+  const redirectUrl = settings?.fortnoxRedirectUrl || process.env.FORTNOX_REDIRECT_URL
+
+  if (!clientId || !clientSecret || !redirectUrl) {
+    throw new Error('Fortnox integration is not configured')
+  }
+
+  return { clientId, clientSecret, redirectUrl }
+}
+
+export interface StripeConfig {
+  secretKey: string
+  webhookSecret: string | null
+}
+
+/**
+ * Get Stripe API credentials
+ * Throws if the platform has not been configured
+ */
+export async function getStripeConfig(): Promise<StripeConfig> {
+  const settings = await getPlatformSettings()
+
+  const secretKey = settings?.stripeSecretKeySecret || process.env.STRIPE_SECRET_KEY
+  const webhookSecret = settings?.stripeWebhookSecretSecret || process.env.STRIPE_WEBHOOK_SECRET || null
+
+  if (!secretKey) {
+    throw new Error('Stripe is not configured')
+  }
+
+  return { secretKey, webhookSecret }
+}
@@ -3,19 +3,31 @@
  *
  * This ensures we don't create multiple instances of PrismaClient in development
  * which can cause connection pool issues.
+ *
+ * The exported client is extended with field-level encryption for
+ * secret columns (see encrypted-fields.ts) and automatic audit logging
+ * of tenant-owned writes (see audit.ts).
  */
 
 import { PrismaClient } from '@/generated/prisma'
+import { encryptedFieldsExtension } from '@/lib/encrypted-fields'
+import { auditLogExtension } from '@/lib/audit'
+
+function createPrismaClient() {
+  return new PrismaClient({
+    log: process.env.NODE_ENV === 'development' ? ['query', 'error', 'warn'] : ['error'],
+  })
+    .$extends(encryptedFieldsExtension)
+    .$extends(auditLogExtension)
+}
+
+export type ExtendedPrismaClient = ReturnType<typeof createPrismaClient>
 
 const globalForPrisma = globalThis as unknown as {
-  prisma: PrismaClient | undefined
+  prisma: ExtendedPrismaClient | undefined
 }
 
-export const prisma =
-  globalForPrisma.prisma ??
-  new PrismaClient({
-    log: process.env.NODE_ENV === 'development' ? ['query', 'error', 'warn'] : ['error'],
-  })
+export const prisma = globalForPrisma.prisma ?? createPrismaClient()
 
 if (process.env.NODE_ENV !== 'production') globalForPrisma.prisma = prisma
 
@@ -0,0 +1,115 @@
+/**
+ * Product Queries
+ *
+ * Search, filters, paging and the detail view for browsing a tenant's
+ * products (one row per Shopify variant) in the portal. Queries run on
+ * the route's tenant-scoped client.
+ */
+
+import { Prisma, ProductStatus } from '@/generated/prisma'
+import type { TenantPrismaClient } from '@/lib/tenant-prisma'
+import { PageParams, pageArgs, toPage } from '@/lib/pagination'
+import { normalizeProduct, StoredProductPayload } from '@/lib/shopify/normalize'
+
+export const PRODUCT_STATUSES = Object.values(ProductStatus)
+
+export class ProductQueryError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ProductQueryError'
+  }
+}
+
+const PRODUCT_LIST_SELECT = {
+  id: true,
+  shopifyStoreId: true,
+  shopifyProductId: true,
+  sku: true,
+  title: true,
+  status: true,
+  price: true,
+  inventory: true,
+  updatedAt: true,
+} satisfies Prisma.ProductSelect
+
+// Comma-separated values of a query parameter
+function parseList(searchParams: URLSearchParams, name: string): string[] {
+  return (searchParams.get(name) ?? '')
+    .split(',')
+    .map(value => value.trim())
+    .filter(Boolean)
+}
+
+/**
+ * Build the where clause from query parameters
+ * q (SKU or title), storeId and status (comma separated lists).
+ */
+export function parseProductFilters(searchParams: URLSearchParams): Prisma.ProductWhereInput {
+  const filters: Prisma.ProductWhereInput[] = []
+
+  const query = searchParams.get('q')?.trim()
+  if (query) {
+    filters.push({
+      OR: [
+        { sku: { contains: query, mode: 'insensitive' } },
+        { title: { contains: query, mode: 'insensitive' } },
+      ],
+    })
+  }
+
+  const storeIds = parseList(searchParams, 'storeId')
+  if (storeIds.length > 0) {
+    filters.push({ shopifyStoreId: { in: storeIds } })
+  }
+
+  const statuses = parseList(searchParams, 'status')
+  if (statuses.some(status => !PRODUCT_STATUSES.includes(status as ProductStatus))) {
+    throw new ProductQueryError(`status must be one of ${PRODUCT_STATUSES.join(', ')}`)
+  }
+  if (statuses.length > 0) {
+    filters.push({ status: { in: statuses as ProductStatus[] } })
+  }
+
+  return filters.length > 0 ? { AND: filters } : {}
+}
+
+/**
+ * One page of products, by title
+ */
+export async function listProducts(db: TenantPrismaClient, where: Prisma.ProductWhereInput, page: PageParams) {
+  const rows = await db.product.findMany({
+    where,
+    select: PRODUCT_LIST_SELECT,
+    orderBy: [{ title: 'asc' }, { id: 'asc' }],
+    ...pageArgs(page),
+  })
+
+  return toPage(rows, page.limit)
+}
+
+/**
+ * A product with its store and normalized payload, or null if the
+ * tenant has no such product
+ */
+export async function getProductDetail(db: TenantPrismaClient, productId: string) {
+  const product = await db.product.findFirst({
+    where: { id: productId },
+    select: {
+      ...PRODUCT_LIST_SELECT,
+      createdAt: true,
+      rawJson: true,
+      shopifyStore: { select: { id: true, storeName: true, shopDomain: true } },
+    },
+  })
+
+  if (!product) {
+    return null
+  }
+
+  const { rawJson, ...fields } = product
+
+  return {
+    ...fields,
+    details: rawJson ? normalizeProduct(rawJson as unknown as StoredProductPayload) : null,
+  }
+}
@@ -0,0 +1,133 @@
+/**
+ * Rate Limit Store
+ *
+ * Fixed-window attempt counters with an optional lockout per key.
+ * RATE_LIMIT_STORE selects the backend: `postgres` (default, shared
+ * across instances) or `memory` (single process; tests and local use).
+ */
+
+import { prisma } from '@/lib/prisma'
+
+export interface RateLimitState {
+  count: number
+  windowStart: Date
+  lockedUntil: Date | null
+}
+
+export interface RateLimitStore {
+  get(key: string): Promise<RateLimitState | null>
+  // Count an attempt; starts a new window if the current one is older than windowMs
+  increment(key: string, windowMs: number): Promise<RateLimitState>
+  // Take back one counted attempt (e.g. one that turned out to be legitimate)
+  decrement(key: string): Promise<void>
+  lock(key: string, until: Date): Promise<void>
+  reset(key: string): Promise<void>
+}
+
+export function createPostgresRateLimitStore(): RateLimitStore {
+  return {
+    async get(key) {
+      return prisma.rateLimit.findUnique({
+        where: { key },
+        select: { count: true, windowStart: true, lockedUntil: true },
+      })
+    },
+
+    async increment(key, windowMs) {
+      const now = new Date()
+      const windowCutoff = new Date(now.getTime() - windowMs)
+
+      // Single statement so concurrent attempts cannot lose counts
+      const [state] = await prisma.$queryRaw<RateLimitState[]>`
+        INSERT INTO rate_limits (key, count, window_start, updated_at)
+        VALUES (${key}, 1, ${now}, ${now})
+        ON CONFLICT (key) DO UPDATE SET
+          count = CASE WHEN rate_limits.window_start < ${windowCutoff} THEN 1 ELSE rate_limits.count + 1 END,
+          window_start = CASE WHEN rate_limits.window_start < ${windowCutoff} THEN ${now} ELSE rate_limits.window_start END,
+          updated_at = ${now}
+        RETURNING count, window_start AS "windowStart", locked_until AS "lockedUntil"
+      `
+
+      return state
+    },
+
+    async decrement(key) {
+      await prisma.rateLimit.updateMany({
+        where: { key, count: { gt: 0 } },
+        data: { count: { decrement: 1 } },
+      })
+    },
+
+    async lock(key, until) {
+      await prisma.rateLimit.upsert({
+        where: { key },
+        create: { key, count: 0, windowStart: new Date(), lockedUntil: until },
+        update: { lockedUntil: until },
+      })
+    },
+
+    async reset(key) {
+      await prisma.rateLimit.deleteMany({ where: { key } })
+    },
+  }
+}
+
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const entries = new Map<string, RateLimitState>()
+
+  return {
+    async get(key) {
+      return entries.get(key) ?? null
+    },
+
+    async increment(key, windowMs) {
+      const now = new Date()
+      const current = entries.get(key)
+      const next = current && current.windowStart.getTime() >= now.getTime() - windowMs
+        ? { ...current, count: current.count + 1 }
+        : { count: 1, windowStart: now, lockedUntil: current?.lockedUntil ?? null }
+
+      entries.set(key, next)
+      return next
+    },
+
+    async decrement(key) {
+      const current = entries.get(key)
+      if (current && current.count > 0) {
+        entries.set(key, { ...current, count: current.count - 1 })
+      }
+    },
+
+    async lock(key, until) {
+      const current = entries.get(key)
+      entries.set(key, { count: current?.count ?? 0, windowStart: current?.windowStart ?? new Date(), lockedUntil: until })
+    },
+
+    async reset(key) {
+      entries.delete(key)
+    },
+  }
+}
+
+const globalForRateLimit = globalThis as unknown as {
+  rateLimitStore: RateLimitStore | undefined
+}
+
+/**
+ * Store selected by RATE_LIMIT_STORE (one instance per process)
+ */
+export function getRateLimitStore(): RateLimitStore {
+  if (!globalForRateLimit.rateLimitStore) {
+    globalForRateLimit.rateLimitStore = process.env.RATE_LIMIT_STORE === 'memory'
+      ? createMemoryRateLimitStore()
+      : createPostgresRateLimitStore()
+  }
+  return globalForRateLimit.rateLimitStore
+}
+
+/**
+ * Swap the store (tests)
+ */
+export function setRateLimitStore(store: RateLimitStore): void {
+  globalForRateLimit.rateLimitStore = store
+}
@@ -0,0 +1,160 @@
+/**
+ * Session Versions
+ *
+ * Every JWT carries the user's sessionVersion from sign-in. Bumping the
+ * version (deactivation, password reset, role change, "sign out of all
+ * devices") invalidates all of the user's existing sessions.
+ *
+ * Sessions are checked against the database at most once per
+ * SESSION_CHECK_INTERVAL_MS, in two places:
+ * - middleware rejects requests whose token no longer matches; tokens
+ *   the jwt callback checked recently are trusted, others are checked
+ *   once per interval per instance
+ * - the jwt callback re-checks and throws, which makes NextAuth clear
+ *   the session cookie (forced sign-out)
+ *
+ * A token no longer matches when the user's version, status or role has
+ * changed, or their tenant is no longer active.
+ */
+
+import type { JWT } from 'next-auth/jwt'
+import { prisma } from '@/lib/prisma'
+
+export const SESSION_CHECK_INTERVAL_MS = 5 * 60 * 1000
+
+// Pruned of expired entries past this size
+const MAX_CACHED_CHECKS = 10_000
+
+// When middleware last found a session current, by the token fields checked
+const sessionChecks = new Map<string, number>()
+
+/**
+ * Prisma update data that invalidates the user's sessions
+ */
+export const REVOKE_SESSIONS = { sessionVersion: { increment: 1 } } as const
+
+export type SessionRevocationReason =
+  | 'user_not_found'
+  | 'user_inactive'
+  | 'tenant_inactive'
+  | 'role_changed'
+  | 'sessions_revoked'
+
+export class SessionRevokedError extends Error {
+  constructor(public reason: SessionRevocationReason) {
+    super(`Session revoked: ${reason}`)
+    this.name = 'SessionRevokedError'
+  }
+}
+
+/**
+ * Why a token is no longer valid, or null if it still is
+ * While impersonating, the admin's own account is checked.
+ */
+export async function getSessionRevocationReason(token: JWT): Promise<SessionRevocationReason | null> {
+  const user = await prisma.user.findUnique({
+    where: { id: token.impersonatorId ?? token.id },
+    select: {
+      role: true,
+      status: true,
+      sessionVersion: true,
+      tenant: { select: { status: true } },
+    },
+  })
+
+  if (!user) {
+    return 'user_not_found'
+  }
+
+  if (user.status !== 'active') {
+    return 'user_inactive'
+  }
+
+  if (user.sessionVersion !== (token.sessionVersion ?? 0)) {
+    return 'sessions_revoked'
+  }
+
+  // The token carries the impersonated user's role; the admin must still be one
+  const expectedRole = token.impersonatorId ? 'platform_admin' : token.role
+  if (user.role !== expectedRole) {
+    return 'role_changed'
+  }
+
+  if (user.role !== 'platform_admin' && user.tenant.status !== 'active') {
+    return 'tenant_inactive'
+  }
+
+  return null
+}
+
+function sessionCheckKey(token: JWT): string {
+  return [token.impersonatorId ?? '', token.id, token.role, token.sessionVersion ?? 0].join(':')
+}
+
+function pruneSessionChecks(now: number) {
+  for (const [key, checkedAt] of sessionChecks) {
+    if (checkedAt + SESSION_CHECK_INTERVAL_MS <= now) {
+      sessionChecks.delete(key)
+    }
+  }
+}
+
+/**
+ * Check that the account behind a token is still allowed in
+ * Hits the database at most once per interval for a current session;
+ * revoked sessions are not cached.
+ */
+export async function isSessionCurrent(token: JWT): Promise<boolean> {
+  const now = Date.now()
+
+  if (token.sessionCheckedAt && token.sessionCheckedAt + SESSION_CHECK_INTERVAL_MS > now) {
+    return true
+  }
+
+  const key = sessionCheckKey(token)
+  const checkedAt = sessionChecks.get(key)
+  if (checkedAt && checkedAt + SESSION_CHECK_INTERVAL_MS > now) {
+    return true
+  }
+
+  const current = (await getSessionRevocationReason(token)) === null
+  if (current) {
+    if (sessionChecks.size >= MAX_CACHED_CHECKS) {
+      pruneSessionChecks(now)
+    }
+    sessionChecks.set(key, now)
+  } else {
+    sessionChecks.delete(key)
+  }
+
+  return current
+}
+
+/**
+ * Re-check a token against the database once per interval (or now, if
+ * forced). Throws SessionRevokedError when the session must end.
+ */
+export async function refreshSessionToken(token: JWT, force = false): Promise<JWT> {
+  const now = Date.now()
+
+  if (!force && token.sessionCheckedAt && token.sessionCheckedAt + SESSION_CHECK_INTERVAL_MS > now) {
+    return token
+  }
+
+  const reason = await getSessionRevocationReason(token)
+  if (reason) {
+    throw new SessionRevokedError(reason)
+  }
+
+  return { ...token, sessionCheckedAt: now }
+}
+
+/**
+ * Sign a user out of every device
+ */
+export async function revokeAllSessions(userId: string): Promise<void> {
+  await prisma.user.update({
+    where: { id: userId },
+    data: REVOKE_SESSIONS,
+  })
+}
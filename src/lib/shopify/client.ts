@@ -0,0 +1,333 @@
+/**
+ * Shopify Admin API Client
+ *
+ * REST and GraphQL client for a connected store. Requests are throttled
+ * per store to Shopify's limits (see api-limits.ts): the REST leaky
+ * bucket (X-Shopify-Shop-Api-Call-Limit) and the GraphQL query cost
+ * (extensions.cost.throttleStatus). A 401 reloads the store's access
+ * token once, in case the app was reinstalled since the client was made.
+ *
+ * The API can be pointed at a local mock via SHOPIFY_API_URL, which then
+ * serves every store.
+ */
+
+import { prisma } from '@/lib/prisma'
+import { SHOPIFY_API_VERSION } from '@/lib/shopify/oauth'
+import { getTokenBucket, MAX_RETRIES, RateLimitTracker, retryDelayMs, sendWithRetry } from '@/lib/api-limits'
+
+export interface ShopifyStoreCredentials {
+  // Needed to reload the access token after a 401
+  id?: string
+  shopDomain: string
+  accessTokenSecret: string | null
+}
+
+export interface ShopifyClientOptions {
+  // Collects request counts, retries and reported limits for the sync job
+  tracker?: RateLimitTracker
+}
+
+export interface ShopifyConnection<T> {
+  nodes: T[]
+  pageInfo: { hasNextPage: boolean; endCursor: string | null }
+}
+
+interface ShopifyThrottleStatus {
+  maximumAvailable: number
+  currentlyAvailable: number
+  restoreRate: number
+}
+
+interface ShopifyGraphqlResponse<T> {
+  data?: T
+  errors?: Array<{ message: string; extensions?: { code?: string } }>
+  extensions?: {
+    cost?: {
+      requestedQueryCost: number
+      actualQueryCost: number | null
+      throttleStatus: ShopifyThrottleStatus
+    }
+  }
+}
+
+export class ShopifyApiError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public body: string
+  ) {
+    super(message)
+    this.name = 'ShopifyApiError'
+  }
+}
+
+const SHOPIFY_API_URL = process.env.SHOPIFY_API_URL
+
+// Standard plan limits; the buckets follow what Shopify reports
+const SHOPIFY_REST_RATE_LIMIT = { capacity: 40, refillPerSecond: 2 }
+const SHOPIFY_GRAPHQL_RATE_LIMIT = { capacity: 1000, refillPerSecond: 50 }
+
+// Cost reserved for a GraphQL query unless the caller knows better
+const DEFAULT_QUERY_COST = 10
+
+/**
+ * Parse the `rel="next"` URL from a Shopify Link header
+ */
+function getNextPageUrl(linkHeader: string | null): string | null {
+  if (!linkHeader) {
+    return null
+  }
+
+  const match = linkHeader
+    .split(',')
+    .map(part => part.trim())
+    .find(part => part.endsWith('rel="next"'))
+    ?.match(/<([^>]+)>/)
+
+  return match ? match[1] : null
+}
+
+/**
+ * Parse X-Shopify-Shop-Api-Call-Limit ("used/max")
+ */
+function parseCallLimit(header: string | null): { used: number; max: number } | null {
+  const match = header?.match(/^(\d+)\/(\d+)$/)
+  return match ? { used: Number(match[1]), max: Number(match[2]) } : null
+}
+
+/**
+ * Whether a GraphQL document is a mutation (queries are safe to resend)
+ */
+function isMutation(query: string): boolean {
+  return /^\s*mutation\b/.test(query)
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+export function createShopifyClient(store: ShopifyStoreCredentials, options: ShopifyClientOptions = {}) {
+  if (!store.accessTokenSecret) {
+    throw new ShopifyApiError(`Store ${store.shopDomain} is not connected`, 401, '')
+  }
+
+  const { tracker } = options
+  let accessToken = store.accessTokenSecret
+  const origin = SHOPIFY_API_URL || `https://${store.shopDomain}`
+  const baseUrl = `${origin}/admin/api/${SHOPIFY_API_VERSION}`
+  const restBucket = getTokenBucket(`shopify:${store.shopDomain}`, SHOPIFY_REST_RATE_LIMIT)
+  const graphqlBucket = getTokenBucket(`shopify-graphql:${store.shopDomain}`, SHOPIFY_GRAPHQL_RATE_LIMIT)
+
+  /**
+   * Pick up a token stored since the client was created
+   * Returns false if there is none.
+   */
+  async function reloadAccessToken(): Promise<boolean> {
+    if (!store.id) {
+      return false
+    }
+
+    const current = await prisma.shopifyStore.findUnique({
+      where: { id: store.id },
+      select: { status: true, accessTokenSecret: true },
+    })
+
+    if (current?.status !== 'connected' || !current.accessTokenSecret || current.accessTokenSecret === accessToken) {
+      return false
+    }
+
+    accessToken = current.accessTokenSecret
+    return true
+  }
+
+  /**
+   * Send a request, retrying 5xx responses only when it is idempotent
+   * (REST GETs by default; GraphQL queries say so explicitly)
+   */
+  async function send(
+    url: string,
+    init: RequestInit,
+    api: 'shopify' | 'shopify_graphql',
+    cost?: number,
+    idempotent = (init.method ?? 'GET') === 'GET'
+  ) {
+    return sendWithRetry(
+      () => fetch(url, {
+        ...init,
+        headers: {
+          'X-Shopify-Access-Token': accessToken,
+          'Content-Type': 'application/json',
+          Accept: 'application/json',
+        },
+      }),
+      {
+        bucket: api === 'shopify' ? restBucket : graphqlBucket,
+        api,
+        idempotent,
+        tracker,
+        cost,
+      }
+    )
+  }
+
+  async function fetchJson<T>(
+    url: string,
+    init: RequestInit = {},
+    api: 'shopify' | 'shopify_graphql' = 'shopify',
+    cost?: number,
+    idempotent?: boolean
+  ): Promise<{ data: T; nextUrl: string | null }> {
+    let response = await send(url, init, api, cost, idempotent)
+
+    if (response.status === 401 && await reloadAccessToken()) {
+      response = await send(url, init, api, cost, idempotent)
+    }
+
+    const callLimit = parseCallLimit(response.headers.get('x-shopify-shop-api-call-limit'))
+    if (callLimit) {
+      restBucket.update({ available: callLimit.max - callLimit.used, capacity: callLimit.max })
+      tracker?.observe('shopify', { callLimit: `${callLimit.used}/${callLimit.max}` })
+    }
+
+    if (!response.ok) {
+      const body = await response.text()
+      throw new ShopifyApiError(
+        `Shopify request failed (${response.status}): ${url}`,
+        response.status,
+        body
+      )
+    }
+
+    return {
+      data: await response.json(),
+      nextUrl: getNextPageUrl(response.headers.get('link')),
+    }
+  }
+
+  function buildUrl(path: string, query: Record<string, string> = {}): string {
+    const url = new URL(`${baseUrl}${path}`)
+    for (const [key, value] of Object.entries(query)) {
+      url.searchParams.set(key, value)
+    }
+    return url.toString()
+  }
+
+  /**
+   * Run a GraphQL query, waiting out THROTTLED responses
+   * `cost` is the expected query cost reserved from the store's bucket.
+   * Queries are retried on 5xx responses like GETs; mutations are not.
+   */
+  async function graphql<T>(
+    query: string,
+    variables: Record<string, unknown> = {},
+    cost = DEFAULT_QUERY_COST
+  ): Promise<T> {
+    const idempotent = !isMutation(query)
+
+    for (let attempt = 0; ; attempt++) {
+      const { data: result } = await fetchJson<ShopifyGraphqlResponse<T>>(
+        buildUrl('/graphql.json'),
+        { method: 'POST', body: JSON.stringify({ query, variables }) },
+        'shopify_graphql',
+        cost,
+        idempotent
+      )
+
+      const throttle = result.extensions?.cost?.throttleStatus
+      if (throttle) {
+        graphqlBucket.update({
+          available: throttle.currentlyAvailable,
+          capacity: throttle.maximumAvailable,
+          refillPerSecond: throttle.restoreRate,
+        })
+        tracker?.observe('shopify_graphql', { ...throttle })
+      }
+
+      const throttled = result.errors?.some(error => error.extensions?.code === 'THROTTLED')
+      if (throttled && attempt < MAX_RETRIES) {
+        tracker?.retried('shopify_graphql', 429)
+        const requested = result.extensions?.cost?.requestedQueryCost ?? cost
+        await sleep(throttle
+          ? Math.ceil(((requested - throttle.currentlyAvailable) / throttle.restoreRate) * 1000)
+          : retryDelayMs(attempt, null))
+        continue
+      }
+
+      if (result.errors?.length || !result.data) {
+        throw new ShopifyApiError(
+          `Shopify GraphQL request failed: ${result.errors?.map(error => error.message).join('; ') ?? 'no data'}`,
+          200,
+          JSON.stringify(result.errors ?? [])
+        )
+      }
+
+      return result.data
+    }
+  }
+
+  return {
+    /**
+     * GET a single resource
+     */
+    async get<T>(path: string, query?: Record<string, string>): Promise<T> {
+      const { data } = await fetchJson<T>(buildUrl(path, query))
+      return data
+    },
+
+    /**
+     * POST a JSON body
+     */
+    async post<T>(path: string, body: unknown): Promise<T> {
+      const { data } = await fetchJson<T>(buildUrl(path), {
+        method: 'POST',
+        body: JSON.stringify(body),
+      })
+      return data
+    },
+
+    /**
+     * GET every page of a list resource, following Link headers
+     * `key` is the property holding the list (e.g. "orders")
+     */
+    async getAll<T>(path: string, key: string, query: Record<string, string> = {}): Promise<T[]> {
+      const items: T[] = []
+      let url: string | null = buildUrl(path, { limit: '250', ...query })
+
+      while (url) {
+        const page: { data: Record<string, T[]>; nextUrl: string | null } =
+          await fetchJson<Record<string, T[]>>(url)
+        items.push(...(page.data[key] ?? []))
+        url = page.nextUrl
+      }
+
+      return items
+    },
+
+    graphql,
+
+    /**
+     * Run a paginated GraphQL query to the end
+     * The query takes a `$cursor: String` variable; `select` picks the
+     * connection (with `nodes` and `pageInfo`) from the response.
+     */
+    async graphqlAll<T, R>(
+      query: string,
+      select: (data: R) => ShopifyConnection<T>,
+      variables: Record<string, unknown> = {},
+      cost?: number
+    ): Promise<T[]> {
+      const items: T[] = []
+      let cursor: string | null = null
+
+      do {
+        const connection: ShopifyConnection<T> = select(await graphql<R>(query, { ...variables, cursor }, cost))
+        items.push(...connection.nodes)
+        cursor = connection.pageInfo.hasNextPage ? connection.pageInfo.endCursor : null
+      } while (cursor)
+
+      return items
+    },
+  }
+}
+
+export type ShopifyClient = ReturnType<typeof createShopifyClient>
@@ -0,0 +1,217 @@
+/**
+ * Shopify Payload Normalization
+ *
+ * Orders and products keep Shopify's payload in rawJson. These helpers
+ * reduce it to the fields the portal shows (camelCase, no API noise)
+ * and derive the searchable order columns.
+ */
+
+import type {
+  ShopifyAddress,
+  ShopifyLineItem,
+  ShopifyOrder,
+  ShopifyProduct,
+  ShopifyTaxLine,
+  ShopifyVariant,
+} from '@/lib/shopify/types'
+
+export interface NormalizedTaxLine {
+  title: string
+  rate: number
+  amount: string
+}
+
+export interface NormalizedAddress {
+  name: string | null
+  company: string | null
+  address1: string | null
+  address2: string | null
+  zip: string | null
+  city: string | null
+  countryCode: string | null
+  phone: string | null
+}
+
+export interface NormalizedOrderLine {
+  id: string
+  sku: string | null
+  title: string
+  variantTitle: string | null
+  quantity: number
+  price: string
+  discount: string
+  taxLines: NormalizedTaxLine[]
+}
+
+export interface NormalizedOrder {
+  id: string
+  name: string
+  createdAt: string
+  processedAt: string | null
+  cancelledAt: string | null
+  financialStatus: string | null
+  fulfillmentStatus: string | null
+  currency: string
+  totalPrice: string
+  subtotalPrice: string
+  totalTax: string
+  taxesIncluded: boolean
+  paymentGateways: string[]
+  customer: { id: string | null; name: string | null; email: string | null }
+  billingAddress: NormalizedAddress | null
+  shippingAddress: NormalizedAddress | null
+  lines: NormalizedOrderLine[]
+  shipping: Array<{ title: string; price: string; taxLines: NormalizedTaxLine[] }>
+  refunds: Array<{ id: string; createdAt: string; note: string | null; lines: number }>
+  attributes: Record<string, string | null>
+}
+
+export interface NormalizedProduct {
+  productId: string
+  variantId: string
+  title: string
+  variantTitle: string | null
+  status: string
+  vendor: string | null
+  productType: string | null
+  sku: string | null
+  barcode: string | null
+  price: string
+  inventoryQuantity: number | null
+  updatedAt: string
+}
+
+// What a products row keeps in rawJson: one variant with its product
+export interface StoredProductPayload {
+  product: Omit<ShopifyProduct, 'variants'>
+  variant: ShopifyVariant
+}
+
+function taxLines(lines: ShopifyTaxLine[] | undefined): NormalizedTaxLine[] {
+  return (lines ?? []).map(line => ({ title: line.title, rate: line.rate, amount: line.price }))
+}
+
+function address(value: ShopifyAddress | null): NormalizedAddress | null {
+  if (!value) {
+    return null
+  }
+
+  return {
+    name: value.name ?? null,
+    company: value.company ?? null,
+    address1: value.address1 ?? null,
+    address2: value.address2 ?? null,
+    zip: value.zip ?? null,
+    city: value.city ?? null,
+    countryCode: value.country_code ?? null,
+    phone: value.phone ?? null,
+  }
+}
+
+function orderLine(line: ShopifyLineItem): NormalizedOrderLine {
+  return {
+    id: String(line.id),
+    sku: line.sku || null,
+    title: line.title,
+    variantTitle: line.variant_title || null,
+    quantity: line.quantity,
+    price: line.price,
+    discount: line.total_discount,
+    taxLines: taxLines(line.tax_lines),
+  }
+}
+
+/**
+ * Display name and email of the order's customer
+ */
+export function orderCustomer(order: ShopifyOrder): { name: string | null; email: string | null } {
+  const personName = [order.customer?.first_name, order.customer?.last_name].filter(Boolean).join(' ')
+
+  return {
+    name: personName || order.billing_address?.name || order.shipping_address?.name || null,
+    email: order.customer?.email ?? order.email ?? null,
+  }
+}
+
+/**
+ * Lower-case text an order is found by: number, customer, SKUs and titles
+ */
+export function orderSearchText(order: ShopifyOrder): string {
+  const customer = orderCustomer(order)
+
+  return [
+    order.name,
+    String(order.order_number),
+    customer.name,
+    customer.email,
+    order.billing_address?.company,
+    ...order.line_items.flatMap(line => [line.sku, line.title, line.variant_title]),
+  ]
+    .filter(Boolean)
+    .join(' ')
+    .toLowerCase()
+}
+
+/**
+ * The portal's view of a stored order payload
+ */
+export function normalizeOrder(order: ShopifyOrder): NormalizedOrder {
+  const customer = orderCustomer(order)
+
+  return {
+    id: String(order.id),
+    name: order.name,
+    createdAt: order.created_at,
+    processedAt: order.processed_at,
+    cancelledAt: order.cancelled_at,
+    financialStatus: order.financial_status,
+    fulfillmentStatus: order.fulfillment_status,
+    currency: order.currency,
+    totalPrice: order.total_price,
+    subtotalPrice: order.subtotal_price,
+    totalTax: order.total_tax,
+    taxesIncluded: order.taxes_included,
+    paymentGateways: order.payment_gateway_names ?? [],
+    customer: {
+      id: order.customer ? String(order.customer.id) : null,
+      ...customer,
+    },
+    billingAddress: address(order.billing_address),
+    shippingAddress: address(order.shipping_address),
+    lines: order.line_items.map(orderLine),
+    shipping: order.shipping_lines.map(line => ({
+      title: line.title,
+      price: line.discounted_price ?? line.price,
+      taxLines: taxLines(line.tax_lines),
+    })),
+    refunds: (order.refunds ?? []).map(refund => ({
+      id: String(refund.id),
+      createdAt: refund.created_at,
+      note: refund.note,
+      lines: refund.refund_line_items.length,
+    })),
+    attributes: Object.fromEntries((order.note_attributes ?? []).map(note => [note.name, note.value])),
+  }
+}
+
+/**
+ * The portal's view of a stored product payload
+ */
+export function normalizeProduct(raw: StoredProductPayload): NormalizedProduct {
+  const { product, variant } = raw
+
+  return {
+    productId: String(product.id),
+    variantId: String(variant.id),
+    title: product.title,
+    variantTitle: variant.title && variant.title !== 'Default Title' ? variant.title : null,
+    status: product.status,
+    vendor: product.vendor,
+    productType: product.product_type,
+    sku: variant.sku || null,
+    barcode: variant.barcode,
+    price: variant.price,
+    inventoryQuantity: variant.inventory_quantity,
+    updatedAt: product.updated_at,
+  }
+}
@@ -0,0 +1,238 @@
+/**
+ * Shopify OAuth
+ *
+ * App installation flow for Shopify stores: shop domain validation,
+ * HMAC verification, token exchange and store connection state.
+ * Access tokens are encrypted at rest by the Prisma client.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto'
+import { prisma } from '@/lib/prisma'
+
+export const SHOPIFY_API_VERSION = '2025-01'
+
+// Scopes required by the sync engine
+export const SHOPIFY_SCOPES = [
+  'read_orders',
+  'read_products',
+  'read_inventory',
+  'read_customers',
+]
+
+// Cookie holding the OAuth state during the redirect
+export const SHOPIFY_STATE_COOKIE = 'shopify_oauth_state'
+
+const SHOP_DOMAIN_REGEX = /^[a-z0-9][a-z0-9-]*\.myshopify\.com$/
+
+export class ShopifyAuthError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ShopifyAuthError'
+  }
+}
+
+function getAppCredentials() {
+  const apiKey = process.env.SHOPIFY_API_KEY
+  const apiSecret = process.env.SHOPIFY_API_SECRET
+
+  if (!apiKey || !apiSecret) {
+    throw new Error('Shopify integration is not configured')
+  }
+
+  return { apiKey, apiSecret }
+}
+
+function getRedirectUrl(): string {
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || process.env.NEXTAUTH_URL || 'http://localhost:3000'
+  return new URL('/api/integrations/shopify/callback', appUrl).toString()
+}
+
+/**
+ * Normalize and validate a shop domain
+ * Accepts "my-shop", "my-shop.myshopify.com" or a full URL.
+ * Returns null if the domain is not a valid myshopify.com domain.
+ */
+export function normalizeShopDomain(input: string | null | undefined): string | null {
+  if (!input) {
+    return null
+  }
+
+  let domain = input.trim().toLowerCase()
+  domain = domain.replace(/^https?:\/\//, '').replace(/\/.*$/, '')
+
+  if (!domain.includes('.')) {
+    domain = `${domain}.myshopify.com`
+  }
+
+  return SHOP_DOMAIN_REGEX.test(domain) ? domain : null
+}
+
+/**
+ * Build the Shopify authorization URL for a shop
+ */
+export function buildInstallUrl(shopDomain: string, state: string): string {
+  const { apiKey } = getAppCredentials()
+
+  const url = new URL(`https://${shopDomain}/admin/oauth/authorize`)
+  url.searchParams.set('client_id', apiKey)
+  url.searchParams.set('scope', SHOPIFY_SCOPES.join(','))
+  url.searchParams.set('redirect_uri', getRedirectUrl())
+  url.searchParams.set('state', state)
+  return url.toString()
+}
+
+/**
+ * Verify the HMAC Shopify adds to OAuth callback query strings
+ */
+export function verifyCallbackHmac(searchParams: URLSearchParams): boolean {
+  const { apiSecret } = getAppCredentials()
+  const hmac = searchParams.get('hmac')
+
+  if (!hmac) {
+    return false
+  }
+
+  const message = Array.from(searchParams.entries())
+    .filter(([key]) => key !== 'hmac' && key !== 'signature')
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, value]) => `${key}=${value}`)
+    .join('&')
+
+  const digest = createHmac('sha256', apiSecret).update(message).digest('hex')
+
+  const actual = Buffer.from(hmac, 'utf8')
+  const expected = Buffer.from(digest, 'utf8')
+
+  return actual.length === expected.length && timingSafeEqual(actual, expected)
+}
+
+/**
+ * Exchange an authorization code for a permanent access token
+ */
+async function exchangeCode(shopDomain: string, code: string): Promise<string> {
+  const { apiKey, apiSecret } = getAppCredentials()
+
+  const response = await fetch(`https://${shopDomain}/admin/oauth/access_token`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      client_id: apiKey,
+      client_secret: apiSecret,
+      code,
+    }),
+  })
+
+  if (!response.ok) {
+    throw new ShopifyAuthError(`Shopify token exchange failed (${response.status})`)
+  }
+
+  const body: { access_token: string } = await response.json()
+  return body.access_token
+}
+
+/**
+ * Look up the shop's display name, falling back to the domain
+ */
+async function fetchShopName(shopDomain: string, accessToken: string): Promise<string> {
+  try {
+    const response = await fetch(`https://${shopDomain}/admin/api/${SHOPIFY_API_VERSION}/shop.json`, {
+      headers: { 'X-Shopify-Access-Token': accessToken },
+    })
+
+    if (response.ok) {
+      const body: { shop?: { name?: string } } = await response.json()
+      if (body.shop?.name) {
+        return body.shop.name
+      }
+    }
+  } catch (error) {
+    console.error('Shopify shop lookup error:', error)
+  }
+
+  return shopDomain.replace('.myshopify.com', '')
+}
+
+/**
+ * Complete the installation: exchange the code and store the connection
+ */
+export async function connectShopifyStore(tenantId: string, shopDomain: string, code: string) {
+  const accessToken = await exchangeCode(shopDomain, code)
+  const storeName = await fetchShopName(shopDomain, accessToken)
+
+  const [store] = await prisma.$transaction([
+    prisma.shopifyStore.upsert({
+      where: { tenantId_shopDomain: { tenantId, shopDomain } },
+      create: {
+        tenantId,
+        shopDomain,
+        storeName,
+        status: 'connected',
+        accessTokenSecret: accessToken,
+      },
+      update: {
+        storeName,
+        status: 'connected',
+        accessTokenSecret: accessToken,
+      },
+    }),
+    prisma.tenantOnboarding.upsert({
+      where: { tenantId },
+      create: { tenantId, shopifyStoreAdded: true },
+      update: { shopifyStoreAdded: true },
+    }),
+  ])
+
+  return store
+}
+
+/**
+ * Recompute onboarding state from the tenant's connected stores
+ */
+async function refreshShopifyOnboarding(tenantId: string) {
+  const connected = await prisma.shopifyStore.count({
+    where: { tenantId, status: 'connected' },
+  })
+
+  await prisma.tenantOnboarding.updateMany({
+    where: { tenantId },
+    data: { shopifyStoreAdded: connected > 0 },
+  })
+}
+
+/**
+ * Mark a store as uninstalled (app removed in Shopify)
+ * The token is already revoked by Shopify, so it is simply discarded.
+ */
+export async function markShopifyStoreUninstalled(storeId: string) {
+  const store = await prisma.shopifyStore.update({
+    where: { id: storeId },
+    data: { status: 'disconnected', accessTokenSecret: null },
+  })
+
+  await refreshShopifyOnboarding(store.tenantId)
+
+  return store
+}
+
+/**
+ * Disconnect a store from Koppling
+ * Revokes the access token in Shopify (best effort) before discarding it.
+ */
+export async function disconnectShopifyStore(storeId: string) {
+  const store = await prisma.shopifyStore.findUniqueOrThrow({
+    where: { id: storeId },
+  })
+
+  if (store.accessTokenSecret) {
+    try {
+      await fetch(`https://${store.shopDomain}/admin/api_permissions/current.json`, {
+        method: 'DELETE',
+        headers: { 'X-Shopify-Access-Token': store.accessTokenSecret },
+      })
+    } catch (error) {
+      console.error('Shopify token revoke error:', error)
+    }
+  }
+
+  return markShopifyStoreUninstalled(store.id)
+}
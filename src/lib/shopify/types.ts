@@ -0,0 +1,145 @@
+/**
+ * Shopify Admin API Types
+ *
+ * Subset of the REST Admin API resources used by the sync engine
+ */
+
+export interface ShopifyTaxLine {
+  title: string
+  price: string
+  rate: number
+}
+
+export interface ShopifyDiscountAllocation {
+  amount: string
+}
+
+export interface ShopifyLineItem {
+  id: number
+  product_id: number | null
+  variant_id: number | null
+  sku: string | null
+  title: string
+  variant_title: string | null
+  quantity: number
+  price: string
+  total_discount: string
+  discount_allocations?: ShopifyDiscountAllocation[]
+  taxable: boolean
+  tax_lines: ShopifyTaxLine[]
+}
+
+export interface ShopifyShippingLine {
+  id: number
+  title: string
+  price: string
+  discounted_price?: string
+  tax_lines: ShopifyTaxLine[]
+}
+
+export interface ShopifyAddress {
+  name?: string | null
+  company?: string | null
+  address1?: string | null
+  address2?: string | null
+  zip?: string | null
+  city?: string | null
+  country_code?: string | null
+  phone?: string | null
+}
+
+export interface ShopifyCustomer {
+  id: number
+  email: string | null
+  first_name: string | null
+  last_name: string | null
+  phone?: string | null
+}
+
+export interface ShopifyNoteAttribute {
+  name: string
+  value: string | null
+}
+
+export interface ShopifyRefundLineItem {
+  id: number
+  line_item_id: number
+  quantity: number
+  // Refunded amount for the line, taxed like the order's prices
+  subtotal: string
+  total_tax: string
+  line_item: ShopifyLineItem
+}
+
+export interface ShopifyOrderAdjustment {
+  id: number
+  kind: 'shipping_refund' | 'refund_discrepancy'
+  // Negative for money returned to the customer
+  amount: string
+  tax_amount: string
+}
+
+export interface ShopifyRefund {
+  id: number
+  created_at: string
+  note: string | null
+  refund_line_items: ShopifyRefundLineItem[]
+  order_adjustments: ShopifyOrderAdjustment[]
+  transactions: ShopifyTransaction[]
+}
+
+export interface ShopifyOrder {
+  id: number
+  name: string
+  order_number: number
+  email: string | null
+  currency: string
+  created_at: string
+  updated_at: string
+  processed_at: string | null
+  cancelled_at: string | null
+  closed_at: string | null
+  financial_status: string | null
+  fulfillment_status: string | null
+  total_price: string
+  subtotal_price: string
+  total_tax: string
+  taxes_included: boolean
+  payment_gateway_names: string[]
+  customer: ShopifyCustomer | null
+  note_attributes?: ShopifyNoteAttribute[]
+  billing_address: ShopifyAddress | null
+  shipping_address: ShopifyAddress | null
+  line_items: ShopifyLineItem[]
+  shipping_lines: ShopifyShippingLine[]
+  refunds?: ShopifyRefund[]
+}
+
+export interface ShopifyTransaction {
+  id: number
+  kind: 'authorization' | 'capture' | 'sale' | 'void' | 'refund'
+  status: 'pending' | 'failure' | 'success' | 'error'
+  gateway: string
+  amount: string
+  processed_at?: string | null
+}
+
+export interface ShopifyVariant {
+  id: number
+  product_id: number
+  title: string
+  sku: string | null
+  barcode: string | null
+  price: string
+  inventory_quantity: number | null
+}
+
+export interface ShopifyProduct {
+  id: number
+  title: string
+  status: 'active' | 'draft' | 'archived'
+  vendor: string | null
+  product_type: string | null
+  updated_at: string
+  variants: ShopifyVariant[]
+}
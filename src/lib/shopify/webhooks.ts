@@ -0,0 +1,180 @@
+/**
+ * Shopify Webhooks
+ *
+ * Webhook registration, HMAC verification and topic handlers.
+ * Every delivery is logged as a `webhooks` SyncJob for the store's tenant.
+ * Deliveries are deduplicated per store, so when one of several stores
+ * on a shop fails, Shopify's retry only re-runs that store.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto'
+import { prisma } from '@/lib/prisma'
+import { Prisma } from '@/generated/prisma'
+import { createShopifyClient, ShopifyStoreCredentials } from '@/lib/shopify/client'
+import { markShopifyStoreUninstalled } from '@/lib/shopify/oauth'
+import type { ShopifyOrder, ShopifyProduct } from '@/lib/shopify/types'
+import { upsertShopifyOrder } from '@/lib/sync/orders'
+import { upsertShopifyProduct } from '@/lib/sync/products'
+import { completeSyncJob, failSyncJob, startSyncJob } from '@/lib/sync/jobs'
+import { forgetWebhookEvent, recordWebhookEvent } from '@/lib/webhook-events'
+
+export const SHOPIFY_WEBHOOK_TOPICS = [
+  'orders/create',
+  'orders/updated',
+  'products/update',
+  'app/uninstalled',
+] as const
+
+export type ShopifyWebhookTopic = typeof SHOPIFY_WEBHOOK_TOPICS[number]
+
+export interface ShopifyWebhookResult {
+  applied: number
+  // Stores that had already processed this delivery
+  duplicates: number
+}
+
+export interface ShopifyWebhookDelivery {
+  topic: string
+  shopDomain: string
+  webhookId: string
+  payload: unknown
+}
+
+/**
+ * Verify the X-Shopify-Hmac-Sha256 header against the raw request body
+ */
+export function verifyWebhookHmac(rawBody: string, hmacHeader: string | null): boolean {
+  const secret = process.env.SHOPIFY_API_SECRET
+
+  if (!secret || !hmacHeader) {
+    return false
+  }
+
+  const digest = createHmac('sha256', secret).update(rawBody, 'utf8').digest('base64')
+
+  const actual = Buffer.from(hmacHeader, 'utf8')
+  const expected = Buffer.from(digest, 'utf8')
+
+  return actual.length === expected.length && timingSafeEqual(actual, expected)
+}
+
+/**
+ * Subscribe a store to the webhook topics the sync engine handles
+ */
+export async function registerShopifyWebhooks(store: ShopifyStoreCredentials): Promise<void> {
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || process.env.NEXTAUTH_URL || 'http://localhost:3000'
+  const address = new URL('/api/webhooks/shopify', appUrl).toString()
+  const client = createShopifyClient(store)
+
+  for (const topic of SHOPIFY_WEBHOOK_TOPICS) {
+    await client.post('/webhooks.json', {
+      webhook: { topic, address, format: 'json' },
+    })
+  }
+}
+
+/**
+ * Apply a delivery to one store
+ * Returns the counts and details recorded on the webhooks SyncJob.
+ */
+async function applyToStore(
+  store: { id: string; tenantId: string },
+  delivery: ShopifyWebhookDelivery
+): Promise<{ created: number; updated: number; details: Prisma.InputJsonObject }> {
+  switch (delivery.topic) {
+    case 'orders/create':
+    case 'orders/updated': {
+      const order = delivery.payload as ShopifyOrder
+      const result = await upsertShopifyOrder(store.tenantId, store.id, order)
+      return {
+        created: result.created ? 1 : 0,
+        updated: result.created ? 0 : 1,
+        details: { orderId: result.order.id, shopifyOrderId: String(order.id) },
+      }
+    }
+
+    case 'products/update': {
+      const product = delivery.payload as ShopifyProduct
+      const result = await upsertShopifyProduct(store.tenantId, store.id, product)
+      return {
+        created: result.created,
+        updated: result.updated,
+        details: { shopifyProductId: String(product.id) },
+      }
+    }
+
+    case 'app/uninstalled': {
+      await markShopifyStoreUninstalled(store.id)
+      return { created: 0, updated: 1, details: { storeStatus: 'disconnected' } }
+    }
+
+    default:
+      return { created: 0, updated: 0, details: { ignored: true } }
+  }
+}
+
+// Dedupe key of a delivery for one store
+function storeDeliveryId(webhookId: string, storeId: string): string {
+  return `${webhookId}:${storeId}`
+}
+
+/**
+ * Handle a verified delivery for every tenant connected to the shop
+ * Stores that fail are forgotten for this delivery and the first error
+ * is rethrown after the other stores have run, so the retry picks up
+ * only the failed ones.
+ */
+export async function handleShopifyWebhook(delivery: ShopifyWebhookDelivery): Promise<ShopifyWebhookResult> {
+  const stores = await prisma.shopifyStore.findMany({
+    where: { shopDomain: delivery.shopDomain },
+    select: { id: true, tenantId: true, status: true },
+  })
+
+  const result: ShopifyWebhookResult = { applied: 0, duplicates: 0 }
+  const errors: unknown[] = []
+
+  for (const store of stores) {
+    // Uninstalled stores only still receive the uninstall itself
+    if (store.status !== 'connected' && delivery.topic !== 'app/uninstalled') {
+      continue
+    }
+
+    const deliveryId = storeDeliveryId(delivery.webhookId, store.id)
+    if (!(await recordWebhookEvent('shopify', deliveryId, delivery.topic))) {
+      result.duplicates++
+      continue
+    }
+
+    const summary = {
+      topic: delivery.topic,
+      webhookId: delivery.webhookId,
+      shopDomain: delivery.shopDomain,
+      storeId: store.id,
+    }
+    let jobId: string | null = null
+
+    try {
+      const job = await startSyncJob(store.tenantId, 'webhooks')
+      jobId = job.id
+      const applied = await applyToStore(store, delivery)
+      await completeSyncJob(job.id, {
+        createdCount: applied.created,
+        updatedCount: applied.updated,
+        summary: { ...summary, ...applied.details },
+      })
+      result.applied++
+    } catch (error) {
+      if (jobId) {
+        await failSyncJob(jobId, error, summary)
+      }
+      await forgetWebhookEvent('shopify', deliveryId)
+      errors.push(error)
+    }
+  }
+
+  if (errors.length > 0) {
+    throw errors[0]
+  }
+
+  return result
+}
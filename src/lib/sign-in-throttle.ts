@@ -0,0 +1,204 @@
+/**
+ * Sign-In Throttling
+ *
+ * Brute-force protection for credentials sign-in and sign-up:
+ * - sign-in attempts are counted per email and per IP in a 15 minute
+ *   window before the password is checked; a successful sign-in gives
+ *   its attempt back
+ * - after a couple of free attempts each further one is delayed, doubling
+ *   up to a cap
+ * - attempts past the limit lock the email (or IP) out for 15 minutes
+ * - sign-ups are limited per IP
+ * - password reset and verification emails are limited per address and IP
+ *
+ * Sign-in attempts are written to the audit log.
+ */
+
+import { prisma } from '@/lib/prisma'
+import { getRateLimitStore } from '@/lib/rate-limit'
+
+export const SIGN_IN_WINDOW_MS = 15 * 60 * 1000
+export const SIGN_IN_LOCKOUT_MS = 15 * 60 * 1000
+export const MAX_FAILURES_PER_EMAIL = 5
+export const MAX_FAILURES_PER_IP = 20
+
+export const SIGN_UP_WINDOW_MS = 60 * 60 * 1000
+export const MAX_SIGN_UPS_PER_IP = 5
+
+export const EMAIL_REQUEST_WINDOW_MS = 60 * 60 * 1000
+export const MAX_EMAIL_REQUESTS_PER_ADDRESS = 3
+export const MAX_EMAIL_REQUESTS_PER_IP = 10
+
+// Failures before delays kick in, and the delay range
+const FREE_ATTEMPTS = 2
+const BASE_DELAY_MS = 1000
+const MAX_DELAY_MS = 8000
+
+export class TooManyAttemptsError extends Error {
+  constructor(public retryAfterMs: number) {
+    super(`Too many attempts. Try again in ${Math.max(1, Math.ceil(retryAfterMs / 60_000))} minutes.`)
+    this.name = 'TooManyAttemptsError'
+  }
+}
+
+export type EmailRequestKind = 'password_reset' | 'verify_email'
+
+export type SignInAuditAction = 'sign_in_succeeded' | 'sign_in_failed' | 'sign_in_locked'
+
+function emailKey(email: string) {
+  return `signin:email:${email.trim().toLowerCase()}`
+}
+
+function ipKey(ip: string) {
+  return `signin:ip:${ip}`
+}
+
+function signInKeys(email: string, ip: string | null) {
+  return ip ? [emailKey(email), ipKey(ip)] : [emailKey(email)]
+}
+
+/**
+ * Client IP from request headers (first x-forwarded-for hop)
+ */
+export function getClientIp(headers: Headers | Record<string, unknown> | undefined): string | null {
+  const read = (name: string) => {
+    const value = headers instanceof Headers ? headers.get(name) : headers?.[name]
+    return typeof value === 'string' ? value : null
+  }
+
+  return read('x-forwarded-for')?.split(',')[0].trim() || read('x-real-ip') || null
+}
+
+/**
+ * Delay after `failures` earlier attempts in the current window
+ */
+export function progressiveDelayMs(failures: number): number {
+  if (failures <= FREE_ATTEMPTS) {
+    return 0
+  }
+  return Math.min(BASE_DELAY_MS * 2 ** (failures - FREE_ATTEMPTS - 1), MAX_DELAY_MS)
+}
+
+/**
+ * Count a sign-in attempt against the email and IP before the password
+ * is checked
+ * The counters are incremented atomically, so parallel attempts cannot
+ * all slip in under the limit. Throws once the email or IP is locked
+ * out or over its limit (locking it); otherwise waits out the progressive
+ * delay for the earlier attempts in the window.
+ */
+export async function throttleSignIn(email: string, ip: string | null): Promise<void> {
+  const store = getRateLimitStore()
+  const keys = signInKeys(email, ip)
+  const now = Date.now()
+
+  const states = await Promise.all(keys.map(key => store.get(key)))
+  const lockedUntil = Math.max(0, ...states.map(state => state?.lockedUntil?.getTime() ?? 0))
+  if (lockedUntil > now) {
+    throw new TooManyAttemptsError(lockedUntil - now)
+  }
+
+  const counts = await Promise.all(keys.map(async key => (await store.increment(key, SIGN_IN_WINDOW_MS)).count))
+  const limits = [MAX_FAILURES_PER_EMAIL, MAX_FAILURES_PER_IP]
+  const overLimit = keys.filter((_, index) => counts[index] > limits[index])
+
+  if (overLimit.length > 0) {
+    await Promise.all(overLimit.map(key => store.lock(key, new Date(now + SIGN_IN_LOCKOUT_MS))))
+    throw new TooManyAttemptsError(SIGN_IN_LOCKOUT_MS)
+  }
+
+  // Delay by the attempts before this one
+  const delayMs = progressiveDelayMs(Math.max(...counts) - 1)
+  if (delayMs > 0) {
+    await new Promise(resolve => setTimeout(resolve, delayMs))
+  }
+}
+
+/**
+ * Take back an attempt that was not a failed guess (the password was
+ * right but a second factor is still needed)
+ */
+export async function releaseSignInAttempt(email: string, ip: string | null): Promise<void> {
+  const store = getRateLimitStore()
+  await Promise.all(signInKeys(email, ip).map(key => store.decrement(key)))
+}
+
+/**
+ * Clear the email's attempts after a successful sign-in
+ * The IP only gets this attempt back, so one valid account cannot reset
+ * a spraying IP.
+ */
+export async function recordSignInSuccess(email: string, ip: string | null): Promise<void> {
+  const store = getRateLimitStore()
+  await store.reset(emailKey(email))
+  if (ip) {
+    await store.decrement(ipKey(ip))
+  }
+}
+
+/**
+ * Count a sign-up from the IP; throws past the hourly limit
+ */
+export async function throttleSignUp(ip: string | null): Promise<void> {
+  if (!ip) {
+    return
+  }
+
+  const state = await getRateLimitStore().increment(`signup:ip:${ip}`, SIGN_UP_WINDOW_MS)
+
+  if (state.count > MAX_SIGN_UPS_PER_IP) {
+    throw new TooManyAttemptsError(state.windowStart.getTime() + SIGN_UP_WINDOW_MS - Date.now())
+  }
+}
+
+/**
+ * Count a request for a password reset or verification email; throws
+ * past the hourly limit for the address or the IP
+ * Counted whether or not the account exists, so the limit reveals nothing.
+ */
+export async function throttleEmailRequest(kind: EmailRequestKind, email: string, ip: string | null): Promise<void> {
+  const store = getRateLimitStore()
+  const limits: Array<[string, number]> = [
+    [`${kind}:email:${email.trim().toLowerCase()}`, MAX_EMAIL_REQUESTS_PER_ADDRESS],
+    ...(ip ? [[`${kind}:ip:${ip}`, MAX_EMAIL_REQUESTS_PER_IP] as [string, number]] : []),
+  ]
+
+  for (const [key, max] of limits) {
+    const state = await store.increment(key, EMAIL_REQUEST_WINDOW_MS)
+    if (state.count > max) {
+      throw new TooManyAttemptsError(state.windowStart.getTime() + EMAIL_REQUEST_WINDOW_MS - Date.now())
+    }
+  }
+}
+
+/**
+ * Write a sign-in attempt to the audit log
+ */
+export async function auditSignIn(entry: {
+  action: SignInAuditAction
+  email: string
+  ipAddress: string | null
+  user?: { id: string; tenantId: string | null } | null
+  reason?: string
+}): Promise<void> {
+  try {
+    await prisma.auditLog.create({
+      data: {
+        tenantId: entry.user?.tenantId ?? null,
+        userId: entry.user?.id ?? null,
+        entityType: 'user',
+        entityId: entry.user?.id ?? null,
+        action: entry.action,
+        changesJson: {
+          email: entry.email,
+          ...(entry.reason ? { reason: entry.reason } : {}),
+        },
+        source: 'ui',
+        ipAddress: entry.ipAddress,
+      },
+    })
+  } catch (error) {
+    // Never block sign-in on audit failures
+    console.error('Sign-in audit error:', error)
+  }
+}
@@ -0,0 +1,13 @@
+/**
+ * Stripe Client
+ *
+ * Creates a Stripe client from the platform's Stripe credentials
+ */
+
+import Stripe from 'stripe'
+import { getStripeConfig } from '@/lib/platform-settings'
+
+export async function getStripe(): Promise<Stripe> {
+  const { secretKey } = await getStripeConfig()
+  return new Stripe(secretKey)
+}
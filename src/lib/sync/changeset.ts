@@ -0,0 +1,112 @@
+/**
+ * Sync Changesets
+ *
+ * Records what a sync run changed so it can be rolled back: the Fortnox
+ * documents it created or updated, and the local orders/products rows
+ * as they looked before the run.
+ */
+
+import { prisma } from '@/lib/prisma'
+import { Prisma } from '@/generated/prisma'
+
+export type ChangeEntityType =
+  | 'order'
+  | 'product'
+  | 'fortnox_invoice'
+  | 'fortnox_invoice_payment'
+  | 'fortnox_article'
+
+export type ChangeAction = 'created' | 'updated'
+
+export interface ChangeRecorder {
+  record(
+    entityType: ChangeEntityType,
+    entityId: string,
+    action: ChangeAction,
+    before?: Prisma.InputJsonObject
+  ): Promise<void>
+}
+
+/**
+ * Create a recorder writing changes to the given job
+ * Only the first change per entity is kept: it holds the state from
+ * before the run, which is what a rollback restores.
+ */
+export function createChangeRecorder(tenantId: string, syncJobId: string): ChangeRecorder {
+  const seen = new Set<string>()
+
+  return {
+    async record(entityType, entityId, action, before) {
+      const key = `${entityType}:${entityId}`
+      if (seen.has(key)) {
+        return
+      }
+      seen.add(key)
+
+      await prisma.syncJobChange.create({
+        data: {
+          tenantId,
+          syncJobId,
+          entityType,
+          entityId,
+          action,
+          beforeJson: before ?? Prisma.JsonNull,
+        },
+      })
+    },
+  }
+}
+
+/**
+ * Restorable fields of an orders row
+ */
+export function snapshotOrder(order: {
+  orderNumber: string
+  status: string | null
+  financialStatus: string | null
+  fulfillmentStatus: string | null
+  customerRef: string | null
+  customerName: string | null
+  customerEmail: string | null
+  orderedAt: Date | null
+  searchText: string | null
+  totalAmount: Prisma.Decimal | null
+  currency: string
+  rawJson: Prisma.JsonValue
+}): Prisma.InputJsonObject {
+  return {
+    orderNumber: order.orderNumber,
+    status: order.status,
+    financialStatus: order.financialStatus,
+    fulfillmentStatus: order.fulfillmentStatus,
+    customerRef: order.customerRef,
+    customerName: order.customerName,
+    customerEmail: order.customerEmail,
+    orderedAt: order.orderedAt?.toISOString() ?? null,
+    searchText: order.searchText,
+    totalAmount: order.totalAmount?.toString() ?? null,
+    currency: order.currency,
+    rawJson: order.rawJson as Prisma.InputJsonValue,
+  }
+}
+
+/**
+ * Restorable fields of a products row
+ */
+export function snapshotProduct(product: {
+  sku: string | null
+  title: string
+  status: string
+  price: Prisma.Decimal | null
+  inventory: number | null
+  rawJson: Prisma.JsonValue
+}): Prisma.InputJsonObject {
+  return {
+    sku: product.sku,
+    title: product.title,
+    status: product.status,
+    price: product.price?.toString() ?? null,
+    inventory: product.inventory,
+    rawJson: product.rawJson as Prisma.InputJsonValue,
+  }
+}
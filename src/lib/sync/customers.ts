@@ -0,0 +1,253 @@
+/**
+ * Customer Strategy
+ *
+ * How orders are assigned to Fortnox customers (SyncSettings.customerMode):
+ * - collective: every order is invoiced to one shared customer
+ *   ("Webshop Kund"), created in Fortnox if it is missing. Its number is
+ *   kept in SyncSettings.collectiveCustomerNumber.
+ * - per_customer: each Shopify customer gets their own Fortnox customer,
+ *   matched by organisation number, then email, or created. Billing
+ *   address changes are pushed to Fortnox. Required for B2B invoicing.
+ *
+ * Orders without a Shopify customer always use the collective customer.
+ */
+
+import { createHash } from 'crypto'
+import { prisma } from '@/lib/prisma'
+import { CustomerMode } from '@/generated/prisma'
+import { createFortnoxClient, FortnoxClient } from '@/lib/fortnox/client'
+import {
+  createCustomer,
+  findCustomerByEmail,
+  findCustomerByOrganisationNumber,
+  findOrCreateCustomerByName,
+  updateCustomer,
+} from '@/lib/fortnox/customers'
+import type { FortnoxCustomer } from '@/lib/fortnox/types'
+import type { ShopifyAddress, ShopifyCustomer, ShopifyOrder } from '@/lib/shopify/types'
+import { getSyncSettings, SyncSettingsRecord } from '@/lib/sync/settings'
+
+export const CUSTOMER_MODES = Object.values(CustomerMode)
+
+export class CustomerStrategyError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CustomerStrategyError'
+  }
+}
+
+export interface ResolvedCustomer {
+  customerNumber: string
+  // True for the shared collective customer
+  collective: boolean
+}
+
+export interface CustomerResolver {
+  resolve(order: ShopifyOrder): Promise<ResolvedCustomer>
+}
+
+// Checkout note attributes that hold the buyer's organisation number
+// ("Org.nr", "Organisationsnummer", "Organization number", ...)
+const ORG_NUMBER_ATTRIBUTE = /^org[a-z]*[\s._-]*(nr|nummer|number|no)$/i
+
+/**
+ * Check if a value is a supported customer mode
+ */
+export function isCustomerMode(value: unknown): value is CustomerMode {
+  return CUSTOMER_MODES.includes(value as CustomerMode)
+}
+
+/**
+ * Swedish organisation number from the order's note attributes, as
+ * NNNNNN-NNNN, or null
+ */
+export function extractOrgNumber(order: ShopifyOrder): string | null {
+  const attribute = order.note_attributes?.find(note => ORG_NUMBER_ATTRIBUTE.test(note.name.trim()))
+  const digits = attribute?.value?.replace(/\D/g, '') ?? ''
+  // Drop the century from 12-digit numbers
+  const number = digits.length === 12 ? digits.slice(2) : digits
+
+  return number.length === 10 ? `${number.slice(0, 6)}-${number.slice(6)}` : null
+}
+
+function addressFields(address: ShopifyAddress | null): Partial<FortnoxCustomer> {
+  const fields: Partial<FortnoxCustomer> = {
+    Address1: address?.address1 ?? undefined,
+    Address2: address?.address2 ?? undefined,
+    ZipCode: address?.zip ?? undefined,
+    City: address?.city ?? undefined,
+    CountryCode: address?.country_code ?? undefined,
+    Phone1: address?.phone ?? undefined,
+  }
+
+  return Object.fromEntries(Object.entries(fields).filter(([, value]) => value)) as Partial<FortnoxCustomer>
+}
+
+function hashAddress(fields: Partial<FortnoxCustomer>): string {
+  return createHash('sha256').update(JSON.stringify(fields)).digest('hex')
+}
+
+/**
+ * Map the order's customer onto a Fortnox customer
+ */
+export function buildFortnoxCustomer(order: ShopifyOrder, customer: ShopifyCustomer): FortnoxCustomer {
+  const address = order.billing_address ?? order.shipping_address
+  const orgNr = extractOrgNumber(order)
+  const email = customer.email ?? order.email
+  const personName = [customer.first_name, customer.last_name].filter(Boolean).join(' ')
+
+  const name = (orgNr && address?.company)
+    || address?.name
+    || personName
+    || email
+    || `Shopify customer ${customer.id}`
+
+  return {
+    Name: name,
+    Type: orgNr ? 'COMPANY' : 'PRIVATE',
+    ...(email ? { Email: email } : {}),
+    ...(orgNr ? { OrganisationNumber: orgNr } : {}),
+    ...addressFields(address),
+  }
+}
+
+/**
+ * Create a resolver for one sync run
+ * Customers are cached per run; mappings are stored in customer_mappings.
+ */
+export function createCustomerResolver(
+  tenantId: string,
+  fortnox: FortnoxClient,
+  settings: SyncSettingsRecord
+): CustomerResolver {
+  let collectiveCustomerNumber = settings.collectiveCustomerNumber
+  const resolved = new Map<string, string>()
+
+  async function resolveCollective(): Promise<ResolvedCustomer> {
+    if (!collectiveCustomerNumber) {
+      collectiveCustomerNumber = await findOrCreateCustomerByName(fortnox, settings.customerTypeDefault)
+      await prisma.syncSettings.update({
+        where: { tenantId },
+        data: { collectiveCustomerNumber },
+      })
+    }
+
+    return { customerNumber: collectiveCustomerNumber, collective: true }
+  }
+
+  async function resolvePerCustomer(order: ShopifyOrder, customer: ShopifyCustomer): Promise<ResolvedCustomer> {
+    const shopifyCustomerId = String(customer.id)
+    const cached = resolved.get(shopifyCustomerId)
+    if (cached) {
+      return { customerNumber: cached, collective: false }
+    }
+
+    const fields = buildFortnoxCustomer(order, customer)
+    const address = addressFields(order.billing_address ?? order.shipping_address)
+    const addressHash = hashAddress(address)
+
+    const mapping = await prisma.customerMapping.findUnique({
+      where: { tenantId_shopifyCustomerId: { tenantId, shopifyCustomerId } },
+    })
+
+    let customerNumber = mapping?.fortnoxCustomerNumber
+    let addressSynced = mapping?.addressHash === addressHash
+
+    if (!customerNumber) {
+      const match = (fields.OrganisationNumber
+        ? await findCustomerByOrganisationNumber(fortnox, fields.OrganisationNumber)
+        : null) ?? (fields.Email ? await findCustomerByEmail(fortnox, fields.Email) : null)
+
+      if (match?.CustomerNumber) {
+        customerNumber = match.CustomerNumber
+      } else {
+        customerNumber = (await createCustomer(fortnox, fields)).CustomerNumber
+        addressSynced = true
+      }
+
+      if (!customerNumber) {
+        throw new Error(`Fortnox did not return a customer number for Shopify customer ${shopifyCustomerId}`)
+      }
+    }
+
+    if (!addressSynced && Object.keys(address).length > 0) {
+      await updateCustomer(fortnox, customerNumber, address)
+    }
+
+    const data = {
+      fortnoxCustomerNumber: customerNumber,
+      email: fields.Email ?? null,
+      orgNr: fields.OrganisationNumber ?? null,
+      addressHash,
+    }
+
+    const changed = !mapping || (Object.keys(data) as (keyof typeof data)[])
+      .some(field => mapping[field] !== data[field])
+
+    if (changed) {
+      await prisma.customerMapping.upsert({
+        where: { tenantId_shopifyCustomerId: { tenantId, shopifyCustomerId } },
+        create: { tenantId, shopifyCustomerId, ...data },
+        update: data,
+      })
+    }
+
+    resolved.set(shopifyCustomerId, customerNumber)
+    return { customerNumber, collective: false }
+  }
+
+  return {
+    async resolve(order) {
+      if (settings.customerMode === 'per_customer' && order.customer) {
+        return resolvePerCustomer(order, order.customer)
+      }
+      return resolveCollective()
+    },
+  }
+}
+
+/**
+ * Choose the customer mode and provision the collective customer
+ * The collective customer is needed in both modes (orders without a
+ * Shopify customer), so Fortnox must be connected.
+ */
+export async function configureCustomerStrategy(
+  tenantId: string,
+  options: { mode: CustomerMode; collectiveCustomerName?: string }
+) {
+  const integration = await prisma.fortnoxIntegration.findUnique({
+    where: { tenantId },
+    select: { status: true },
+  })
+
+  if (integration?.status !== 'connected') {
+    throw new CustomerStrategyError('Connect Fortnox first')
+  }
+
+  const settings = await getSyncSettings(tenantId)
+  const collectiveCustomerName = options.collectiveCustomerName?.trim() || settings.customerTypeDefault
+  const collectiveCustomerNumber = await findOrCreateCustomerByName(
+    createFortnoxClient(tenantId),
+    collectiveCustomerName
+  )
+
+  return prisma.$transaction(async (tx) => {
+    const updated = await tx.syncSettings.update({
+      where: { tenantId },
+      data: {
+        customerMode: options.mode,
+        customerTypeDefault: collectiveCustomerName,
+        collectiveCustomerNumber,
+      },
+      select: { customerMode: true, customerTypeDefault: true, collectiveCustomerNumber: true },
+    })
+
+    await tx.tenantOnboarding.upsert({
+      where: { tenantId },
+      create: { tenantId, webshopKundConfigured: true },
+      update: { webshopKundConfigured: true },
+    })
+
+    return updated
+  })
+}
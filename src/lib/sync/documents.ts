@@ -0,0 +1,228 @@
+/**
+ * Fortnox Documents
+ *
+ * Links every order to the Fortnox invoice and credit invoices created
+ * for it (fortnox_documents), and reverses invoiced orders that are
+ * refunded or cancelled in Shopify:
+ * - an order cancelled or fully refunded before any credit was made
+ *   gets a full credit of its invoice
+ * - otherwise every Shopify refund not yet credited gets a partial
+ *   credit invoice with the refunded lines and shipping
+ *
+ * Credit invoices reference the original invoice (CreditInvoiceReference),
+ * and partial credits carry the refund reference, so re-running a sync
+ * never credits a refund twice.
+ */
+
+import { prisma } from '@/lib/prisma'
+import type { CreditReason } from '@/generated/prisma'
+import type { FortnoxClient } from '@/lib/fortnox/client'
+import {
+  bookkeepInvoice,
+  createInvoice,
+  creditInvoice,
+  findInvoiceByReference,
+  findUncreditedInvoiceByReference,
+  getInvoice,
+  shopifyOrderReference,
+  shopifyRefundReference,
+} from '@/lib/fortnox/invoices'
+import type { FortnoxInvoice } from '@/lib/fortnox/types'
+import type { ShopifyOrder } from '@/lib/shopify/types'
+import type { ChangeRecorder } from '@/lib/sync/changeset'
+import { buildCreditInvoice } from '@/lib/sync/invoice-builder'
+import type { SyncSettingsRecord } from '@/lib/sync/settings'
+
+/**
+ * Check if an order has refunds or was cancelled
+ */
+export function hasReversals(order: ShopifyOrder): boolean {
+  return !!order.cancelled_at || (order.refunds?.length ?? 0) > 0
+}
+
+/**
+ * Store the link between an order and its invoice
+ */
+export async function linkInvoice(
+  tenantId: string,
+  orderId: string,
+  invoice: { DocumentNumber?: string; Total?: number }
+) {
+  if (!invoice.DocumentNumber) {
+    return null
+  }
+
+  return prisma.fortnoxDocument.upsert({
+    where: {
+      tenantId_documentType_documentNumber: {
+        tenantId,
+        documentType: 'invoice',
+        documentNumber: invoice.DocumentNumber,
+      },
+    },
+    create: {
+      tenantId,
+      orderId,
+      documentType: 'invoice',
+      documentNumber: invoice.DocumentNumber,
+      total: invoice.Total,
+    },
+    update: {},
+  })
+}
+
+async function linkCreditInvoice(
+  tenantId: string,
+  orderId: string,
+  documentNumber: string,
+  credit: {
+    creditedDocumentNumber: string
+    creditReason: CreditReason
+    fullCredit?: boolean
+    shopifyRefundIds: string[]
+    total?: number
+  }
+) {
+  await prisma.fortnoxDocument.upsert({
+    where: {
+      tenantId_documentType_documentNumber: { tenantId, documentType: 'credit_invoice', documentNumber },
+    },
+    create: { tenantId, orderId, documentType: 'credit_invoice', documentNumber, ...credit },
+    update: {},
+  })
+}
+
+/**
+ * Credit the whole invoice (Fortnox only credits booked invoices)
+ * An existing credit is reused unless it was cancelled (e.g. by a
+ * rollback), in which case the invoice is credited again.
+ */
+async function creditInFull(
+  fortnox: FortnoxClient,
+  tenantId: string,
+  orderId: string,
+  order: ShopifyOrder,
+  invoice: FortnoxInvoice,
+  recorder: ChangeRecorder
+): Promise<number> {
+  const documentNumber = invoice.DocumentNumber!
+  let creditNumber = invoice.CreditInvoiceReference
+  let created = 0
+
+  if (creditNumber && (await getInvoice(fortnox, creditNumber)).Cancelled) {
+    creditNumber = undefined
+  }
+
+  if (!creditNumber) {
+    if (!invoice.Booked) {
+      await bookkeepInvoice(fortnox, documentNumber)
+    }
+
+    creditNumber = (await creditInvoice(fortnox, documentNumber)).CreditInvoiceReference
+    if (!creditNumber) {
+      throw new Error(`Fortnox did not return a credit invoice for invoice ${documentNumber}`)
+    }
+    await recorder.record('fortnox_invoice', creditNumber, 'created')
+    created++
+  }
+
+  await linkCreditInvoice(tenantId, orderId, creditNumber, {
+    creditedDocumentNumber: documentNumber,
+    creditReason: order.cancelled_at ? 'cancellation' : 'refund',
+    fullCredit: true,
+    shopifyRefundIds: (order.refunds ?? []).map(refund => String(refund.id)),
+    total: invoice.Total === undefined ? undefined : -invoice.Total,
+  })
+
+  return created
+}
+
+/**
+ * Credit an invoiced order's refunds and cancellation in Fortnox
+ * Returns the number of credit invoices created.
+ */
+export async function creditOrder(
+  fortnox: FortnoxClient,
+  tenantId: string,
+  orderId: string,
+  order: ShopifyOrder,
+  settings: SyncSettingsRecord,
+  recorder: ChangeRecorder
+): Promise<number> {
+  const documents = await prisma.fortnoxDocument.findMany({
+    where: { tenantId, orderId },
+    orderBy: { createdAt: 'asc' },
+  })
+  const credits = documents.filter(document => document.documentType === 'credit_invoice')
+
+  if (credits.some(credit => credit.fullCredit)) {
+    return 0
+  }
+
+  const creditedRefundIds = new Set(credits.flatMap(credit => credit.shopifyRefundIds))
+  const pendingRefunds = (order.refunds ?? []).filter(refund => !creditedRefundIds.has(String(refund.id)))
+  const fullyReversed = !!order.cancelled_at || order.financial_status === 'refunded'
+  const fullCredit = fullyReversed && credits.length === 0
+
+  if (!fullCredit && pendingRefunds.length === 0) {
+    return 0
+  }
+
+  // Orders invoiced before links were stored are found by reference
+  let documentNumber = documents.find(document => document.documentType === 'invoice')?.documentNumber
+  if (!documentNumber) {
+    const existing = await findUncreditedInvoiceByReference(fortnox, shopifyOrderReference(String(order.id)))
+    if (!existing) {
+      return 0
+    }
+    await linkInvoice(tenantId, orderId, existing)
+    documentNumber = existing.DocumentNumber
+  }
+
+  const invoice = await getInvoice(fortnox, documentNumber)
+  if (invoice.Cancelled || !invoice.DocumentNumber) {
+    return 0
+  }
+
+  if (fullCredit) {
+    return creditInFull(fortnox, tenantId, orderId, order, invoice, recorder)
+  }
+
+  let created = 0
+
+  for (const refund of pendingRefunds) {
+    const draft = buildCreditInvoice(order, refund, settings, {
+      DocumentNumber: invoice.DocumentNumber,
+      CustomerNumber: invoice.CustomerNumber,
+    })
+
+    // Refunds that only restock or return nothing are not credited
+    if (draft.InvoiceRows.length === 0) {
+      continue
+    }
+
+    const existing = await findInvoiceByReference(fortnox, shopifyRefundReference(String(refund.id)))
+    let creditNumber = existing?.DocumentNumber
+    let creditTotal = existing?.Total
+
+    if (!creditNumber) {
+      const credit = await createInvoice(fortnox, draft)
+      if (!credit.DocumentNumber) {
+        throw new Error(`Fortnox did not return a credit invoice for refund ${refund.id}`)
+      }
+      await recorder.record('fortnox_invoice', credit.DocumentNumber, 'created')
+      creditNumber = credit.DocumentNumber
+      creditTotal = credit.Total
+      created++
+    }
+
+    await linkCreditInvoice(tenantId, orderId, creditNumber, {
+      creditedDocumentNumber: invoice.DocumentNumber,
+      creditReason: 'refund',
+      shopifyRefundIds: [String(refund.id)],
+      total: creditTotal,
+    })
+  }
+
+  return created
+}
@@ -0,0 +1,166 @@
+/**
+ * Invoice Builder
+ *
+ * Maps a Shopify order onto a Fortnox invoice according to the
+ * tenant's sync settings, and Shopify refunds onto credit invoices.
+ * VAT is decided by the VAT engine (vat.ts).
+ */
+
+import type { FortnoxInvoice, FortnoxInvoiceRow } from '@/lib/fortnox/types'
+import type { ShopifyLineItem, ShopifyOrder, ShopifyRefund } from '@/lib/shopify/types'
+import type { SyncSettingsRecord } from '@/lib/sync/settings'
+import type { ResolvedCustomer } from '@/lib/sync/customers'
+import { FORTNOX_VAT_TYPES, getVatSettings, reconcileInvoice, rowVat, vatTreatment } from '@/lib/sync/vat'
+import { findPaymentMethodRule, parsePaymentMethodMapping } from '@/lib/sync/payment-mapping'
+import { shopifyOrderReference, shopifyRefundReference } from '@/lib/fortnox/invoices'
+
+const DEFAULT_SHIPPING_DESCRIPTION = 'Frakt'
+const REFUND_ADJUSTMENT_DESCRIPTION = 'Justering av återbetalning'
+
+// Shopify financial statuses that should produce an invoice
+export const INVOICEABLE_FINANCIAL_STATUSES = ['paid', 'partially_refunded']
+
+function toNumber(value: string | null | undefined): number {
+  return value ? Number(value) : 0
+}
+
+function roundAmount(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+function lineDescription(item: ShopifyLineItem): string {
+  return item.variant_title ? `${item.title} - ${item.variant_title}` : item.title
+}
+
+// Discount allocations replace the deprecated total_discount
+function lineDiscount(item: ShopifyLineItem): number {
+  const allocated = item.discount_allocations?.reduce((sum, allocation) => sum + toNumber(allocation.amount), 0) ?? 0
+  return allocated > 0 ? allocated : toNumber(item.total_discount)
+}
+
+/**
+ * Check if an order should be invoiced
+ * Partially refunded orders are invoiced in full and the refund credited.
+ */
+export function isInvoiceable(order: ShopifyOrder): boolean {
+  return !order.cancelled_at && INVOICEABLE_FINANCIAL_STATUSES.includes(order.financial_status ?? '')
+}
+
+/**
+ * Build the Fortnox invoice for an order
+ * Throws VatError if the invoice would not match the order's totals.
+ */
+export function buildInvoice(
+  order: ShopifyOrder,
+  settings: SyncSettingsRecord,
+  customer: ResolvedCustomer
+): FortnoxInvoice {
+  const vat = getVatSettings(settings)
+  const treatment = vatTreatment(order, vat)
+
+  const rows: FortnoxInvoiceRow[] = order.line_items.map(item => {
+    const discount = lineDiscount(item)
+
+    return {
+      Description: lineDescription(item),
+      DeliveredQuantity: item.quantity,
+      Price: toNumber(item.price),
+      ...rowVat(item.tax_lines, item.taxable, treatment, vat),
+      ...(discount > 0 ? { Discount: discount, DiscountType: 'AMOUNT' as const } : {}),
+    }
+  })
+
+  for (const shipping of order.shipping_lines) {
+    const price = toNumber(shipping.discounted_price ?? shipping.price)
+    if (price === 0) {
+      continue
+    }
+
+    rows.push({
+      ...(settings.shippingArticleNumber ? { ArticleNumber: settings.shippingArticleNumber } : {}),
+      Description: shipping.title || DEFAULT_SHIPPING_DESCRIPTION,
+      DeliveredQuantity: 1,
+      Price: price,
+      ...rowVat(shipping.tax_lines, true, treatment, vat),
+    })
+  }
+
+  const paymentRule = findPaymentMethodRule(
+    parsePaymentMethodMapping(settings.paymentMethodMapping),
+    order.payment_gateway_names[0]
+  )
+  const termsOfPayment = paymentRule?.termsOfPayment
+
+  const invoice: FortnoxInvoice = {
+    CustomerNumber: customer.customerNumber,
+    // Per-customer invoices keep the customer's own name
+    ...(customer.collective ? { CustomerName: settings.invoiceNameOverride } : {}),
+    InvoiceDate: (order.processed_at ?? order.created_at).slice(0, 10),
+    Currency: order.currency,
+    VATIncluded: order.taxes_included,
+    VATType: FORTNOX_VAT_TYPES[treatment],
+    YourOrderNumber: order.name,
+    ExternalInvoiceReference1: shopifyOrderReference(String(order.id)),
+    ExternalInvoiceReference2: order.name,
+    ...(termsOfPayment ? { TermsOfPayment: termsOfPayment } : {}),
+    InvoiceRows: rows,
+  }
+
+  reconcileInvoice(order, invoice)
+
+  return invoice
+}
+
+/**
+ * Build a partial credit invoice for a Shopify refund
+ * Refunded lines and shipping/discrepancy adjustments become rows with
+ * negative quantities, with the VAT of the original invoice.
+ */
+export function buildCreditInvoice(
+  order: ShopifyOrder,
+  refund: ShopifyRefund,
+  settings: SyncSettingsRecord,
+  original: { DocumentNumber: string; CustomerNumber: string }
+): FortnoxInvoice {
+  const vat = getVatSettings(settings)
+  const treatment = vatTreatment(order, vat)
+
+  const rows: FortnoxInvoiceRow[] = refund.refund_line_items
+    .filter(item => item.quantity > 0 && toNumber(item.subtotal) !== 0)
+    .map(item => ({
+      Description: lineDescription(item.line_item),
+      DeliveredQuantity: -item.quantity,
+      Price: roundAmount(toNumber(item.subtotal) / item.quantity),
+      ...rowVat(item.line_item.tax_lines, item.line_item.taxable, treatment, vat),
+    }))
+
+  for (const adjustment of refund.order_adjustments) {
+    // Adjustments are negative when money is returned and exclude tax
+    const amount = -toNumber(adjustment.amount)
+    const tax = -toNumber(adjustment.tax_amount)
+    if (amount === 0) {
+      continue
+    }
+
+    rows.push({
+      Description: adjustment.kind === 'shipping_refund' ? DEFAULT_SHIPPING_DESCRIPTION : REFUND_ADJUSTMENT_DESCRIPTION,
+      DeliveredQuantity: -1,
+      Price: roundAmount(order.taxes_included ? amount + tax : amount),
+      ...rowVat([{ title: adjustment.kind, price: String(tax), rate: tax / amount }], true, treatment, vat),
+    })
+  }
+
+  return {
+    CustomerNumber: original.CustomerNumber,
+    CreditInvoiceReference: original.DocumentNumber,
+    InvoiceDate: refund.created_at.slice(0, 10),
+    Currency: order.currency,
+    VATIncluded: order.taxes_included,
+    VATType: FORTNOX_VAT_TYPES[treatment],
+    YourOrderNumber: order.name,
+    ExternalInvoiceReference1: shopifyRefundReference(String(refund.id)),
+    ExternalInvoiceReference2: order.name,
+    ...(refund.note ? { Remarks: refund.note } : {}),
+    InvoiceRows: rows,
+  }
+}
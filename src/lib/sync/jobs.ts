@@ -0,0 +1,84 @@
+/**
+ * Sync Job Helpers
+ *
+ * Lifecycle of SyncJob rows: every sync run is recorded with its
+ * counts, summary and outcome so it shows up in sync history, along
+ * with the API rate limits it ran into (api-limits.ts).
+ */
+
+import { prisma } from '@/lib/prisma'
+import { Prisma, SyncJobType } from '@/generated/prisma'
+
+export interface SyncJobResult {
+  createdCount: number
+  updatedCount: number
+  summary: Prisma.InputJsonObject
+  errorText?: string | null
+  rateLimitInfo?: Prisma.InputJsonObject
+}
+
+/**
+ * Create a running job
+ */
+export async function startSyncJob(tenantId: string, type: SyncJobType) {
+  return prisma.syncJob.create({
+    data: {
+      tenantId,
+      type,
+      status: 'running',
+      startedAt: new Date(),
+    },
+  })
+}
+
+/**
+ * Mark a job as successfully finished
+ */
+export async function completeSyncJob(jobId: string, result: SyncJobResult) {
+  return prisma.syncJob.update({
+    where: { id: jobId },
+    data: {
+      status: 'success',
+      finishedAt: new Date(),
+      createdCount: result.createdCount,
+      updatedCount: result.updatedCount,
+      summaryJson: result.summary,
+      errorText: result.errorText ?? null,
+      ...(result.rateLimitInfo ? { rateLimitInfoJson: result.rateLimitInfo } : {}),
+    },
+  })
+}
+
+/**
+ * Mark a job as failed
+ */
+export async function failSyncJob(
+  jobId: string,
+  error: unknown,
+  summary?: Prisma.InputJsonObject,
+  rateLimitInfo?: Prisma.InputJsonObject
+) {
+  return prisma.syncJob.update({
+    where: { id: jobId },
+    data: {
+      status: 'failed',
+      finishedAt: new Date(),
+      errorText: error instanceof Error ? error.message : String(error),
+      ...(summary ? { summaryJson: summary } : {}),
+      ...(rateLimitInfo ? { rateLimitInfoJson: rateLimitInfo } : {}),
+    },
+  })
+}
+
+/**
+ * Start time of the tenant's last successful job of a type
+ */
+export async function getLastSuccessfulSyncAt(tenantId: string, type: SyncJobType): Promise<Date | null> {
+  const job = await prisma.syncJob.findFirst({
+    where: { tenantId, type, status: 'success' },
+    orderBy: { createdAt: 'desc' },
+    select: { startedAt: true },
+  })
+
+  return job?.startedAt ?? null
+}
@@ -0,0 +1,155 @@
+/**
+ * Sync Locks
+ *
+ * Per-tenant database lock preventing overlapping sync runs. A lock is a
+ * row in sync_locks; it expires on its own so a crashed run cannot block
+ * the tenant forever. While a run is alive its lock is renewed by a
+ * heartbeat, and runs check that they still hold it before writing
+ * (assertSyncLockHeld), so a run that lost its lock stops instead of
+ * writing next to the run that took it over.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks'
+import { randomUUID } from 'crypto'
+import { prisma } from '@/lib/prisma'
+import { Prisma, SyncJobType } from '@/generated/prisma'
+import { withAuditSource } from '@/lib/audit'
+
+// How long a lock lives without being renewed
+const LOCK_TTL_MS = 15 * 60 * 1000
+
+// How often a running sync renews its lock
+const LOCK_HEARTBEAT_MS = 60 * 1000
+
+export const SYNC_LOCKED_REASON = 'Another sync is already running for this tenant'
+
+export class SyncLockLostError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SyncLockLostError'
+  }
+}
+
+// The lock held by the current run
+interface HeldLock {
+  tenantId: string
+  holderId: string
+  renewedAt: number
+  lost: boolean
+}
+
+const heldLockStorage = new AsyncLocalStorage<HeldLock>()
+
+/**
+ * Try to acquire the tenant's sync lock
+ * Returns a holder id on success, null if the lock is held.
+ */
+export async function acquireSyncLock(tenantId: string): Promise<string | null> {
+  const holderId = randomUUID()
+  const now = new Date()
+  const expiresAt = new Date(now.getTime() + LOCK_TTL_MS)
+
+  try {
+    await prisma.syncLock.create({
+      data: { tenantId, holderId, lockedAt: now, expiresAt },
+    })
+    return holderId
+  } catch (error) {
+    if (!(error instanceof Prisma.PrismaClientKnownRequestError) || error.code !== 'P2002') {
+      throw error
+    }
+  }
+
+  // Take over an expired lock
+  const result = await prisma.syncLock.updateMany({
+    where: { tenantId, expiresAt: { lt: now } },
+    data: { holderId, lockedAt: now, expiresAt },
+  })
+
+  return result.count === 1 ? holderId : null
+}
+
+/**
+ * Release a lock held by holderId
+ */
+export async function releaseSyncLock(tenantId: string, holderId: string): Promise<void> {
+  await prisma.syncLock.deleteMany({
+    where: { tenantId, holderId },
+  })
+}
+
+/**
+ * Extend a lock held by holderId
+ * Returns false if the lock was released or taken over.
+ */
+async function renewSyncLock(lock: HeldLock): Promise<boolean> {
+  const now = Date.now()
+  const result = await prisma.syncLock.updateMany({
+    where: { tenantId: lock.tenantId, holderId: lock.holderId },
+    data: { expiresAt: new Date(now + LOCK_TTL_MS) },
+  })
+
+  if (result.count === 1) {
+    lock.renewedAt = now
+    return true
+  }
+
+  lock.lost = true
+  return false
+}
+
+/**
+ * Throw SyncLockLostError if the current run no longer holds its lock
+ * Call before each write batch of a sync. Outside runWithSyncLock this
+ * does nothing.
+ */
+export function assertSyncLockHeld(): void {
+  const lock = heldLockStorage.getStore()
+
+  if (lock && (lock.lost || Date.now() - lock.renewedAt >= LOCK_TTL_MS)) {
+    throw new SyncLockLostError('The sync lock expired and may have been taken over by another run')
+  }
+}
+
+/**
+ * Run fn while holding the tenant's sync lock
+ * If the lock is held, a skipped SyncJob of the given type is recorded
+ * instead and returned as `skipped`. The lock is renewed every
+ * LOCK_HEARTBEAT_MS while fn runs. Writes made by fn are audited with
+ * source `sync`.
+ */
+export async function runWithSyncLock<T>(
+  tenantId: string,
+  type: SyncJobType,
+  fn: () => Promise<T>
+) {
+  const holderId = await acquireSyncLock(tenantId)
+
+  if (!holderId) {
+    const skipped = await prisma.syncJob.create({
+      data: {
+        tenantId,
+        type,
+        status: 'skipped',
+        startedAt: new Date(),
+        finishedAt: new Date(),
+        errorText: SYNC_LOCKED_REASON,
+      },
+    })
+    return { skipped, result: null }
+  }
+
+  const lock: HeldLock = { tenantId, holderId, renewedAt: Date.now(), lost: false }
+  const heartbeat = setInterval(() => {
+    renewSyncLock(lock).catch(error => console.error('Sync lock heartbeat error:', error))
+  }, LOCK_HEARTBEAT_MS)
+  heartbeat.unref()
+
+  try {
+    const result = await heldLockStorage.run(lock, () => withAuditSource('sync', fn))
+    return { skipped: null, result }
+  } finally {
+    clearInterval(heartbeat)
+    await releaseSyncLock(tenantId, holderId)
+  }
+}
@@ -0,0 +1,608 @@
+/**
+ * Order Sync
+ *
+ * Pulls orders from every connected Shopify store, upserts them into
+ * the orders table and creates Fortnox invoices for invoiceable orders.
+ *
+ * Invoicing is idempotent: before creating an invoice the order's
+ * external reference is looked up in Fortnox, so re-running a sync
+ * never creates duplicates (an invoice credited in full, e.g. by a
+ * rollback, no longer counts). Orders whose VAT does not reconcile are
+ * flagged instead of invoiced. Payments of paid orders are registered
+ * on their invoices (payments.ts), and refunds and cancellations are
+ * credited (documents.ts).
+ *
+ * Every order tracks whether it reached Fortnox (Order.syncStatus,
+ * fortnoxDocumentNumber, syncError, syncAttempts). Pending and failed
+ * orders are retried by later runs, and a failed order can be retried
+ * on its own (retryOrderSync).
+ */
+
+import { prisma } from '@/lib/prisma'
+import { Order, OrderSyncStatus, Prisma } from '@/generated/prisma'
+import { createShopifyClient, ShopifyClient } from '@/lib/shopify/client'
+import { createFortnoxClient, FortnoxClient } from '@/lib/fortnox/client'
+import { FortnoxAuthError } from '@/lib/fortnox/oauth'
+import { createInvoice, findUncreditedInvoiceByReference, getInvoice, shopifyOrderReference } from '@/lib/fortnox/invoices'
+import type { FortnoxInvoice, FortnoxInvoiceListItem } from '@/lib/fortnox/types'
+import type { ShopifyOrder } from '@/lib/shopify/types'
+import { orderCustomer, orderSearchText } from '@/lib/shopify/normalize'
+import { buildInvoice, INVOICEABLE_FINANCIAL_STATUSES, isInvoiceable } from '@/lib/sync/invoice-builder'
+import { getSyncSettings, SyncSettingsRecord } from '@/lib/sync/settings'
+import { createCustomerResolver, CustomerResolver } from '@/lib/sync/customers'
+import { VatError } from '@/lib/sync/vat'
+import { parsePaymentMethodMapping, PaymentMethodMapping } from '@/lib/sync/payment-mapping'
+import { registerOrderPayments } from '@/lib/sync/payments'
+import { creditOrder, hasReversals, linkInvoice } from '@/lib/sync/documents'
+import { ChangeRecorder, createChangeRecorder, snapshotOrder } from '@/lib/sync/changeset'
+import { assertSyncLockHeld, runWithSyncLock } from '@/lib/sync/lock'
+import { createRateLimitTracker } from '@/lib/api-limits'
+import {
+  completeSyncJob,
+  failSyncJob,
+  getLastSuccessfulSyncAt,
+  startSyncJob,
+} from '@/lib/sync/jobs'
+
+// How far back the first sync looks for orders
+const INITIAL_LOOKBACK_DAYS = 30
+
+// Overlap between runs so orders updated during the previous run are not missed
+const SYNC_OVERLAP_MS = 5 * 60 * 1000
+
+// Failed orders are retried automatically this many times, then only on request
+const MAX_AUTOMATIC_ATTEMPTS = 5
+
+// Pending and failed orders retried per store and run
+const UNSYNCED_ORDERS_PER_RUN = 100
+
+// Financial statuses of orders that will never be invoiced
+const IGNORED_FINANCIAL_STATUSES = ['voided', 'refunded']
+
+export class OrderRetryError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'OrderRetryError'
+  }
+}
+
+type InvoiceResult =
+  | { status: 'created'; customerNumber: string; invoice: FortnoxInvoice }
+  | { status: 'existing'; customerNumber: string; invoice: FortnoxInvoiceListItem }
+  | { status: 'flagged'; reason: string }
+
+// Everything needed to push orders to Fortnox during one run
+interface OrderSyncContext {
+  tenantId: string
+  fortnox: FortnoxClient
+  shopify: ShopifyClient
+  settings: SyncSettingsRecord
+  customers: CustomerResolver
+  paymentMapping: PaymentMethodMapping
+  recorder: ChangeRecorder
+}
+
+interface OrderSyncOutcome {
+  // Null when the order was not invoiceable
+  invoiced: InvoiceResult | null
+  paymentsRegistered: number
+  creditsCreated: number
+}
+
+type OrderSyncState = Pick<Order, 'syncStatus' | 'fortnoxDocumentNumber' | 'syncError' | 'customerRef'>
+
+interface OrderSyncError {
+  storeId: string
+  shopifyOrderId?: string
+  message: string
+}
+
+function orderStatus(order: ShopifyOrder): string {
+  if (order.cancelled_at) return 'cancelled'
+  if (order.closed_at) return 'closed'
+  return 'open'
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
+
+// Status of an order that is not (or no longer) invoiceable
+function uninvoicedStatus(order: ShopifyOrder): OrderSyncStatus {
+  return order.cancelled_at || IGNORED_FINANCIAL_STATUSES.includes(order.financial_status ?? '')
+    ? 'ignored'
+    : 'pending'
+}
+
+/**
+ * Upsert a Shopify order on (tenantId, shopifyStoreId, shopifyOrderId)
+ * With a recorder, the change is added to the sync's changeset.
+ */
+export async function upsertShopifyOrder(
+  tenantId: string,
+  shopifyStoreId: string,
+  order: ShopifyOrder,
+  recorder?: ChangeRecorder
+) {
+  const shopifyOrderId = String(order.id)
+  const key = { tenantId, shopifyStoreId, shopifyOrderId }
+
+  const customer = orderCustomer(order)
+
+  const data = {
+    orderNumber: order.name,
+    status: orderStatus(order),
+    financialStatus: order.financial_status,
+    fulfillmentStatus: order.fulfillment_status,
+    customerName: customer.name,
+    customerEmail: customer.email,
+    orderedAt: new Date(order.created_at),
+    searchText: orderSearchText(order),
+    totalAmount: order.total_price,
+    currency: order.currency,
+    rawJson: order as unknown as Prisma.InputJsonObject,
+  }
+
+  const existing = await prisma.order.findUnique({
+    where: { tenantId_shopifyStoreId_shopifyOrderId: key },
+  })
+
+  if (existing) {
+    await recorder?.record('order', existing.id, 'updated', snapshotOrder(existing))
+  }
+
+  const record = existing
+    ? await prisma.order.update({ where: { id: existing.id }, data })
+    : await prisma.order.create({ data: { ...key, ...data } })
+
+  if (!existing) {
+    await recorder?.record('order', record.id, 'created')
+  }
+
+  return { order: record, created: !existing }
+}
+
+/**
+ * Create the Fortnox invoice for an order unless one already exists
+ * Returns the Fortnox customer the order is invoiced to, or why the
+ * order was flagged instead.
+ */
+async function invoiceOrder(
+  fortnox: FortnoxClient,
+  order: ShopifyOrder,
+  settings: SyncSettingsRecord,
+  customers: CustomerResolver,
+  recorder: ChangeRecorder
+): Promise<InvoiceResult> {
+  const reference = shopifyOrderReference(String(order.id))
+
+  const existing = await findUncreditedInvoiceByReference(fortnox, reference)
+  if (existing) {
+    return { status: 'existing', customerNumber: existing.CustomerNumber, invoice: existing }
+  }
+
+  const customer = await customers.resolve(order)
+
+  let draft: FortnoxInvoice
+  try {
+    draft = buildInvoice(order, settings, customer)
+  } catch (error) {
+    if (error instanceof VatError) {
+      return { status: 'flagged', reason: error.message }
+    }
+    throw error
+  }
+
+  const invoice = await createInvoice(fortnox, draft)
+  if (invoice.DocumentNumber) {
+    await recorder.record('fortnox_invoice', invoice.DocumentNumber, 'created')
+  }
+  return { status: 'created', customerNumber: customer.customerNumber, invoice }
+}
+
+/**
+ * Register the payments of an invoiced order unless its invoice is settled
+ * Existing invoices are only fetched in full while they have a balance.
+ */
+async function settleInvoice(
+  fortnox: FortnoxClient,
+  shopify: ShopifyClient,
+  order: ShopifyOrder,
+  invoiced: Exclude<InvoiceResult, { status: 'flagged' }>,
+  mapping: PaymentMethodMapping,
+  recorder: ChangeRecorder
+): Promise<number> {
+  if (!mapping.rules.some(rule => rule.registerPayment)) {
+    return 0
+  }
+
+  if (invoiced.status === 'created') {
+    return registerOrderPayments(fortnox, shopify, order, invoiced.invoice, mapping, recorder)
+  }
+
+  if (invoiced.invoice.Cancelled || !invoiced.invoice.Balance) {
+    return 0
+  }
+
+  const invoice = await getInvoice(fortnox, invoiced.invoice.DocumentNumber)
+  return registerOrderPayments(fortnox, shopify, order, invoice, mapping, recorder)
+}
+
+/**
+ * Store an order's sync state if it changed
+ * Attempts are counted whenever the order was pushed to Fortnox.
+ */
+async function saveSyncState(record: Order, state: OrderSyncState, attempted: boolean) {
+  const changed = (Object.keys(state) as (keyof OrderSyncState)[])
+    .some(field => record[field] !== state[field])
+
+  if (!changed && !attempted) {
+    return
+  }
+
+  await prisma.order.update({
+    where: { id: record.id },
+    data: {
+      ...state,
+      ...(attempted ? { syncAttempts: { increment: 1 }, lastSyncAttemptAt: new Date() } : {}),
+    },
+  })
+}
+
+/**
+ * Invoice, settle and credit one order in Fortnox and store its sync state
+ * Orders already synced are re-checked but do not count as an attempt.
+ * Errors mark the order failed and are rethrown.
+ */
+async function syncOrderToFortnox(
+  context: OrderSyncContext,
+  record: Order,
+  order: ShopifyOrder
+): Promise<OrderSyncOutcome> {
+  const { tenantId, fortnox, recorder } = context
+  const outcome: OrderSyncOutcome = { invoiced: null, paymentsRegistered: 0, creditsCreated: 0 }
+  const state: OrderSyncState = {
+    syncStatus: record.syncStatus,
+    fortnoxDocumentNumber: record.fortnoxDocumentNumber,
+    syncError: record.syncError,
+    customerRef: record.customerRef,
+  }
+  let attempted = false
+
+  try {
+    if (isInvoiceable(order)) {
+      attempted = record.syncStatus !== 'synced'
+      const invoiced = await invoiceOrder(fortnox, order, context.settings, context.customers, recorder)
+      outcome.invoiced = invoiced
+
+      if (invoiced.status === 'flagged') {
+        state.syncStatus = 'failed'
+        state.syncError = invoiced.reason
+      } else {
+        state.syncStatus = 'synced'
+        state.fortnoxDocumentNumber = invoiced.invoice.DocumentNumber ?? state.fortnoxDocumentNumber
+        state.syncError = null
+        state.customerRef = invoiced.customerNumber
+
+        await linkInvoice(tenantId, record.id, invoiced.invoice)
+        outcome.paymentsRegistered = await settleInvoice(
+          fortnox,
+          context.shopify,
+          order,
+          invoiced,
+          context.paymentMapping,
+          recorder
+        )
+      }
+    } else if (record.syncStatus !== 'synced') {
+      state.syncStatus = uninvoicedStatus(order)
+      state.syncError = null
+    }
+
+    if (hasReversals(order)) {
+      outcome.creditsCreated = await creditOrder(fortnox, tenantId, record.id, order, context.settings, recorder)
+    }
+  } catch (error) {
+    state.syncStatus = 'failed'
+    state.syncError = errorMessage(error)
+    await saveSyncState(record, state, true)
+    throw error
+  }
+
+  await saveSyncState(record, state, attempted)
+  return outcome
+}
+
+/**
+ * Find a store's orders that still have to reach Fortnox
+ * Paid orders left pending (e.g. synced while Fortnox was not connected,
+ * or reverted by a rollback) and failed orders with attempts left, least
+ * recently attempted first. Only orders with a stored payload qualify. Orders attempted since `attemptedBefore`
+ * were already handled in this run.
+ */
+async function findUnsyncedOrders(tenantId: string, shopifyStoreId: string, attemptedBefore: Date) {
+  return prisma.order.findMany({
+    where: {
+      tenantId,
+      shopifyStoreId,
+      rawJson: { not: Prisma.AnyNull },
+      OR: [
+        {
+          syncStatus: 'pending',
+          status: { not: 'cancelled' },
+          financialStatus: { in: INVOICEABLE_FINANCIAL_STATUSES },
+        },
+        { syncStatus: 'failed', syncAttempts: { lt: MAX_AUTOMATIC_ATTEMPTS } },
+      ],
+      AND: [{ OR: [{ lastSyncAttemptAt: null }, { lastSyncAttemptAt: { lt: attemptedBefore } }] }],
+    },
+    orderBy: [{ lastSyncAttemptAt: { sort: 'asc', nulls: 'first' } }, { orderedAt: 'asc' }],
+    take: UNSYNCED_ORDERS_PER_RUN,
+  })
+}
+
+/**
+ * Run an order sync for a tenant
+ * Each store is fetched from its own cursor, which only advances once
+ * all of its orders were stored with Fortnox connected, so a failed
+ * fetch or a missing Fortnox connection is caught up on the next run.
+ * Pending and failed orders from earlier runs are retried from their
+ * stored payload.
+ */
+export async function syncOrders(tenantId: string) {
+  const job = await startSyncJob(tenantId, 'orders')
+  const recorder = createChangeRecorder(tenantId, job.id)
+  const tracker = createRateLimitTracker()
+  const startedAt = new Date()
+
+  let createdCount = 0
+  let updatedCount = 0
+  let ordersRetried = 0
+  let invoicesCreated = 0
+  let invoicesExisting = 0
+  let invoicesFlagged = 0
+  let paymentsRegistered = 0
+  let creditsCreated = 0
+  const errors: OrderSyncError[] = []
+
+  try {
+    const settings = await getSyncSettings(tenantId)
+    const paymentMapping = parsePaymentMethodMapping(settings.paymentMethodMapping)
+
+    const stores = await prisma.shopifyStore.findMany({
+      where: { tenantId, status: 'connected' },
+    })
+
+    // Stores synced before per-store cursors existed continue from the last tenant-wide sync
+    const lastSyncAt = await getLastSuccessfulSyncAt(tenantId, 'orders')
+
+    const integration = await prisma.fortnoxIntegration.findUnique({
+      where: { tenantId },
+      select: { status: true },
+    })
+    const fortnox = integration?.status === 'connected' ? createFortnoxClient(tenantId, { tracker }) : null
+    const customers = fortnox ? createCustomerResolver(tenantId, fortnox, settings) : null
+
+    for (const store of stores) {
+      const cursor = store.ordersSyncedAt
+        ?? (lastSyncAt && store.createdAt < lastSyncAt ? lastSyncAt : null)
+      const since = cursor
+        ? new Date(cursor.getTime() - SYNC_OVERLAP_MS)
+        : new Date(startedAt.getTime() - INITIAL_LOOKBACK_DAYS * 24 * 60 * 60 * 1000)
+
+      let shopify: ShopifyClient
+      let orders: ShopifyOrder[]
+      const fetchedAt = new Date()
+
+      try {
+        shopify = createShopifyClient(store, { tracker })
+        orders = await shopify.getAll<ShopifyOrder>('/orders.json', 'orders', {
+          status: 'any',
+          updated_at_min: since.toISOString(),
+        })
+      } catch (error) {
+        errors.push({ storeId: store.id, message: errorMessage(error) })
+        continue
+      }
+
+      let allStored = true
+
+      // Push one stored order to Fortnox and count the outcome
+      const pushOrder = async (record: Order, order: ShopifyOrder) => {
+        assertSyncLockHeld()
+
+        try {
+          const outcome = await syncOrderToFortnox(
+            { tenantId, fortnox: fortnox!, shopify, settings, customers: customers!, paymentMapping, recorder },
+            record,
+            order
+          )
+
+          if (outcome.invoiced?.status === 'created') {
+            invoicesCreated++
+          } else if (outcome.invoiced?.status === 'existing') {
+            invoicesExisting++
+          } else if (outcome.invoiced?.status === 'flagged') {
+            invoicesFlagged++
+            errors.push({ storeId: store.id, shopifyOrderId: String(order.id), message: outcome.invoiced.reason })
+          }
+
+          paymentsRegistered += outcome.paymentsRegistered
+          creditsCreated += outcome.creditsCreated
+        } catch (error) {
+          // Without Fortnox access no further invoice can succeed
+          if (error instanceof FortnoxAuthError) {
+            throw error
+          }
+          errors.push({ storeId: store.id, shopifyOrderId: String(order.id), message: errorMessage(error) })
+        }
+      }
+
+      for (const order of orders) {
+        let result: Awaited<ReturnType<typeof upsertShopifyOrder>>
+        try {
+          result = await upsertShopifyOrder(tenantId, store.id, order, recorder)
+        } catch (error) {
+          allStored = false
+          errors.push({ storeId: store.id, shopifyOrderId: String(order.id), message: errorMessage(error) })
+          continue
+        }
+
+        if (result.created) {
+          createdCount++
+        } else {
+          updatedCount++
+        }
+
+        if (fortnox) {
+          await pushOrder(result.order, order)
+        }
+      }
+
+      if (!fortnox) {
+        continue
+      }
+
+      for (const record of await findUnsyncedOrders(tenantId, store.id, startedAt)) {
+        ordersRetried++
+        await pushOrder(record, record.rawJson as unknown as ShopifyOrder)
+      }
+
+      if (allStored) {
+        await prisma.shopifyStore.update({
+          where: { id: store.id },
+          data: { ordersSyncedAt: fetchedAt },
+        })
+      }
+    }
+
+    return await completeSyncJob(job.id, {
+      createdCount,
+      updatedCount,
+      summary: {
+        stores: stores.length,
+        invoicing: fortnox ? 'enabled' : 'fortnox_not_connected',
+        ordersRetried,
+        invoicesCreated,
+        invoicesExisting,
+        invoicesFlagged,
+        paymentsRegistered,
+        creditsCreated,
+        errors: errors as unknown as Prisma.InputJsonArray,
+      },
+      errorText: errors.length > 0 ? `${errors.length} order(s) or store(s) failed to sync` : null,
+      rateLimitInfo: tracker.toJson(),
+    })
+  } catch (error) {
+    console.error('Order sync error:', error)
+
+    return failSyncJob(job.id, error, {
+      ordersRetried,
+      invoicesCreated,
+      invoicesExisting,
+      invoicesFlagged,
+      paymentsRegistered,
+      creditsCreated,
+      errors: errors as unknown as Prisma.InputJsonArray,
+    }, tracker.toJson())
+  }
+}
+
+/**
+ * Re-sync one failed order
+ * The order is fetched from Shopify again, so fixes made there (e.g. to
+ * tax lines) are picked up. Recorded as an `order_retry` SyncJob.
+ */
+export async function retryOrderSync(tenantId: string, orderId: string) {
+  const record = await prisma.order.findFirst({
+    where: { id: orderId, tenantId },
+    include: { shopifyStore: true },
+  })
+
+  if (!record) {
+    throw new OrderRetryError('Order not found')
+  }
+
+  if (record.syncStatus !== 'failed') {
+    throw new OrderRetryError('Only failed orders can be retried')
+  }
+
+  if (record.shopifyStore.status !== 'connected') {
+    throw new OrderRetryError('Shopify store is not connected')
+  }
+
+  const integration = await prisma.fortnoxIntegration.findUnique({
+    where: { tenantId },
+    select: { status: true },
+  })
+
+  if (integration?.status !== 'connected') {
+    throw new OrderRetryError('Connect Fortnox first')
+  }
+
+  const { skipped, result } = await runWithSyncLock(tenantId, 'order_retry', async () => {
+    const job = await startSyncJob(tenantId, 'order_retry')
+    const recorder = createChangeRecorder(tenantId, job.id)
+    const tracker = createRateLimitTracker()
+    const summary = { orderId: record.id, shopifyOrderId: record.shopifyOrderId }
+
+    try {
+      const settings = await getSyncSettings(tenantId)
+      const shopify = createShopifyClient(record.shopifyStore, { tracker })
+      const fortnox = createFortnoxClient(tenantId, { tracker })
+
+      const { order } = await shopify.get<{ order: ShopifyOrder }>(`/orders/${record.shopifyOrderId}.json`)
+      assertSyncLockHeld()
+      const upserted = await upsertShopifyOrder(tenantId, record.shopifyStoreId, order, recorder)
+
+      const outcome = await syncOrderToFortnox(
+        {
+          tenantId,
+          fortnox,
+          shopify,
+          settings,
+          customers: createCustomerResolver(tenantId, fortnox, settings),
+          paymentMapping: parsePaymentMethodMapping(settings.paymentMethodMapping),
+          recorder,
+        },
+        upserted.order,
+        order
+      )
+
+      return await completeSyncJob(job.id, {
+        createdCount: 0,
+        updatedCount: 1,
+        summary: {
+          ...summary,
+          invoice: outcome.invoiced?.status ?? null,
+          paymentsRegistered: outcome.paymentsRegistered,
+          creditsCreated: outcome.creditsCreated,
+        },
+        errorText: outcome.invoiced?.status === 'flagged' ? outcome.invoiced.reason : null,
+        rateLimitInfo: tracker.toJson(),
+      })
+    } catch (error) {
+      console.error('Order retry error:', error)
+      return failSyncJob(job.id, error, summary, tracker.toJson())
+    }
+  })
+
+  if (skipped) {
+    throw new OrderRetryError(skipped.errorText ?? 'Sync is already running')
+  }
+
+  const order = await prisma.order.findUniqueOrThrow({
+    where: { id: record.id },
+    select: {
+      id: true,
+      orderNumber: true,
+      syncStatus: true,
+      fortnoxDocumentNumber: true,
+      syncError: true,
+      syncAttempts: true,
+      lastSyncAttemptAt: true,
+    },
+  })
+
+  return { job: result!, order }
+}
@@ -0,0 +1,130 @@
+/**
+ * Payment Method Mapping
+ *
+ * Structured mapping (SyncSettings.paymentMethodMapping) from Shopify
+ * payment gateways to how Fortnox invoices are paid: the terms of
+ * payment set on the invoice, and the mode of payment and account used
+ * when the payment is registered for a paid order.
+ */
+
+import { isAccountNumber } from '@/lib/fortnox/accounts'
+
+export interface PaymentMethodRule {
+  // Shopify gateway name as in payment_gateway_names (case-insensitive)
+  gateway: string
+  // Fortnox terms of payment code set on the invoice
+  termsOfPayment?: string
+  // Fortnox mode of payment code used for the registered payment
+  modeOfPayment?: string
+  // Account the payment is booked on (e.g. 1580 for a Klarna receivable)
+  accountNumber?: number
+  // Register the payment in Fortnox when the order is paid
+  registerPayment?: boolean
+}
+
+export interface PaymentMethodMapping {
+  rules: PaymentMethodRule[]
+}
+
+export const EMPTY_PAYMENT_METHOD_MAPPING: PaymentMethodMapping = { rules: [] }
+
+// Common Shopify gateways and where their payments are usually booked,
+// offered as starting points in the editor
+export const SUGGESTED_PAYMENT_METHOD_RULES: PaymentMethodRule[] = [
+  { gateway: 'shopify_payments', accountNumber: 1580, registerPayment: true },
+  { gateway: 'klarna', accountNumber: 1580, registerPayment: true },
+  { gateway: 'swish', accountNumber: 1930, registerPayment: true },
+  { gateway: 'gift_card', accountNumber: 2421, registerPayment: true },
+]
+
+/**
+ * Validate a mapping, returning a list of errors (empty if valid)
+ */
+export function validatePaymentMethodMapping(value: unknown): string[] {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return ['Payment method mapping must be an object']
+  }
+
+  const { rules } = value as Record<string, unknown>
+  if (!Array.isArray(rules)) {
+    return ['rules must be an array']
+  }
+
+  const errors: string[] = []
+  const gateways = new Set<string>()
+
+  rules.forEach((value: unknown, index) => {
+    const label = `rules[${index}]`
+
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      errors.push(`${label} must be an object`)
+      return
+    }
+
+    const rule = value as Record<string, unknown>
+
+    if (typeof rule.gateway !== 'string' || !rule.gateway.trim()) {
+      errors.push(`${label}.gateway must be a non-empty string`)
+    } else if (gateways.has(rule.gateway.trim().toLowerCase())) {
+      errors.push(`${label}.gateway "${rule.gateway}" is mapped more than once`)
+    } else {
+      gateways.add(rule.gateway.trim().toLowerCase())
+    }
+
+    for (const key of ['termsOfPayment', 'modeOfPayment'] as const) {
+      if (rule[key] !== undefined && (typeof rule[key] !== 'string' || !rule[key].trim())) {
+        errors.push(`${label}.${key} must be a non-empty string`)
+      }
+    }
+
+    if (rule.accountNumber !== undefined && !isAccountNumber(rule.accountNumber)) {
+      errors.push(`${label}.accountNumber must be a four-digit account number`)
+    }
+
+    if (rule.registerPayment !== undefined && typeof rule.registerPayment !== 'boolean') {
+      errors.push(`${label}.registerPayment must be a boolean`)
+    }
+
+    if (rule.registerPayment && rule.modeOfPayment === undefined && rule.accountNumber === undefined) {
+      errors.push(`${label} needs a modeOfPayment or accountNumber to register payments`)
+    }
+  })
+
+  return errors
+}
+
+/**
+ * Parse the stored mapping
+ * Legacy { gateway: termsOfPaymentCode } objects become rules without
+ * payment registration; anything else invalid is treated as empty.
+ */
+export function parsePaymentMethodMapping(value: unknown): PaymentMethodMapping {
+  if (validatePaymentMethodMapping(value).length === 0) {
+    return value as PaymentMethodMapping
+  }
+
+  if (value && typeof value === 'object' && !Array.isArray(value) && !('rules' in value)) {
+    const rules = Object.entries(value as Record<string, unknown>)
+      .filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+      .map(([gateway, termsOfPayment]) => ({ gateway, termsOfPayment }))
+
+    return { rules }
+  }
+
+  return EMPTY_PAYMENT_METHOD_MAPPING
+}
+
+/**
+ * Find the rule for a Shopify gateway
+ */
+export function findPaymentMethodRule(
+  mapping: PaymentMethodMapping,
+  gateway: string | undefined
+): PaymentMethodRule | null {
+  if (!gateway) {
+    return null
+  }
+
+  const name = gateway.trim().toLowerCase()
+  return mapping.rules.find(rule => rule.gateway.trim().toLowerCase() === name) ?? null
+}
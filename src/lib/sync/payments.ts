@@ -0,0 +1,156 @@
+/**
+ * Payment Registration
+ *
+ * Registers the payments of a paid Shopify order on its Fortnox invoice
+ * so the receivable does not sit open. Each payment uses the mode of
+ * payment and account mapped for its gateway (payment-mapping.ts).
+ * Orders paid through several gateways (e.g. a gift card and a card)
+ * are split by their Shopify transactions.
+ *
+ * Payments are only registered when every gateway of the order is
+ * mapped with registerPayment, so an invoice is never left partly paid.
+ * The split is always made over the invoice total; gateways whose
+ * payment is already on the invoice (e.g. from a run that failed
+ * halfway) are skipped, and no payment exceeds the open balance.
+ * They are left unbooked, so a rollback can still delete them; booking
+ * happens in Fortnox (by hand or its automatic bookkeeping).
+ */
+
+import type { FortnoxClient } from '@/lib/fortnox/client'
+import { bookkeepInvoice } from '@/lib/fortnox/invoices'
+import { createInvoicePayment, listInvoicePayments } from '@/lib/fortnox/payments'
+import type { FortnoxInvoice, FortnoxInvoicePayment } from '@/lib/fortnox/types'
+import type { ShopifyClient } from '@/lib/shopify/client'
+import type { ShopifyOrder, ShopifyTransaction } from '@/lib/shopify/types'
+import type { ChangeRecorder } from '@/lib/sync/changeset'
+import { findPaymentMethodRule, PaymentMethodMapping } from '@/lib/sync/payment-mapping'
+
+const HOME_CURRENCY = 'SEK'
+
+interface GatewayAmount {
+  gateway: string
+  amount: number
+}
+
+function roundAmount(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+/**
+ * Split the invoice total over the order's gateways
+ * The last gateway takes any rounding difference to the total.
+ */
+async function splitByGateway(
+  shopify: ShopifyClient,
+  order: ShopifyOrder,
+  total: number
+): Promise<GatewayAmount[]> {
+  const gateways = [...new Set(order.payment_gateway_names)]
+
+  if (gateways.length <= 1) {
+    return gateways.map(gateway => ({ gateway, amount: total }))
+  }
+
+  const { transactions } = await shopify.get<{ transactions: ShopifyTransaction[] }>(
+    `/orders/${order.id}/transactions.json`
+  )
+
+  const totals = new Map<string, number>()
+  for (const transaction of transactions) {
+    if (transaction.status === 'success' && (transaction.kind === 'sale' || transaction.kind === 'capture')) {
+      totals.set(transaction.gateway, (totals.get(transaction.gateway) ?? 0) + Number(transaction.amount))
+    }
+  }
+
+  const amounts = [...totals].map(([gateway, amount]) => ({ gateway, amount: roundAmount(amount) }))
+  if (amounts.length > 0) {
+    const others = amounts.slice(0, -1).reduce((sum, { amount }) => sum + amount, 0)
+    amounts[amounts.length - 1].amount = roundAmount(total - others)
+  }
+
+  return amounts
+}
+
+// Payments on foreign currency invoices are also given in SEK
+function paymentAmounts(invoice: FortnoxInvoice, amount: number): Pick<FortnoxInvoicePayment, 'Amount' | 'AmountCurrency'> {
+  if (!invoice.Currency || invoice.Currency === HOME_CURRENCY || !invoice.CurrencyRate) {
+    return { Amount: amount }
+  }
+
+  return {
+    Amount: roundAmount((amount * invoice.CurrencyRate) / (invoice.CurrencyUnit || 1)),
+    AmountCurrency: amount,
+  }
+}
+
+/**
+ * Register the payments for a paid order's invoice
+ * The invoice is bookkept first, as Fortnox requires. Returns the number
+ * of payments registered (0 if the invoice is settled or a gateway is
+ * not mapped for registration).
+ */
+export async function registerOrderPayments(
+  fortnox: FortnoxClient,
+  shopify: ShopifyClient,
+  order: ShopifyOrder,
+  invoice: FortnoxInvoice,
+  mapping: PaymentMethodMapping,
+  recorder: ChangeRecorder
+): Promise<number> {
+  const total = invoice.Total ?? 0
+  let balance = invoice.Balance ?? total
+
+  if (!invoice.DocumentNumber || invoice.Cancelled || balance <= 0) {
+    return 0
+  }
+
+  const amounts = await splitByGateway(shopify, order, total)
+  const rules = amounts.map(({ gateway }) => findPaymentMethodRule(mapping, gateway))
+
+  if (amounts.length === 0 || rules.some(rule => !rule?.registerPayment)) {
+    return 0
+  }
+
+  if (!invoice.Booked) {
+    await bookkeepInvoice(fortnox, invoice.DocumentNumber)
+  }
+
+  // Payments already on the invoice, matched to gateways by amount
+  const existing = balance < total
+    ? await listInvoicePayments(fortnox, Number(invoice.DocumentNumber))
+    : []
+
+  const paymentDate = (order.processed_at ?? order.created_at).slice(0, 10)
+  let registered = 0
+
+  for (const [index, { amount: gatewayAmount }] of amounts.entries()) {
+    const rule = rules[index]!
+
+    const paid = existing.findIndex(payment => payment.Amount === paymentAmounts(invoice, gatewayAmount).Amount)
+    if (paid >= 0) {
+      existing.splice(paid, 1)
+      continue
+    }
+
+    const amount = roundAmount(Math.min(gatewayAmount, balance))
+    if (amount <= 0) {
+      continue
+    }
+
+    const payment = await createInvoicePayment(fortnox, {
+      InvoiceNumber: Number(invoice.DocumentNumber),
+      PaymentDate: paymentDate,
+      ...paymentAmounts(invoice, amount),
+      ...(rule.modeOfPayment ? { ModeOfPayment: rule.modeOfPayment } : {}),
+      ...(rule.accountNumber ? { ModeOfPaymentAccount: rule.accountNumber } : {}),
+    })
+
+    if (payment.Number !== undefined) {
+      await recorder.record('fortnox_invoice_payment', String(payment.Number), 'created')
+    }
+    balance = roundAmount(balance - amount)
+    registered++
+  }
+
+  return registered
+}
@@ -0,0 +1,248 @@
+/**
+ * Product Sync
+ *
+ * Pulls products from every connected Shopify store, upserts one
+ * products row per variant and keeps the Fortnox article register in
+ * step, using the tenant's SKU mapping rule to match variants to
+ * article numbers.
+ *
+ * Variants without a usable identifier are reported as unmatched;
+ * several variants of one store mapping to the same article number are
+ * reported as conflicts and left untouched in Fortnox.
+ */
+
+import { prisma } from '@/lib/prisma'
+import { Prisma, ProductStatus } from '@/generated/prisma'
+import { createShopifyClient } from '@/lib/shopify/client'
+import { createFortnoxClient } from '@/lib/fortnox/client'
+import { FortnoxAuthError } from '@/lib/fortnox/oauth'
+import { createArticle, getArticle, updateArticle } from '@/lib/fortnox/articles'
+import type { ShopifyProduct, ShopifyVariant } from '@/lib/shopify/types'
+import { mapArticleNumber, parseSkuMappingRule } from '@/lib/sync/sku-mapping'
+import { getSyncSettings } from '@/lib/sync/settings'
+import { completeSyncJob, failSyncJob, startSyncJob } from '@/lib/sync/jobs'
+import { ChangeRecorder, createChangeRecorder, snapshotProduct } from '@/lib/sync/changeset'
+import { createRateLimitTracker } from '@/lib/api-limits'
+import { assertSyncLockHeld } from '@/lib/sync/lock'
+
+// Fortnox limits article descriptions to 200 characters
+const DESCRIPTION_MAX_LENGTH = 200
+
+interface VariantRef {
+  storeId: string
+  productId: string
+  variantId: string
+  title: string
+}
+
+interface ArticleCandidate extends VariantRef {
+  articleNumber: string
+  barcode: string | null
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
+
+/**
+ * Key of the products row for a variant
+ */
+export function shopifyVariantKey(productId: number | string, variantId: number | string): string {
+  return `${productId}:${variantId}`
+}
+
+function variantTitle(product: ShopifyProduct, variant: ShopifyVariant): string {
+  return variant.title && variant.title !== 'Default Title'
+    ? `${product.title} - ${variant.title}`
+    : product.title
+}
+
+/**
+ * Upsert every variant of a Shopify product
+ * With a recorder, the changes are added to the sync's changeset.
+ */
+export async function upsertShopifyProduct(
+  tenantId: string,
+  shopifyStoreId: string,
+  product: ShopifyProduct,
+  recorder?: ChangeRecorder
+) {
+  let created = 0
+  let updated = 0
+
+  const { variants, ...productFields } = product
+
+  for (const variant of variants) {
+    const shopifyProductId = shopifyVariantKey(product.id, variant.id)
+    const key = { tenantId, shopifyStoreId, shopifyProductId }
+
+    const data = {
+      sku: variant.sku || null,
+      title: variantTitle(product, variant),
+      status: product.status as ProductStatus,
+      price: variant.price,
+      inventory: variant.inventory_quantity,
+      rawJson: { product: productFields, variant } as unknown as Prisma.InputJsonObject,
+    }
+
+    const existing = await prisma.product.findUnique({
+      where: { tenantId_shopifyStoreId_shopifyProductId: key },
+    })
+
+    if (existing) {
+      await recorder?.record('product', existing.id, 'updated', snapshotProduct(existing))
+      await prisma.product.update({ where: { id: existing.id }, data })
+      updated++
+    } else {
+      const record = await prisma.product.create({ data: { ...key, ...data } })
+      await recorder?.record('product', record.id, 'created')
+      created++
+    }
+  }
+
+  return { created, updated }
+}
+
+/**
+ * Run a product sync for a tenant
+ */
+export async function syncProducts(tenantId: string) {
+  const job = await startSyncJob(tenantId, 'products')
+  const recorder = createChangeRecorder(tenantId, job.id)
+  const tracker = createRateLimitTracker()
+
+  let createdCount = 0
+  let updatedCount = 0
+  const unmatched: VariantRef[] = []
+  const conflicts: Array<{ articleNumber: string; variants: VariantRef[] }> = []
+  const errors: Array<{ storeId?: string; articleNumber?: string; message: string }> = []
+  const articles = { matched: 0, created: 0, updated: 0 }
+
+  try {
+    const settings = await getSyncSettings(tenantId)
+    const rule = parseSkuMappingRule(settings.skuMappingRule)
+
+    const stores = await prisma.shopifyStore.findMany({
+      where: { tenantId, status: 'connected' },
+    })
+
+    // Article number -> candidate variants
+    const candidates = new Map<string, ArticleCandidate[]>()
+
+    for (const store of stores) {
+      let products: ShopifyProduct[]
+
+      try {
+        const shopify = createShopifyClient(store, { tracker })
+        products = await shopify.getAll<ShopifyProduct>('/products.json', 'products')
+      } catch (error) {
+        errors.push({ storeId: store.id, message: errorMessage(error) })
+        continue
+      }
+
+      for (const product of products) {
+        const result = await upsertShopifyProduct(tenantId, store.id, product, recorder)
+        createdCount += result.created
+        updatedCount += result.updated
+
+        for (const variant of product.variants) {
+          const ref: VariantRef = {
+            storeId: store.id,
+            productId: String(product.id),
+            variantId: String(variant.id),
+            title: variantTitle(product, variant),
+          }
+
+          const articleNumber = mapArticleNumber(variant, rule)
+          if (!articleNumber) {
+            unmatched.push(ref)
+            continue
+          }
+
+          const list = candidates.get(articleNumber) ?? []
+          list.push({ ...ref, articleNumber, barcode: variant.barcode })
+          candidates.set(articleNumber, list)
+        }
+      }
+    }
+
+    const integration = await prisma.fortnoxIntegration.findUnique({
+      where: { tenantId },
+      select: { status: true },
+    })
+    const fortnox = integration?.status === 'connected' ? createFortnoxClient(tenantId, { tracker }) : null
+
+    for (const [articleNumber, list] of candidates) {
+      // The same article in several stores is fine; twice in one store is not
+      const storeIds = new Set(list.map(candidate => candidate.storeId))
+      if (storeIds.size < list.length) {
+        conflicts.push({
+          articleNumber,
+          variants: list.map(({ storeId, productId, variantId, title }) => ({ storeId, productId, variantId, title })),
+        })
+        continue
+      }
+
+      if (!fortnox) {
+        continue
+      }
+
+      const [candidate] = list
+      const description = candidate.title.slice(0, DESCRIPTION_MAX_LENGTH)
+
+      assertSyncLockHeld()
+
+      try {
+        const existing = await getArticle(fortnox, articleNumber)
+
+        if (!existing) {
+          await createArticle(fortnox, {
+            ArticleNumber: articleNumber,
+            Description: description,
+            ...(candidate.barcode ? { EAN: candidate.barcode } : {}),
+          })
+          await recorder.record('fortnox_article', articleNumber, 'created')
+          articles.created++
+        } else if (existing.Description !== description) {
+          await recorder.record('fortnox_article', articleNumber, 'updated', {
+            Description: existing.Description,
+          })
+          await updateArticle(fortnox, articleNumber, { Description: description })
+          articles.updated++
+        } else {
+          articles.matched++
+        }
+      } catch (error) {
+        if (error instanceof FortnoxAuthError) {
+          throw error
+        }
+        errors.push({ articleNumber, message: errorMessage(error) })
+      }
+    }
+
+    const summary = {
+      stores: stores.length,
+      rule: { ...rule },
+      articleSync: fortnox ? 'enabled' : 'fortnox_not_connected',
+      articles,
+      unmatched: unmatched as unknown as Prisma.InputJsonArray,
+      conflicts: conflicts as unknown as Prisma.InputJsonArray,
+      errors: errors as unknown as Prisma.InputJsonArray,
+    }
+
+    return await completeSyncJob(job.id, {
+      createdCount,
+      updatedCount,
+      summary,
+      errorText: errors.length > 0 ? `${errors.length} product error(s)` : null,
+      rateLimitInfo: tracker.toJson(),
+    })
+  } catch (error) {
+    console.error('Product sync error:', error)
+
+    return failSyncJob(job.id, error, {
+      articles,
+      errors: errors as unknown as Prisma.InputJsonArray,
+    }, tracker.toJson())
+  }
+}
@@ -0,0 +1,282 @@
+/**
+ * Sync Rollback
+ *
+ * Undoes the last automated sync using the changeset it recorded:
+ * - Fortnox invoices it created are cancelled (or credited if booked)
+ * - Fortnox payments it registered are deleted (booked payments have to
+ *   be reversed in Fortnox and are reported as errors)
+ * - Fortnox articles it created are deleted (or deactivated if in use)
+ * - Fortnox articles it updated get their previous values back
+ * - Local orders/products rows are restored or removed, and orders whose
+ *   invoice was undone go back to pending, so the next order sync
+ *   invoices them again
+ *
+ * The rollback is recorded as a `rollback` SyncJob linked to the original.
+ */
+
+import { prisma } from '@/lib/prisma'
+import { Prisma, ProductStatus } from '@/generated/prisma'
+import { createFortnoxClient, FortnoxClient } from '@/lib/fortnox/client'
+import { cancelInvoice, creditInvoice, getInvoice } from '@/lib/fortnox/invoices'
+import { deleteArticle, updateArticle } from '@/lib/fortnox/articles'
+import { deleteInvoicePayment, getInvoicePayment } from '@/lib/fortnox/payments'
+import { completeSyncJob, failSyncJob, startSyncJob } from '@/lib/sync/jobs'
+import { assertSyncLockHeld, runWithSyncLock } from '@/lib/sync/lock'
+
+// Job types that record a changeset
+const ROLLBACK_JOB_TYPES = ['orders', 'products'] as const
+
+export class RollbackError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'RollbackError'
+  }
+}
+
+interface RollbackStats {
+  invoicesCancelled: number
+  invoicesCredited: number
+  paymentsDeleted: number
+  articlesDeleted: number
+  articlesDeactivated: number
+  articlesRestored: number
+  ordersRestored: number
+  ordersDeleted: number
+  productsRestored: number
+  productsDeleted: number
+}
+
+type SyncJobChangeRecord = Awaited<ReturnType<typeof prisma.syncJobChange.findMany>>[number]
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
+
+async function revertInvoice(
+  fortnox: FortnoxClient,
+  tenantId: string,
+  documentNumber: string,
+  stats: RollbackStats
+) {
+  const invoice = await getInvoice(fortnox, documentNumber)
+
+  if (!invoice.Cancelled && !invoice.CreditInvoiceReference) {
+    if (invoice.Booked) {
+      await creditInvoice(fortnox, documentNumber)
+      stats.invoicesCredited++
+    } else {
+      await cancelInvoice(fortnox, documentNumber)
+      stats.invoicesCancelled++
+    }
+  }
+
+  // The order goes back to pending and is invoiced again by the next order sync
+  await prisma.fortnoxDocument.deleteMany({
+    where: { tenantId, documentNumber },
+  })
+  await prisma.order.updateMany({
+    where: { tenantId, fortnoxDocumentNumber: documentNumber },
+    data: { syncStatus: 'pending', fortnoxDocumentNumber: null, syncError: null },
+  })
+}
+
+async function revertInvoicePayment(fortnox: FortnoxClient, number: string, stats: RollbackStats) {
+  const payment = await getInvoicePayment(fortnox, Number(number))
+
+  if (payment.Booked) {
+    throw new RollbackError(`Payment ${number} is booked and must be reversed in Fortnox`)
+  }
+
+  await deleteInvoicePayment(fortnox, Number(number))
+  stats.paymentsDeleted++
+}
+
+async function revertArticle(fortnox: FortnoxClient, change: SyncJobChangeRecord, stats: RollbackStats) {
+  if (change.action === 'updated') {
+    await updateArticle(fortnox, change.entityId, change.beforeJson as Prisma.JsonObject)
+    stats.articlesRestored++
+    return
+  }
+
+  try {
+    await deleteArticle(fortnox, change.entityId)
+    stats.articlesDeleted++
+  } catch {
+    // Articles used on documents cannot be deleted
+    await updateArticle(fortnox, change.entityId, { Active: false })
+    stats.articlesDeactivated++
+  }
+}
+
+async function revertOrder(change: SyncJobChangeRecord, stats: RollbackStats) {
+  if (change.action === 'created') {
+    await prisma.order.deleteMany({ where: { id: change.entityId, tenantId: change.tenantId } })
+    stats.ordersDeleted++
+    return
+  }
+
+  const before = change.beforeJson as Prisma.JsonObject
+  await prisma.order.updateMany({
+    where: { id: change.entityId, tenantId: change.tenantId },
+    data: {
+      orderNumber: before.orderNumber as string,
+      status: before.status as string | null,
+      financialStatus: before.financialStatus as string | null,
+      fulfillmentStatus: before.fulfillmentStatus as string | null,
+      customerRef: before.customerRef as string | null,
+      customerName: before.customerName as string | null,
+      customerEmail: before.customerEmail as string | null,
+      orderedAt: before.orderedAt as string | null,
+      searchText: before.searchText as string | null,
+      totalAmount: before.totalAmount as string | null,
+      currency: before.currency as string,
+      rawJson: (before.rawJson ?? Prisma.JsonNull) as Prisma.InputJsonValue,
+    },
+  })
+  stats.ordersRestored++
+}
+
+async function revertProduct(change: SyncJobChangeRecord, stats: RollbackStats) {
+  if (change.action === 'created') {
+    await prisma.product.deleteMany({ where: { id: change.entityId, tenantId: change.tenantId } })
+    stats.productsDeleted++
+    return
+  }
+
+  const before = change.beforeJson as Prisma.JsonObject
+  await prisma.product.updateMany({
+    where: { id: change.entityId, tenantId: change.tenantId },
+    data: {
+      sku: before.sku as string | null,
+      title: before.title as string,
+      status: before.status as ProductStatus,
+      price: before.price as string | null,
+      inventory: before.inventory as number | null,
+      rawJson: (before.rawJson ?? Prisma.JsonNull) as Prisma.InputJsonValue,
+    },
+  })
+  stats.productsRestored++
+}
+
+/**
+ * Find the job a rollback would undo and check that it can be undone
+ * Only the latest completed orders/products job can be rolled back,
+ * otherwise newer syncs would be overwritten.
+ */
+async function getRollbackTarget(tenantId: string, jobId: string) {
+  const job = await prisma.syncJob.findFirst({
+    where: { id: jobId, tenantId },
+    include: { rolledBack: { select: { id: true } } },
+  })
+
+  if (!job || !ROLLBACK_JOB_TYPES.includes(job.type as typeof ROLLBACK_JOB_TYPES[number])) {
+    throw new RollbackError('Sync job not found or cannot be rolled back')
+  }
+
+  if (job.status === 'running' || job.status === 'skipped') {
+    throw new RollbackError('Only finished sync jobs can be rolled back')
+  }
+
+  if (job.rolledBack) {
+    throw new RollbackError('Sync job has already been rolled back')
+  }
+
+  const latest = await prisma.syncJob.findFirst({
+    where: { tenantId, type: job.type, status: { in: ['success', 'failed'] } },
+    orderBy: { createdAt: 'desc' },
+    select: { id: true },
+  })
+
+  if (latest?.id !== job.id) {
+    throw new RollbackError('Only the most recent sync can be rolled back')
+  }
+
+  return job
+}
+
+/**
+ * Roll back a sync job
+ */
+export async function rollbackSyncJob(tenantId: string, jobId: string) {
+  const { skipped, result } = await runWithSyncLock(tenantId, 'rollback', async () => {
+    // Checked under the lock, so no sync or rollback can finish in between
+    const target = await getRollbackTarget(tenantId, jobId)
+    const job = await startSyncJob(tenantId, 'rollback')
+
+    const stats: RollbackStats = {
+      invoicesCancelled: 0,
+      invoicesCredited: 0,
+      paymentsDeleted: 0,
+      articlesDeleted: 0,
+      articlesDeactivated: 0,
+      articlesRestored: 0,
+      ordersRestored: 0,
+      ordersDeleted: 0,
+      productsRestored: 0,
+      productsDeleted: 0,
+    }
+    const errors: Array<{ entityType: string; entityId: string; message: string }> = []
+
+    try {
+      await prisma.syncJob.update({
+        where: { id: job.id },
+        data: { rollbackOfJobId: target.id },
+      })
+
+      const changes = await prisma.syncJobChange.findMany({
+        where: { syncJobId: target.id, tenantId },
+        orderBy: { createdAt: 'desc' },
+      })
+
+      const needsFortnox = changes.some(change => change.entityType.startsWith('fortnox_'))
+      const fortnox = needsFortnox ? createFortnoxClient(tenantId) : null
+
+      for (const change of changes) {
+        assertSyncLockHeld()
+
+        try {
+          switch (change.entityType) {
+            case 'fortnox_invoice':
+              await revertInvoice(fortnox!, tenantId, change.entityId, stats)
+              break
+            case 'fortnox_invoice_payment':
+              await revertInvoicePayment(fortnox!, change.entityId, stats)
+              break
+            case 'fortnox_article':
+              await revertArticle(fortnox!, change, stats)
+              break
+            case 'order':
+              await revertOrder(change, stats)
+              break
+            case 'product':
+              await revertProduct(change, stats)
+              break
+          }
+        } catch (error) {
+          errors.push({ entityType: change.entityType, entityId: change.entityId, message: errorMessage(error) })
+        }
+      }
+
+      return await completeSyncJob(job.id, {
+        createdCount: stats.invoicesCredited,
+        updatedCount: changes.length - errors.length,
+        summary: {
+          rollbackOfJobId: target.id,
+          rollbackOfType: target.type,
+          ...stats,
+          errors: errors as unknown as Prisma.InputJsonArray,
+        },
+        errorText: errors.length > 0 ? `${errors.length} change(s) could not be rolled back` : null,
+      })
+    } catch (error) {
+      console.error('Rollback error:', error)
+      return failSyncJob(job.id, error, { rollbackOfJobId: target.id, ...stats })
+    }
+  })
+
+  if (skipped) {
+    throw new RollbackError(skipped.errorText ?? 'Sync is already running')
+  }
+
+  return result!
+}
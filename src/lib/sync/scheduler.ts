@@ -0,0 +1,164 @@
+/**
+ * Sync Scheduler
+ *
+ * Finds tenants whose next scheduled sync is due (based on
+ * SyncSettings.intervalMinutes) and runs product and order syncs for
+ * them. Tenants are only scheduled once onboarding is complete (see
+ * lib/onboarding.ts). Invoked periodically by a cron trigger (see
+ * /api/cron/sync).
+ */
+
+import { prisma } from '@/lib/prisma'
+import { SubscriptionStatus } from '@/generated/prisma'
+import { getBillingAccess } from '@/lib/billing'
+import { syncOrders } from '@/lib/sync/orders'
+import { syncProducts } from '@/lib/sync/products'
+import { runWithSyncLock } from '@/lib/sync/lock'
+
+// Allowed sync interval range (30 minutes - 24 hours)
+export const MIN_INTERVAL_MINUTES = 30
+export const MAX_INTERVAL_MINUTES = 24 * 60
+
+// Tenants processed per scheduler invocation (keeps runs within function timeouts)
+const MAX_TENANTS_PER_RUN = 25
+
+// No new tenant sync is started after this long, leaving room for the
+// last one within the cron route's 300 second limit
+const RUN_TIME_BUDGET_MS = 3 * 60 * 1000
+
+export type ScheduledRunResult =
+  | { tenantId: string; status: 'ran'; jobIds: string[] }
+  | { tenantId: string; status: 'skipped'; reason: string; jobIds: string[] }
+
+/**
+ * Clamp a configured interval to the supported range
+ */
+export function clampInterval(minutes: number): number {
+  return Math.min(Math.max(minutes, MIN_INTERVAL_MINUTES), MAX_INTERVAL_MINUTES)
+}
+
+/**
+ * Reason a tenant may not be synced, or null if it can be
+ */
+function getIneligibleReason(tenant: {
+  billingSubscription: { status: SubscriptionStatus | null; pastDueSince: Date | null } | null
+  fortnoxIntegration: { status: string } | null
+  shopifyStores: { status: string }[]
+}): string | null {
+  const billing = getBillingAccess(tenant.billingSubscription)
+  if (!billing.canSync) {
+    return billing.reason ?? 'Billing does not allow syncing'
+  }
+
+  if (tenant.fortnoxIntegration?.status === 'expired') {
+    return 'Fortnox connection has expired'
+  }
+
+  if (tenant.shopifyStores.some(store => store.status === 'expired')) {
+    return 'Shopify connection has expired'
+  }
+
+  return null
+}
+
+/**
+ * Find tenants whose scheduled sync is due
+ */
+export async function findDueTenants(now = new Date()) {
+  const tenants = await prisma.tenant.findMany({
+    where: {
+      status: 'active',
+      syncSettings: { enabled: true },
+      // Onboarding runs the first sync itself
+      tenantOnboarding: {
+        fortnoxConnected: true,
+        shopifyStoreAdded: true,
+        webshopKundConfigured: true,
+        firstSyncCompleted: true,
+      },
+    },
+    select: {
+      id: true,
+      syncSettings: { select: { intervalMinutes: true } },
+      billingSubscription: { select: { status: true, pastDueSince: true } },
+      fortnoxIntegration: { select: { status: true } },
+      shopifyStores: { select: { status: true } },
+      syncJobs: {
+        where: { type: 'orders', status: { not: 'skipped' } },
+        orderBy: { createdAt: 'desc' },
+        take: 1,
+        select: { createdAt: true },
+      },
+    },
+  })
+
+  return tenants
+    .filter(tenant => {
+      const lastRun = tenant.syncJobs[0]?.createdAt
+      if (!lastRun) {
+        return true
+      }
+      const interval = clampInterval(tenant.syncSettings?.intervalMinutes ?? MIN_INTERVAL_MINUTES)
+      return lastRun.getTime() + interval * 60 * 1000 <= now.getTime()
+    })
+    .sort((a, b) => (a.syncJobs[0]?.createdAt.getTime() ?? 0) - (b.syncJobs[0]?.createdAt.getTime() ?? 0))
+}
+
+/**
+ * Run the scheduled sync (products, then orders) for one tenant
+ */
+export async function runTenantSync(tenantId: string): Promise<ScheduledRunResult> {
+  const { skipped, result } = await runWithSyncLock(tenantId, 'orders', async () => {
+    const productJob = await syncProducts(tenantId)
+    const orderJob = await syncOrders(tenantId)
+    return [productJob.id, orderJob.id]
+  })
+
+  if (skipped) {
+    return { tenantId, status: 'skipped', reason: skipped.errorText ?? '', jobIds: [skipped.id] }
+  }
+
+  return { tenantId, status: 'ran', jobIds: result ?? [] }
+}
+
+/**
+ * Run due tenant syncs until the per-run tenant or time budget is used up
+ * Tenants not reached stay due for the next invocation.
+ */
+export async function runScheduler(now = new Date()): Promise<ScheduledRunResult[]> {
+  const startedAt = Date.now()
+  const dueTenants = await findDueTenants(now)
+  const results: ScheduledRunResult[] = []
+  const eligible: typeof dueTenants = []
+
+  // Ineligible tenants stay due, so they must not use up the per-run budget
+  for (const tenant of dueTenants) {
+    const reason = getIneligibleReason(tenant)
+
+    if (reason) {
+      results.push({ tenantId: tenant.id, status: 'skipped', reason, jobIds: [] })
+    } else {
+      eligible.push(tenant)
+    }
+  }
+
+  for (const tenant of eligible.slice(0, MAX_TENANTS_PER_RUN)) {
+    if (Date.now() - startedAt >= RUN_TIME_BUDGET_MS) {
+      break
+    }
+
+    try {
+      results.push(await runTenantSync(tenant.id))
+    } catch (error) {
+      console.error(`Scheduled sync error for tenant ${tenant.id}:`, error)
+      results.push({
+        tenantId: tenant.id,
+        status: 'skipped',
+        reason: error instanceof Error ? error.message : 'Unknown error',
+        jobIds: [],
+      })
+    }
+  }
+
+  return results
+}
@@ -0,0 +1,17 @@
+/**
+ * Sync Settings
+ *
+ * Loads a tenant's sync configuration, creating the defaults on first use
+ */
+
+import { prisma } from '@/lib/prisma'
+
+export async function getSyncSettings(tenantId: string) {
+  return prisma.syncSettings.upsert({
+    where: { tenantId },
+    create: { tenantId },
+    update: {},
+  })
+}
+
+export type SyncSettingsRecord = Awaited<ReturnType<typeof getSyncSettings>>
@@ -0,0 +1,111 @@
+/**
+ * SKU Mapping Rules
+ *
+ * Structured rule (SyncSettings.skuMappingRule) describing how a Shopify
+ * variant is matched to a Fortnox article number.
+ */
+
+import type { ShopifyVariant } from '@/lib/shopify/types'
+
+export const SKU_SOURCES = ['sku', 'barcode', 'variant_id'] as const
+
+export type SkuSource = typeof SKU_SOURCES[number]
+
+export interface SkuMappingRule {
+  // Shopify variant field used as the article number
+  source: SkuSource
+  // Removed from the start of the Shopify value before mapping
+  stripPrefix?: string
+  // Prepended to form the Fortnox article number
+  prefix?: string
+  // Upper-case article numbers (Fortnox matching is case sensitive)
+  uppercase?: boolean
+}
+
+export const DEFAULT_SKU_MAPPING_RULE: SkuMappingRule = {
+  source: 'sku',
+}
+
+// Fortnox limits ArticleNumber to 50 characters from a restricted set
+const ARTICLE_NUMBER_MAX_LENGTH = 50
+const ARTICLE_NUMBER_REGEX = /^[A-Za-z0-9_\-+./]+$/
+
+/**
+ * Validate a rule, returning a list of errors (empty if valid)
+ */
+export function validateSkuMappingRule(value: unknown): string[] {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return ['SKU mapping rule must be an object']
+  }
+
+  const rule = value as Record<string, unknown>
+  const errors: string[] = []
+
+  if (!SKU_SOURCES.includes(rule.source as SkuSource)) {
+    errors.push(`source must be one of: ${SKU_SOURCES.join(', ')}`)
+  }
+
+  for (const key of ['stripPrefix', 'prefix'] as const) {
+    if (rule[key] !== undefined && typeof rule[key] !== 'string') {
+      errors.push(`${key} must be a string`)
+    }
+  }
+
+  if (rule.uppercase !== undefined && typeof rule.uppercase !== 'boolean') {
+    errors.push('uppercase must be a boolean')
+  }
+
+  return errors
+}
+
+/**
+ * Parse the stored rule
+ * Missing or legacy free-text values fall back to the default rule.
+ */
+export function parseSkuMappingRule(value: unknown): SkuMappingRule {
+  if (validateSkuMappingRule(value).length > 0) {
+    return DEFAULT_SKU_MAPPING_RULE
+  }
+  return value as SkuMappingRule
+}
+
+/**
+ * Map a Shopify variant to a Fortnox article number
+ * Returns null if the variant has no usable identifier.
+ */
+export function mapArticleNumber(variant: ShopifyVariant, rule: SkuMappingRule): string | null {
+  let value: string | null
+
+  switch (rule.source) {
+    case 'barcode':
+      value = variant.barcode
+      break
+    case 'variant_id':
+      value = String(variant.id)
+      break
+    case 'sku':
+    default:
+      value = variant.sku
+  }
+
+  value = value?.trim() ?? ''
+
+  if (rule.stripPrefix && value.startsWith(rule.stripPrefix)) {
+    value = value.slice(rule.stripPrefix.length)
+  }
+
+  if (!value) {
+    return null
+  }
+
+  let articleNumber = `${rule.prefix ?? ''}${value}`
+  if (rule.uppercase) {
+    articleNumber = articleNumber.toUpperCase()
+  }
+
+  if (articleNumber.length > ARTICLE_NUMBER_MAX_LENGTH || !ARTICLE_NUMBER_REGEX.test(articleNumber)) {
+    return null
+  }
+
+  return articleNumber
+}
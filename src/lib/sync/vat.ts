@@ -0,0 +1,285 @@
+/**
+ * VAT Engine
+ *
+ * Decides the VAT rate and Fortnox sales account of every invoice row,
+ * and the invoice's Fortnox VAT type (SyncSettings.vatHandlingMode):
+ * - shopify_tax_lines: the rate Shopify charged on each line, treated
+ *   by the country the order ships to:
+ *   - Sweden: 25, 12, 6 or 0%
+ *   - another EU country without VAT charged: 0% reverse charge, which
+ *     needs the buyer's VAT number (B2B)
+ *   - another EU country with VAT charged: the destination country's
+ *     rate through OSS if the tenant is registered, Swedish VAT if not
+ *   - outside the EU: 0% export
+ * - standard_25: every taxable line at 25%
+ * - no_vat: every line at 0% (not VAT registered)
+ *
+ * Invoices whose totals do not match the Shopify order after rounding
+ * are rejected with VatError, so the order is flagged instead of being
+ * invoiced with the wrong VAT.
+ */
+
+import { VatHandlingMode } from '@/generated/prisma'
+import type { FortnoxInvoice, FortnoxVatType } from '@/lib/fortnox/types'
+import { isAccountNumber } from '@/lib/fortnox/accounts'
+import type { ShopifyOrder, ShopifyTaxLine } from '@/lib/shopify/types'
+import type { SyncSettingsRecord } from '@/lib/sync/settings'
+
+export const VAT_HANDLING_MODES = Object.values(VatHandlingMode)
+
+export const SWEDISH_VAT_RATES = [25, 12, 6, 0] as const
+
+export type SwedishVatRate = typeof SWEDISH_VAT_RATES[number]
+
+export type VatTreatment = 'domestic' | 'eu_reverse_charge' | 'oss' | 'export'
+
+export interface VatAccounts {
+  domestic: Record<SwedishVatRate, number>
+  euReverseCharge: number
+  oss: number
+  export: number
+}
+
+// Sales accounts from the BAS chart of accounts
+export const DEFAULT_VAT_ACCOUNTS: VatAccounts = {
+  domestic: { 25: 3001, 12: 3002, 6: 3003, 0: 3004 },
+  euReverseCharge: 3108,
+  oss: 3106,
+  export: 3105,
+}
+
+export const FORTNOX_VAT_TYPES: Record<VatTreatment, FortnoxVatType> = {
+  domestic: 'SEVAT',
+  eu_reverse_charge: 'EUREVERSEDVAT',
+  oss: 'EUVAT',
+  export: 'EXPORT',
+}
+
+export interface VatSettings {
+  mode: VatHandlingMode
+  ossRegistered: boolean
+  accounts: VatAccounts
+}
+
+export interface RowVat {
+  VAT: number
+  AccountNumber: number
+}
+
+export class VatError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'VatError'
+  }
+}
+
+const HOME_COUNTRY = 'SE'
+
+const EU_COUNTRIES = [
+  'AT', 'BE', 'BG', 'CY', 'CZ', 'DE', 'DK', 'EE', 'ES', 'FI', 'FR', 'GR', 'HR', 'HU',
+  'IE', 'IT', 'LT', 'LU', 'LV', 'MT', 'NL', 'PL', 'PT', 'RO', 'SE', 'SI', 'SK',
+]
+
+// Checkout note attributes that hold the buyer's VAT number
+// ("VAT number", "VAT ID", "Momsregistreringsnummer", ...)
+const VAT_NUMBER_ATTRIBUTE = /^(vat|moms[a-z]*)[\s._-]*(id|nr|nummer|number|no)?$/i
+
+// Allowed difference per invoice row, for rounding to whole öre
+const ROUNDING_TOLERANCE = 0.01
+
+/**
+ * Check if a value is a supported VAT handling mode
+ */
+export function isVatHandlingMode(value: unknown): value is VatHandlingMode {
+  return VAT_HANDLING_MODES.includes(value as VatHandlingMode)
+}
+
+function validateAccount(value: unknown, key: string, errors: string[]) {
+  if (value !== undefined && !isAccountNumber(value)) {
+    errors.push(`${key} must be a four-digit account number`)
+  }
+}
+
+/**
+ * Validate account overrides (a partial VatAccounts), returning a list
+ * of errors (empty if valid)
+ */
+export function validateVatAccounts(value: unknown): string[] {
+  if (value === undefined || value === null) {
+    return []
+  }
+
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    return ['accounts must be an object']
+  }
+
+  const accounts = value as Record<string, unknown>
+  const errors: string[] = []
+
+  if (accounts.domestic !== undefined) {
+    if (!accounts.domestic || typeof accounts.domestic !== 'object' || Array.isArray(accounts.domestic)) {
+      errors.push('accounts.domestic must be an object')
+    } else {
+      for (const [rate, account] of Object.entries(accounts.domestic)) {
+        if (!SWEDISH_VAT_RATES.includes(Number(rate) as SwedishVatRate)) {
+          errors.push(`accounts.domestic rates must be one of: ${SWEDISH_VAT_RATES.join(', ')}`)
+        }
+        validateAccount(account, `accounts.domestic.${rate}`, errors)
+      }
+    }
+  }
+
+  for (const key of ['euReverseCharge', 'oss', 'export'] as const) {
+    validateAccount(accounts[key], `accounts.${key}`, errors)
+  }
+
+  return errors
+}
+
+/**
+ * Parse stored account overrides on top of the defaults
+ * Invalid values fall back to the defaults.
+ */
+export function parseVatAccounts(value: unknown): VatAccounts {
+  if (!value || validateVatAccounts(value).length > 0) {
+    return DEFAULT_VAT_ACCOUNTS
+  }
+
+  const overrides = value as Partial<VatAccounts>
+
+  return {
+    ...DEFAULT_VAT_ACCOUNTS,
+    ...overrides,
+    domestic: { ...DEFAULT_VAT_ACCOUNTS.domestic, ...overrides.domestic },
+  }
+}
+
+/**
+ * VAT configuration from the tenant's sync settings
+ */
+export function getVatSettings(settings: SyncSettingsRecord): VatSettings {
+  return {
+    mode: settings.vatHandlingMode,
+    ossRegistered: settings.ossRegistered,
+    accounts: parseVatAccounts(settings.vatAccountMapping),
+  }
+}
+
+/**
+ * Buyer's VAT number from the order's note attributes, or null
+ */
+export function extractVatNumber(order: ShopifyOrder): string | null {
+  const attribute = order.note_attributes?.find(note => VAT_NUMBER_ATTRIBUTE.test(note.name.trim()))
+  const value = attribute?.value?.replace(/\s/g, '').toUpperCase()
+
+  return value || null
+}
+
+/**
+ * Country the order ships to (billing country for unshipped orders)
+ */
+export function orderCountry(order: ShopifyOrder): string {
+  const country = order.shipping_address?.country_code ?? order.billing_address?.country_code
+  return country?.toUpperCase() || HOME_COUNTRY
+}
+
+/**
+ * Decide how VAT applies to an order
+ */
+export function vatTreatment(order: ShopifyOrder, vat: VatSettings): VatTreatment {
+  if (vat.mode !== 'shopify_tax_lines') {
+    return 'domestic'
+  }
+
+  const country = orderCountry(order)
+  const taxCharged = Number(order.total_tax) > 0
+
+  if (country === HOME_COUNTRY) {
+    return 'domestic'
+  }
+
+  if (!EU_COUNTRIES.includes(country)) {
+    if (taxCharged) {
+      throw new VatError(`VAT was charged on an export order to ${country}`)
+    }
+    return 'export'
+  }
+
+  if (!taxCharged) {
+    if (!extractVatNumber(order)) {
+      throw new VatError(`No VAT was charged on an order to ${country} and the buyer has no VAT number for reverse charge`)
+    }
+    return 'eu_reverse_charge'
+  }
+
+  return vat.ossRegistered ? 'oss' : 'domestic'
+}
+
+/**
+ * VAT rate and sales account for an invoice row
+ */
+export function rowVat(
+  taxLines: ShopifyTaxLine[],
+  taxable: boolean,
+  treatment: VatTreatment,
+  vat: VatSettings
+): RowVat {
+  switch (treatment) {
+    case 'eu_reverse_charge':
+      return { VAT: 0, AccountNumber: vat.accounts.euReverseCharge }
+    case 'export':
+      return { VAT: 0, AccountNumber: vat.accounts.export }
+  }
+
+  let rate = 0
+  if (taxable) {
+    switch (vat.mode) {
+      case 'shopify_tax_lines':
+        // Shopify rates are fractions; round to two decimals of a percent
+        rate = Math.round(taxLines.reduce((sum, line) => sum + line.rate, 0) * 10000) / 100
+        break
+      case 'standard_25':
+        rate = 25
+        break
+    }
+  }
+
+  if (treatment === 'oss') {
+    return { VAT: rate, AccountNumber: vat.accounts.oss }
+  }
+
+  if (!SWEDISH_VAT_RATES.includes(rate as SwedishVatRate)) {
+    throw new VatError(vat.ossRegistered
+      ? `${rate}% is not a Swedish VAT rate`
+      : `${rate}% is not a Swedish VAT rate (enable OSS for EU consumer sales)`)
+  }
+
+  return { VAT: rate, AccountNumber: vat.accounts.domestic[rate as SwedishVatRate] }
+}
+
+/**
+ * Check that an invoice adds up to the Shopify order's total and tax
+ */
+export function reconcileInvoice(order: ShopifyOrder, invoice: FortnoxInvoice): void {
+  let total = 0
+  let tax = 0
+
+  for (const row of invoice.InvoiceRows) {
+    const net = (row.Price ?? 0) * (row.DeliveredQuantity ?? 0) - (row.Discount ?? 0)
+    const rate = (row.VAT ?? 0) / 100
+    const rowTax = invoice.VATIncluded ? net - net / (1 + rate) : net * rate
+
+    total += invoice.VATIncluded ? net : net + rowTax
+    tax += rowTax
+  }
+
+  const tolerance = ROUNDING_TOLERANCE * Math.max(invoice.InvoiceRows.length, 1)
+
+  if (Math.abs(total - Number(order.total_price)) > tolerance) {
+    throw new VatError(`Invoice total ${total.toFixed(2)} does not match the order total ${order.total_price}`)
+  }
+
+  if (Math.abs(tax - Number(order.total_tax)) > tolerance) {
+    throw new VatError(`Invoice VAT ${tax.toFixed(2)} does not match the order VAT ${order.total_tax}`)
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * Tenant-Owned Models
+ *
+ * Prisma client model names whose rows belong to a single tenant,
+ * with the field that holds the owning tenant's id
+ */
+
+export const TENANT_OWNED_MODELS = {
+  tenant: 'id',
+  user: 'tenantId',
+  billingSubscription: 'tenantId',
+  tenantOnboarding: 'tenantId',
+  fortnoxIntegration: 'tenantId',
+  shopifyStore: 'tenantId',
+  syncSettings: 'tenantId',
+  order: 'tenantId',
+  product: 'tenantId',
+  syncJob: 'tenantId',
+  syncJobChange: 'tenantId',
+  syncLock: 'tenantId',
+  customerMapping: 'tenantId',
+  fortnoxDocument: 'tenantId',
+  // Platform-wide entries have no tenant; audit-log.ts reads across tenants for platform admins
+  auditLog: 'tenantId',
+} as const
+
+export type TenantOwnedModel = keyof typeof TENANT_OWNED_MODELS
+
+/**
+ * Convert a Prisma model name (`ShopifyStore`) to its client name (`shopifyStore`)
+ */
+export function toClientModelName(model: string): string {
+  return model.charAt(0).toLowerCase() + model.slice(1)
+}
+
+export function isTenantOwnedModel(model: string): model is TenantOwnedModel {
+  return Object.prototype.hasOwnProperty.call(TENANT_OWNED_MODELS, model)
+}
@@ -0,0 +1,187 @@
+/**
+ * Tenant-Scoped Prisma Client
+ *
+ * Builds a Prisma client from an AuthContext that injects the tenant id
+ * into every read and write of a tenant-owned model (see tenant-models.ts),
+ * so a route cannot forget to filter by tenant. Queries on tenant-owned
+ * models throw without a tenant context.
+ *
+ * With TENANT_RLS=true each scoped query also runs in a transaction that
+ * sets `app.tenant_id`, which the Postgres policies in prisma/rls.sql
+ * enforce as a second layer. Nested writes through relations are not
+ * rewritten; write tenant-owned rows through their own model.
+ */
+
+import { Prisma } from '@/generated/prisma'
+import { prisma } from '@/lib/prisma'
+import { AuthContext } from '@/lib/auth-context'
+import { canAccessTenant, isPlatformAdmin } from '@/lib/rbac'
+import { TENANT_OWNED_MODELS, TenantOwnedModel, isTenantOwnedModel, toClientModelName } from '@/lib/tenant-models'
+
+export class TenantIsolationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'TenantIsolationError'
+  }
+}
+
+type QueryArgs = Record<string, unknown>
+
+// Operations whose where clause is a unique selector
+const UNIQUE_WHERE_OPERATIONS = new Set([
+  'findUnique',
+  'findUniqueOrThrow',
+  'update',
+  'delete',
+  'upsert',
+])
+
+const CREATE_OPERATIONS = new Set(['create', 'createMany', 'createManyAndReturn'])
+
+function isRlsEnabled(): boolean {
+  return process.env.TENANT_RLS === 'true'
+}
+
+function assertOwnTenant(model: TenantOwnedModel, value: unknown, tenantId: string) {
+  if (value !== undefined && value !== tenantId) {
+    throw new TenantIsolationError(`${model} belongs to another tenant`)
+  }
+}
+
+function scopeData(model: TenantOwnedModel, data: unknown, tenantId: string): QueryArgs {
+  const field = TENANT_OWNED_MODELS[model]
+  const record = { ...(data as QueryArgs) }
+
+  if (model === 'tenant') {
+    throw new TenantIsolationError('Tenants cannot be created through a tenant-scoped client')
+  }
+
+  assertOwnTenant(model, record[field], tenantId)
+
+  if (record.tenant !== undefined) {
+    const connect = (record.tenant as { connect?: { id?: unknown } }).connect
+    assertOwnTenant(model, connect?.id ?? null, tenantId)
+  } else {
+    record[field] = tenantId
+  }
+
+  return record
+}
+
+function assertUpdateData(model: TenantOwnedModel, data: unknown, tenantId: string) {
+  const record = data as QueryArgs | undefined
+  const value = record?.[TENANT_OWNED_MODELS[model]]
+  const set = value && typeof value === 'object' ? (value as { set?: unknown }).set : value
+
+  assertOwnTenant(model, set, tenantId)
+
+  if (record?.tenant !== undefined) {
+    throw new TenantIsolationError(`${model} cannot be moved to another tenant`)
+  }
+}
+
+/**
+ * Rewrite query arguments so they only touch the tenant's rows
+ */
+export function scopeArgs(
+  model: TenantOwnedModel,
+  operation: string,
+  args: QueryArgs | undefined,
+  tenantId: string
+): QueryArgs {
+  const field = TENANT_OWNED_MODELS[model]
+  const scoped: QueryArgs = { ...args }
+
+  if (CREATE_OPERATIONS.has(operation)) {
+    scoped.data = Array.isArray(scoped.data)
+      ? scoped.data.map(item => scopeData(model, item, tenantId))
+      : scopeData(model, scoped.data, tenantId)
+    return scoped
+  }
+
+  if ('data' in scoped) {
+    assertUpdateData(model, scoped.data, tenantId)
+  }
+
+  if (operation === 'upsert') {
+    scoped.create = scopeData(model, scoped.create, tenantId)
+    assertUpdateData(model, scoped.update, tenantId)
+  }
+
+  if (UNIQUE_WHERE_OPERATIONS.has(operation)) {
+    const where = scoped.where as QueryArgs
+    assertOwnTenant(model, where[field], tenantId)
+    scoped.where = { ...where, [field]: tenantId }
+  } else {
+    scoped.where = scoped.where
+      ? { AND: [scoped.where, { [field]: tenantId }] }
+      : { [field]: tenantId }
+  }
+
+  return scoped
+}
+
+function createScopedClient(tenantId: string | null) {
+  return prisma.$extends({
+    name: 'tenant-scope',
+
+    query: {
+      $allModels: {
+        async $allOperations({ model, operation, args, query }) {
+          const clientModel = toClientModelName(model)
+
+          if (!isTenantOwnedModel(clientModel)) {
+            return query(args)
+          }
+
+          if (!tenantId) {
+            throw new TenantIsolationError(`${model}.${operation} requires a tenant context`)
+          }
+
+          const scoped = scopeArgs(clientModel, operation, args as QueryArgs, tenantId)
+
+          if (!isRlsEnabled()) {
+            return query(scoped)
+          }
+
+          const [, result] = await prisma.$transaction([
+            prisma.$executeRaw`SELECT set_config('app.tenant_id', ${tenantId}, TRUE)`,
+            query(scoped) as Prisma.PrismaPromise<unknown>,
+          ])
+          return result
+        },
+      },
+    },
+  })
+}
+
+export type TenantPrismaClient = ReturnType<typeof createScopedClient>
+
+/**
+ * Prisma client scoped to the caller's own tenant
+ */
+export function getTenantPrisma(auth: AuthContext): TenantPrismaClient {
+  return createScopedClient(auth.tenantId)
+}
+
+/**
+ * Prisma client scoped to another tenant
+ * Only allowed when canAccessTenant permits it (platform admins).
+ */
+export function getTenantPrismaFor(auth: AuthContext, tenantId: string): TenantPrismaClient {
+  if (!canAccessTenant(auth.role, auth.tenantId, tenantId)) {
+    throw new TenantIsolationError('Access to this tenant is not allowed')
+  }
+  return createScopedClient(tenantId)
+}
+
+/**
+ * Unscoped Prisma client for cross-tenant work
+ * Only platform admins may bypass tenant scoping.
+ */
+export function getUnscopedPrisma(auth: AuthContext) {
+  if (!isPlatformAdmin(auth.role)) {
+    throw new TenantIsolationError('Unscoped database access requires a platform admin')
+  }
+  return prisma
+}
@@ -0,0 +1,167 @@
+/**
+ * Tenant User Management
+ *
+ * Role changes, deactivation and ownership transfer within a tenant.
+ * Any change to a user's role or status revokes their existing sessions
+ * so the new permissions apply on next sign-in.
+ */
+
+import { prisma } from '@/lib/prisma'
+import { REVOKE_SESSIONS } from '@/lib/session-version'
+import { AssignableRole } from '@/lib/invitations'
+
+export class TenantUserError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'TenantUserError'
+  }
+}
+
+export const TENANT_USER_SELECT = {
+  id: true,
+  name: true,
+  email: true,
+  role: true,
+  status: true,
+  emailVerifiedAt: true,
+  createdAt: true,
+} as const
+
+export async function listTenantUsers(tenantId: string) {
+  return prisma.user.findMany({
+    where: { tenantId },
+    select: TENANT_USER_SELECT,
+    orderBy: { createdAt: 'asc' },
+  })
+}
+
+/**
+ * Load a user of the tenant that the acting user may manage
+ * Owners cannot manage themselves or another owner through these calls.
+ */
+async function getManageableUser(tenantId: string, actorId: string, userId: string) {
+  const user = await prisma.user.findFirst({
+    where: { id: userId, tenantId },
+  })
+
+  if (!user) {
+    return null
+  }
+
+  if (user.id === actorId) {
+    throw new TenantUserError('You cannot change your own account')
+  }
+
+  if (user.role === 'tenant_owner' || user.role === 'platform_admin') {
+    throw new TenantUserError('The tenant owner cannot be changed; transfer ownership instead')
+  }
+
+  return user
+}
+
+export async function changeUserRole(tenantId: string, actorId: string, userId: string, role: AssignableRole) {
+  const user = await getManageableUser(tenantId, actorId, userId)
+  if (!user) {
+    return null
+  }
+
+  if (user.role === role) {
+    return prisma.user.findUniqueOrThrow({ where: { id: user.id }, select: TENANT_USER_SELECT })
+  }
+
+  return prisma.user.update({
+    where: { id: user.id },
+    data: { role, ...REVOKE_SESSIONS },
+    select: TENANT_USER_SELECT,
+  })
+}
+
+/**
+ * Disable a user and sign them out everywhere
+ */
+export async function deactivateUser(tenantId: string, actorId: string, userId: string) {
+  const user = await getManageableUser(tenantId, actorId, userId)
+  if (!user) {
+    return null
+  }
+
+  return prisma.user.update({
+    where: { id: user.id },
+    data: { status: 'disabled', ...REVOKE_SESSIONS },
+    select: TENANT_USER_SELECT,
+  })
+}
+
+export async function reactivateUser(tenantId: string, actorId: string, userId: string) {
+  const user = await getManageableUser(tenantId, actorId, userId)
+  if (!user) {
+    return null
+  }
+
+  if (user.status !== 'disabled') {
+    throw new TenantUserError('Only disabled users can be reactivated')
+  }
+
+  return prisma.user.update({
+    where: { id: user.id },
+    data: { status: 'active' },
+    select: TENANT_USER_SELECT,
+  })
+}
+
+/**
+ * Withdraw a pending invitation
+ */
+export async function revokeInvitation(tenantId: string, actorId: string, userId: string) {
+  const user = await getManageableUser(tenantId, actorId, userId)
+  if (!user) {
+    return null
+  }
+
+  if (user.status !== 'pending') {
+    throw new TenantUserError('Only pending invitations can be revoked; deactivate active users instead')
+  }
+
+  await prisma.user.delete({ where: { id: user.id } })
+  return user
+}
+
+/**
+ * Make another active user the tenant owner; the current owner
+ * becomes a tenant admin
+ */
+export async function transferOwnership(tenantId: string, ownerId: string, newOwnerId: string) {
+  const [owner, newOwner] = await Promise.all([
+    prisma.user.findFirst({ where: { id: ownerId, tenantId, role: 'tenant_owner' } }),
+    prisma.user.findFirst({ where: { id: newOwnerId, tenantId } }),
+  ])
+
+  if (!owner) {
+    throw new TenantUserError('Only the tenant owner can transfer ownership')
+  }
+
+  if (!newOwner) {
+    return null
+  }
+
+  if (newOwner.id === owner.id) {
+    throw new TenantUserError('You already own this tenant')
+  }
+
+  if (newOwner.status !== 'active') {
+    throw new TenantUserError('Ownership can only be transferred to an active user')
+  }
+
+  return prisma.$transaction(async (tx) => {
+    await tx.user.update({
+      where: { id: owner.id },
+      data: { role: 'tenant_admin', ...REVOKE_SESSIONS },
+    })
+
+    return tx.user.update({
+      where: { id: newOwner.id },
+      data: { role: 'tenant_owner', ...REVOKE_SESSIONS },
+      select: TENANT_USER_SELECT,
+    })
+  })
+}
@@ -0,0 +1,282 @@
+/**
+ * Two-Factor Authentication
+ *
+ * Optional TOTP second factor for credentials sign-in. It is mandatory
+ * for platform admins, and tenant owners can require it for everyone in
+ * their tenant. Users who must have it but have not enrolled yet are
+ * signed in with a restricted session that only reaches the enrolment
+ * page (see middleware).
+ *
+ * The TOTP secret is encrypted at rest (encrypted-fields.ts); recovery
+ * codes are single use and only stored hashed.
+ */
+
+import { randomBytes } from 'crypto'
+import type { JWT } from 'next-auth/jwt'
+import QRCode from 'qrcode'
+import { UserRole } from '@/generated/prisma'
+import { prisma } from '@/lib/prisma'
+import { generateTotpSecret, totpUri, verifyTotpCode } from '@/lib/totp'
+import { hashToken } from '@/lib/user-tokens'
+import { REVOKE_SESSIONS } from '@/lib/session-version'
+
+export const RECOVERY_CODE_COUNT = 10
+export const TOTP_ISSUER = 'Koppling'
+
+export class TwoFactorError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'TwoFactorError'
+  }
+}
+
+export type SecondFactorMethod = 'totp' | 'recovery_code'
+
+/**
+ * Session update payload sent after enrolment (see the jwt callback)
+ */
+export interface TwoFactorUpdate {
+  twoFactorEnrolled?: boolean
+}
+
+/**
+ * Check whether a user must use a second factor
+ */
+export function isTwoFactorRequired(user: {
+  role: UserRole
+  tenant?: { requireTwoFactor: boolean } | null
+}): boolean {
+  return user.role === 'platform_admin' || !!user.tenant?.requireTwoFactor
+}
+
+// Recovery codes are compared case-insensitively, ignoring separators
+function normalizeRecoveryCode(code: string): string {
+  return code.replace(/[\s-]/g, '').toLowerCase()
+}
+
+function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const code = randomBytes(5).toString('hex')
+    return `${code.slice(0, 5)}-${code.slice(5)}`
+  })
+}
+
+function hashRecoveryCodes(codes: string[]): string[] {
+  return codes.map(code => hashToken(normalizeRecoveryCode(code)))
+}
+
+async function getUserWithTenant(userId: string) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    include: { tenant: { select: { requireTwoFactor: true } } },
+  })
+
+  if (!user) {
+    throw new TwoFactorError('User not found')
+  }
+
+  return user
+}
+
+export async function getTwoFactorStatus(userId: string) {
+  const user = await getUserWithTenant(userId)
+
+  return {
+    enabled: !!user.totpEnabledAt,
+    enabledAt: user.totpEnabledAt,
+    required: isTwoFactorRequired(user),
+    recoveryCodesRemaining: user.totpRecoveryCodeHashes.length,
+  }
+}
+
+/**
+ * Start enrolment: store a new (not yet active) secret and return the
+ * QR code for the authenticator app
+ */
+export async function startTwoFactorSetup(userId: string) {
+  const user = await getUserWithTenant(userId)
+
+  if (user.totpEnabledAt) {
+    throw new TwoFactorError('Two-factor authentication is already enabled')
+  }
+
+  const secret = generateTotpSecret()
+  const uri = totpUri(secret, user.email, TOTP_ISSUER)
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { totpSecret: secret, totpLastStep: null },
+  })
+
+  return {
+    secret,
+    uri,
+    qrCode: await QRCode.toDataURL(uri),
+  }
+}
+
+/**
+ * Confirm enrolment with a code from the app
+ * Returns the recovery codes; they are only shown this once.
+ */
+export async function enableTwoFactor(userId: string, code: string): Promise<string[]> {
+  const user = await getUserWithTenant(userId)
+
+  if (user.totpEnabledAt) {
+    throw new TwoFactorError('Two-factor authentication is already enabled')
+  }
+
+  if (!user.totpSecret) {
+    throw new TwoFactorError('Start two-factor setup first')
+  }
+
+  const step = verifyTotpCode(user.totpSecret, code)
+  if (step === null) {
+    throw new TwoFactorError('Invalid authentication code')
+  }
+
+  const recoveryCodes = generateRecoveryCodes()
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      totpEnabledAt: new Date(),
+      totpLastStep: step,
+      totpRecoveryCodeHashes: hashRecoveryCodes(recoveryCodes),
+    },
+  })
+
+  return recoveryCodes
+}
+
+/**
+ * Check a TOTP or recovery code for a user with 2FA enabled
+ * TOTP codes are accepted once per time step; recovery codes once ever.
+ */
+export async function verifySecondFactor(userId: string, code: string): Promise<SecondFactorMethod | null> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { totpSecret: true, totpEnabledAt: true, totpLastStep: true, totpRecoveryCodeHashes: true },
+  })
+
+  if (!user?.totpEnabledAt || !user.totpSecret) {
+    return null
+  }
+
+  const step = verifyTotpCode(user.totpSecret, code)
+
+  if (step !== null) {
+    // Conditional update so the same code cannot be used twice
+    const { count } = await prisma.user.updateMany({
+      where: { id: userId, OR: [{ totpLastStep: null }, { totpLastStep: { lt: step } }] },
+      data: { totpLastStep: step },
+    })
+    return count > 0 ? 'totp' : null
+  }
+
+  const hash = hashToken(normalizeRecoveryCode(code))
+  if (!user.totpRecoveryCodeHashes.includes(hash)) {
+    return null
+  }
+
+  // Only succeeds if no other request consumed a code in the meantime
+  const { count } = await prisma.user.updateMany({
+    where: { id: userId, totpRecoveryCodeHashes: { equals: user.totpRecoveryCodeHashes } },
+    data: { totpRecoveryCodeHashes: user.totpRecoveryCodeHashes.filter(existing => existing !== hash) },
+  })
+
+  return count > 0 ? 'recovery_code' : null
+}
+
+async function requireSecondFactor(userId: string, code: string) {
+  if (!(await verifySecondFactor(userId, code))) {
+    throw new TwoFactorError('Invalid authentication code')
+  }
+}
+
+/**
+ * Turn 2FA off (not allowed where it is required)
+ */
+export async function disableTwoFactor(userId: string, code: string): Promise<void> {
+  const user = await getUserWithTenant(userId)
+
+  if (isTwoFactorRequired(user)) {
+    throw new TwoFactorError('Two-factor authentication is required for your account')
+  }
+
+  await requireSecondFactor(userId, code)
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      totpSecret: null,
+      totpEnabledAt: null,
+      totpLastStep: null,
+      totpRecoveryCodeHashes: [],
+    },
+  })
+}
+
+/**
+ * Replace all recovery codes
+ */
+export async function regenerateRecoveryCodes(userId: string, code: string): Promise<string[]> {
+  await requireSecondFactor(userId, code)
+
+  const recoveryCodes = generateRecoveryCodes()
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { totpRecoveryCodeHashes: hashRecoveryCodes(recoveryCodes) },
+  })
+
+  return recoveryCodes
+}
+
+/**
+ * Require (or stop requiring) 2FA for every user of a tenant
+ * The acting user must have enrolled first. Users who have not are
+ * signed out so they have to enrol on their next sign-in.
+ */
+export async function setTenantTwoFactorRequirement(
+  tenantId: string,
+  actorId: string,
+  required: boolean
+): Promise<void> {
+  if (required) {
+    const actor = await getUserWithTenant(actorId)
+    if (!actor.totpEnabledAt) {
+      throw new TwoFactorError('Enable two-factor authentication on your own account first')
+    }
+  }
+
+  await prisma.$transaction(async (tx) => {
+    await tx.tenant.update({
+      where: { id: tenantId },
+      data: { requireTwoFactor: required },
+    })
+
+    if (required) {
+      await tx.user.updateMany({
+        where: { tenantId, totpEnabledAt: null, status: 'active' },
+        data: REVOKE_SESSIONS,
+      })
+    }
+  })
+}
+
+/**
+ * Lift the enrolment restriction from a token once the user has enrolled
+ */
+export async function completeTwoFactorEnrolment(token: JWT): Promise<JWT> {
+  const user = await prisma.user.findUnique({
+    where: { id: token.id },
+    select: { totpEnabledAt: true },
+  })
+
+  if (!user?.totpEnabledAt) {
+    return token
+  }
+
+  return { ...token, twoFactorVerified: true, twoFactorEnrolmentRequired: false }
+}
@@ -0,0 +1,65 @@
+/**
+ * User Tokens
+ *
+ * Single-use, expiring tokens for password reset and email verification.
+ * Only a SHA-256 hash of the token is stored, so a database leak does
+ * not expose usable links.
+ */
+
+import { createHash, randomBytes } from 'crypto'
+import { prisma } from '@/lib/prisma'
+import { UserTokenType } from '@/generated/prisma'
+
+export const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000
+export const EMAIL_VERIFICATION_TTL_MS = 48 * 60 * 60 * 1000
+
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+/**
+ * Issue a new token, replacing any unused token of the same type
+ */
+export async function issueUserToken(userId: string, type: UserTokenType, ttlMs: number): Promise<string> {
+  const token = randomBytes(32).toString('base64url')
+
+  await prisma.$transaction(async (tx) => {
+    await tx.userToken.deleteMany({ where: { userId, type, usedAt: null } })
+    await tx.userToken.create({
+      data: {
+        userId,
+        type,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(Date.now() + ttlMs),
+      },
+    })
+  })
+
+  return token
+}
+
+/**
+ * Mark a token used and return its user id
+ * Returns null if the token is unknown, expired or already used.
+ */
+export async function consumeUserToken(token: string, type: UserTokenType): Promise<string | null> {
+  const tokenHash = hashToken(token)
+  const now = new Date()
+
+  // Conditional update so two concurrent requests cannot both use it
+  const { count } = await prisma.userToken.updateMany({
+    where: { tokenHash, type, usedAt: null, expiresAt: { gt: now } },
+    data: { usedAt: now },
+  })
+
+  if (count === 0) {
+    return null
+  }
+
+  const record = await prisma.userToken.findUnique({
+    where: { tokenHash },
+    select: { userId: true },
+  })
+
+  return record?.userId ?? null
+}
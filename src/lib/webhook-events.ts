@@ -0,0 +1,39 @@
+/**
+ * Webhook Event Deduplication
+ *
+ * Providers deliver webhooks at least once. Each delivery id is recorded
+ * once; later deliveries with the same id are recognised as duplicates.
+ * A delivery handled by several receivers (e.g. every store on a Shopify
+ * shop) is recorded under one id per receiver.
+ */
+
+import { prisma } from '@/lib/prisma'
+import { Prisma } from '@/generated/prisma'
+
+/**
+ * Record a delivery
+ * Returns false if the delivery was already recorded (duplicate).
+ */
+export async function recordWebhookEvent(provider: string, externalId: string, topic: string): Promise<boolean> {
+  try {
+    await prisma.webhookEvent.create({
+      data: { provider, externalId, topic },
+    })
+    return true
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return false
+    }
+    throw error
+  }
+}
+
+/**
+ * Forget a delivery so the provider's retry is processed again
+ * (used when handling the first delivery failed)
+ */
+export async function forgetWebhookEvent(provider: string, externalId: string): Promise<void> {
+  await prisma.webhookEvent.deleteMany({
+    where: { provider, externalId },
+  })
+}
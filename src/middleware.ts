@@ -2,15 +2,21 @@
  * Multi-Tenant Middleware
  *
  * Handles:
- * - Authentication checks
- * - Tenant context injection
- * - Role-based access control
+ * - Authentication checks (including revoked sessions)
+ * - Mandatory two-factor enrolment
+ * - Tenant context injection (identity headers sent by the client are
+ *   stripped on every request, public routes included)
+ * - Role-based access control (admin routes and page permissions)
  * - Protected route enforcement
  */
 
 import { withAuth } from 'next-auth/middleware'
+import type { NextRequestWithAuth } from 'next-auth/middleware'
 import { NextResponse } from 'next/server'
-import type { NextRequest } from 'next/server'
+import type { NextFetchEvent, NextRequest } from 'next/server'
+import { recordImpersonatedRequest } from '@/lib/impersonation'
+import { canAccessPage } from '@/lib/page-permissions'
+import { isSessionCurrent } from '@/lib/session-version'
 
 // Public routes that don't require authentication
 const PUBLIC_ROUTES = [
@@ -18,32 +24,56 @@ const PUBLIC_ROUTES = [
   '/auth/signin',
   '/auth/signup',
   '/auth/error',
+  '/auth/forgot-password',
+  '/auth/reset-password',
+  '/auth/invite',
   '/blog',
   '/changelog',
   '/api/auth',
+  '/api/cron', // Authenticated with CRON_SECRET
+  '/api/webhooks', // Authenticated with provider signatures
 ]
 
-// Admin-only routes (platform_admin role required)
-const ADMIN_ROUTES = [
-  '/admin',
+function isPublicRoute(pathname: string): boolean {
+  return PUBLIC_ROUTES.some(route =>
+    route === '/' ? pathname === '/' : pathname.startsWith(route)
+  )
+}
+
+// Routes reachable while two-factor enrolment is outstanding
+const TWO_FACTOR_ENROLMENT_ROUTES = [
+  '/account/two-factor',
+  '/api/account/two-factor',
 ]
 
-function isPublicRoute(pathname: string): boolean {
-  return PUBLIC_ROUTES.some(route => pathname.startsWith(route))
+function isTwoFactorEnrolmentRoute(pathname: string): boolean {
+  return TWO_FACTOR_ENROLMENT_ROUTES.some(route => pathname === route || pathname.startsWith(`${route}/`))
 }
 
+// Identity headers only middleware may set; audit and auth context trust them
+const IDENTITY_HEADERS = ['x-tenant-id', 'x-user-id', 'x-user-role', 'x-impersonator-id']
+
+function withoutIdentityHeaders(req: NextRequest): Headers {
+  const headers = new Headers(req.headers)
+  for (const name of IDENTITY_HEADERS) {
+    headers.delete(name)
+  }
+  return headers
+}
+
+// Admin-only routes (platform_admin role required)
 function isAdminRoute(pathname: string): boolean {
-  return ADMIN_ROUTES.some(route => pathname.startsWith(route))
+  return pathname === '/admin' || pathname.startsWith('/admin/')
 }
 
-export default withAuth(
-  function middleware(req) {
+const authMiddleware = withAuth(
+  async function middleware(req, event) {
     const token = req.nextauth.token
     const { pathname } = req.nextUrl
 
     // Allow public routes
     if (isPublicRoute(pathname)) {
-      return NextResponse.next()
+      return NextResponse.next({ request: { headers: withoutIdentityHeaders(req) } })
     }
 
     // Check if user is authenticated
@@ -53,11 +83,42 @@ export default withAuth(
       return NextResponse.redirect(url)
     }
 
+    // Reject sessions revoked by deactivation, password reset or role change
+    if (!(await isSessionCurrent(token))) {
+      if (pathname.startsWith('/api/')) {
+        return NextResponse.json(
+          { error: 'Unauthorized' },
+          { status: 401 }
+        )
+      }
+
+      const url = new URL('/auth/signin', req.url)
+      url.searchParams.set('callbackUrl', pathname)
+      return NextResponse.redirect(url)
+    }
+
+    // Users who must use 2FA but have not set it up can only enrol
+    if (token.twoFactorEnrolmentRequired && !isTwoFactorEnrolmentRoute(pathname)) {
+      if (pathname.startsWith('/api/')) {
+        return NextResponse.json(
+          { error: 'Two-factor authentication setup required' },
+          { status: 403 }
+        )
+      }
+
+      return NextResponse.redirect(new URL('/account/two-factor', req.url))
+    }
+
     // Check admin routes
     if (isAdminRoute(pathname) && token.role !== 'platform_admin') {
       return NextResponse.redirect(new URL('/dashboard', req.url))
     }
 
+    // Check page permissions (see lib/page-permissions.ts)
+    if (!canAccessPage(token.role, pathname)) {
+      return NextResponse.redirect(new URL('/auth/error?error=AccessDenied', req.url))
+    }
+
     // For tenant routes, ensure user has a tenant (except platform admins)
     if (pathname.startsWith('/dashboard') || pathname.startsWith('/tenant')) {
       if (token.role !== 'platform_admin' && !token.tenantId) {
@@ -66,13 +127,29 @@ export default withAuth(
     }
 
     // Add tenant context to headers for API routes
-    const requestHeaders = new Headers(req.headers)
+    const requestHeaders = withoutIdentityHeaders(req)
     if (token.tenantId) {
       requestHeaders.set('x-tenant-id', token.tenantId)
     }
     requestHeaders.set('x-user-id', token.id)
     requestHeaders.set('x-user-role', token.role)
 
+    // Impersonation: expose the admin's identity and audit every request
+    if (token.impersonatorId) {
+      requestHeaders.set('x-impersonator-id', token.impersonatorId)
+
+      event.waitUntil(
+        recordImpersonatedRequest({
+          impersonatorId: token.impersonatorId,
+          userId: token.id,
+          tenantId: token.tenantId,
+          method: req.method,
+          path: pathname,
+          ipAddress: req.headers.get('x-forwarded-for')?.split(',')[0].trim() ?? null,
+        }).catch(error => console.error('Impersonation audit error:', error))
+      )
+    }
+
     return NextResponse.next({
       request: {
         headers: requestHeaders,
@@ -93,8 +170,19 @@ export default withAuth(
   }
 )
 
+/**
+ * next-auth skips the middleware above for its own routes and the sign-in
+ * and error pages; those requests still get the identity headers stripped
+ */
+export default async function middleware(req: NextRequestWithAuth, event: NextFetchEvent) {
+  return (await authMiddleware(req, event))
+    ?? NextResponse.next({ request: { headers: withoutIdentityHeaders(req) } })
+}
+
 // Configure which routes should be protected
 export const config = {
+  // Node.js runtime: the middleware writes impersonation audit entries
+  runtime: 'nodejs',
   matcher: [
     /*
      * Match all request paths except:
@@ -103,6 +191,6 @@ export const config = {
      * - favicon.ico (favicon file)
      * - public files (public folder)
      */
-    '/((?!_next/static|_next/image|favicon.ico|.*\\..*|api/auth).*)',
+    '/((?!_next/static|_next/image|favicon.ico|.*\\..*).*)',
   ],
 }
@@ -0,0 +1,113 @@
+/**
+ * API Rate Limiting Tests
+ *
+ * sendWithRetry against stubbed responses. Retry-After is set to 0 so
+ * retries do not wait on the backoff.
+ */
+
+import assert from 'node:assert/strict'
+import { describe, test } from 'node:test'
+import {
+  createRateLimitTracker,
+  createTokenBucket,
+  MAX_RETRIES,
+  retryDelayMs,
+  sendWithRetry,
+} from '@/lib/api-limits'
+
+function respond(...statuses: number[]) {
+  let calls = 0
+  const send = async () => {
+    const status = statuses[Math.min(calls++, statuses.length - 1)]
+    return new Response(null, { status, headers: { 'Retry-After': '0' } })
+  }
+  return { send, calls: () => calls }
+}
+
+function bucket() {
+  return createTokenBucket({ capacity: 100, refillPerSecond: 100 })
+}
+
+describe('sendWithRetry', () => {
+  test('retries 429s for any request', async () => {
+    const api = respond(429, 429, 200)
+
+    const response = await sendWithRetry(api.send, { bucket: bucket(), api: 'fortnox', idempotent: false })
+
+    assert.equal(response.status, 200)
+    assert.equal(api.calls(), 3)
+  })
+
+  test('retries 5xx responses only for idempotent requests', async () => {
+    const read = respond(503, 200)
+    const write = respond(503, 200)
+
+    assert.equal((await sendWithRetry(read.send, { bucket: bucket(), api: 'fortnox', idempotent: true })).status, 200)
+    assert.equal(read.calls(), 2)
+
+    assert.equal((await sendWithRetry(write.send, { bucket: bucket(), api: 'fortnox', idempotent: false })).status, 503)
+    assert.equal(write.calls(), 1)
+  })
+
+  test('retries network errors only for idempotent requests', async () => {
+    let calls = 0
+    const send = async () => {
+      if (calls++ === 0) {
+        throw new TypeError('fetch failed')
+      }
+      return new Response(null, { status: 200 })
+    }
+
+    await assert.rejects(sendWithRetry(send, { bucket: bucket(), api: 'shopify', idempotent: false }), TypeError)
+    assert.equal(calls, 1)
+  })
+
+  test('gives up after MAX_RETRIES and returns the last response', async () => {
+    const api = respond(429)
+
+    const response = await sendWithRetry(api.send, { bucket: bucket(), api: 'shopify', idempotent: true })
+
+    assert.equal(response.status, 429)
+    assert.equal(api.calls(), MAX_RETRIES + 1)
+  })
+
+  test('does not retry client errors', async () => {
+    const api = respond(404)
+
+    assert.equal((await sendWithRetry(api.send, { bucket: bucket(), api: 'fortnox', idempotent: true })).status, 404)
+    assert.equal(api.calls(), 1)
+  })
+
+  test('records requests and retries on the tracker', async () => {
+    const tracker = createRateLimitTracker()
+
+    await sendWithRetry(respond(429, 502, 200).send, { bucket: bucket(), api: 'fortnox', idempotent: true, tracker })
+
+    const { throttledMs, ...usage } = tracker.toJson().fortnox as Record<string, number>
+    assert.deepEqual(usage, { requests: 3, retries: 2, rateLimited: 1, serverErrors: 1 })
+    // The 429 empties the bucket, so the next attempt waits for a token
+    assert.ok(throttledMs > 0)
+  })
+})
+
+describe('retryDelayMs', () => {
+  test('honours Retry-After in seconds, capped', () => {
+    assert.equal(retryDelayMs(0, '2'), 2000)
+    assert.equal(retryDelayMs(0, '3600'), 30_000)
+  })
+
+  test('backs off exponentially without Retry-After', () => {
+    const delay = retryDelayMs(3, null)
+    assert.ok(delay >= 4000 && delay < 4500)
+  })
+})
+
+describe('createTokenBucket', () => {
+  test('waits for tokens once the bucket is empty', async () => {
+    const limited = createTokenBucket({ capacity: 2, refillPerSecond: 20 })
+
+    assert.equal(await limited.take(), 0)
+    assert.equal(await limited.take(), 0)
+    assert.ok((await limited.take()) > 0)
+  })
+})
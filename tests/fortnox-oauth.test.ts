@@ -0,0 +1,179 @@
+/**
+ * Fortnox Token Refresh Tests
+ *
+ * refreshFortnoxToken against an in-memory stand-in for the Prisma
+ * client (installed as the process singleton before the module loads)
+ * and a stubbed token endpoint.
+ */
+
+import assert from 'node:assert/strict'
+import { afterEach, before, beforeEach, describe, mock, test } from 'node:test'
+
+const TENANT_ID = 'tenant-1'
+
+interface IntegrationRow {
+  tenantId: string
+  status: string
+  accessTokenSecret: string | null
+  refreshTokenSecret: string | null
+  expiresAt: Date | null
+}
+
+let integration: IntegrationRow
+let fortnoxConnected: boolean
+let lockQueue: Promise<unknown>
+
+const fakePrisma = {
+  fortnoxIntegration: {
+    async findUnique() {
+      return { ...integration }
+    },
+    async update({ data }: { data: Partial<IntegrationRow> }) {
+      integration = { ...integration, ...data }
+      return integration
+    },
+  },
+  tenantOnboarding: {
+    async updateMany({ data }: { data: { fortnoxConnected: boolean } }) {
+      fortnoxConnected = data.fortnoxConnected
+      return { count: 1 }
+    },
+  },
+  platformSettings: {
+    async findFirst() {
+      return null
+    },
+  },
+  // Interactive transactions hold the advisory lock until fn settles
+  async $transaction(arg: unknown) {
+    if (Array.isArray(arg)) {
+      return Promise.all(arg)
+    }
+
+    let release!: () => void
+    const previous = lockQueue
+    lockQueue = new Promise<void>(resolve => { release = resolve })
+
+    const fn = arg as (tx: unknown) => Promise<unknown>
+    return fn({
+      async $executeRaw() {
+        await previous
+        return 1
+      },
+    }).finally(() => release())
+  },
+}
+
+;(globalThis as unknown as { prisma: unknown }).prisma = fakePrisma
+process.env.FORTNOX_CLIENT_ID = 'client-id'
+process.env.FORTNOX_CLIENT_SECRET = 'client-secret'
+process.env.FORTNOX_REDIRECT_URL = 'http://localhost/callback'
+
+// Loaded after the stand-in is installed
+let oauth: typeof import('@/lib/fortnox/oauth')
+
+before(async () => {
+  oauth = await import('@/lib/fortnox/oauth')
+})
+
+function tokenResponse(status: number, body: unknown) {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } })
+}
+
+describe('refreshFortnoxToken', () => {
+  beforeEach(() => {
+    integration = {
+      tenantId: TENANT_ID,
+      status: 'connected',
+      accessTokenSecret: 'access-1',
+      refreshTokenSecret: 'refresh-1',
+      expiresAt: new Date(),
+    }
+    fortnoxConnected = true
+    lockQueue = Promise.resolve()
+  })
+
+  afterEach(() => {
+    mock.restoreAll()
+  })
+
+  test('stores the new token pair', async () => {
+    const fetchMock = mock.method(globalThis, 'fetch', async () =>
+      tokenResponse(200, { access_token: 'access-2', refresh_token: 'refresh-2', expires_in: 3600, token_type: 'bearer' }))
+
+    assert.equal(await oauth.refreshFortnoxToken(TENANT_ID), 'access-2')
+    assert.equal(integration.refreshTokenSecret, 'refresh-2')
+    assert.equal(new URLSearchParams(String(fetchMock.mock.calls[0].arguments[1]?.body)).get('refresh_token'), 'refresh-1')
+  })
+
+  test('concurrent refreshes use the refresh token once', async () => {
+    let issued = 0
+    const fetchMock = mock.method(globalThis, 'fetch', async (_url: unknown, init?: RequestInit) => {
+      const refreshToken = new URLSearchParams(String(init?.body)).get('refresh_token')
+      if (refreshToken !== `refresh-${issued + 1}`) {
+        return tokenResponse(400, { error: 'invalid_grant' })
+      }
+      issued++
+      return tokenResponse(200, {
+        access_token: `access-${issued + 1}`,
+        refresh_token: `refresh-${issued + 1}`,
+        expires_in: 3600,
+        token_type: 'bearer',
+      })
+    })
+
+    const tokens = await Promise.all([1, 2, 3].map(() => oauth.refreshFortnoxToken(TENANT_ID)))
+
+    assert.deepEqual(tokens, ['access-2', 'access-2', 'access-2'])
+    assert.equal(fetchMock.mock.callCount(), 1)
+    assert.equal(integration.status, 'connected')
+  })
+
+  test('expires the integration when the grant is rejected', async () => {
+    mock.method(globalThis, 'fetch', async () => tokenResponse(400, { error: 'invalid_grant' }))
+
+    await assert.rejects(oauth.refreshFortnoxToken(TENANT_ID), (error: unknown) =>
+      error instanceof oauth.FortnoxAuthError && error.rejected)
+    assert.equal(integration.status, 'expired')
+    assert.equal(fortnoxConnected, false)
+  })
+
+  test('keeps the integration when Fortnox is unavailable', async () => {
+    mock.method(globalThis, 'fetch', async () => tokenResponse(503, { message: 'Service Unavailable' }))
+
+    await assert.rejects(oauth.refreshFortnoxToken(TENANT_ID), (error: unknown) =>
+      error instanceof oauth.FortnoxAuthError && !error.rejected)
+    assert.equal(integration.status, 'connected')
+    assert.equal(integration.refreshTokenSecret, 'refresh-1')
+    assert.equal(fortnoxConnected, true)
+  })
+
+  test('keeps the integration when the token request times out', async () => {
+    mock.method(globalThis, 'fetch', async () => {
+      throw new DOMException('The operation was aborted due to timeout', 'TimeoutError')
+    })
+
+    await assert.rejects(oauth.refreshFortnoxToken(TENANT_ID), (error: unknown) =>
+      error instanceof oauth.FortnoxAuthError && !error.rejected)
+    assert.equal(integration.status, 'connected')
+    assert.equal(fortnoxConnected, true)
+  })
+
+  test('rejects tenants that are not connected', async () => {
+    integration.status = 'expired'
+    const fetchMock = mock.method(globalThis, 'fetch', async () => tokenResponse(500, {}))
+
+    await assert.rejects(oauth.refreshFortnoxToken(TENANT_ID), oauth.FortnoxAuthError)
+    assert.equal(fetchMock.mock.callCount(), 0)
+  })
+})
+
+describe('isRejectedGrant', () => {
+  test('only a 401 or invalid_grant means the grant is gone', () => {
+    assert.equal(oauth.isRejectedGrant(401, ''), true)
+    assert.equal(oauth.isRejectedGrant(400, '{"error":"invalid_grant"}'), true)
+    assert.equal(oauth.isRejectedGrant(400, '{"error":"invalid_request"}'), false)
+    assert.equal(oauth.isRejectedGrant(400, 'Bad Request'), false)
+    assert.equal(oauth.isRejectedGrant(502, '<html>Bad Gateway</html>'), false)
+  })
+})
@@ -0,0 +1,56 @@
+/**
+ * Shopify Client Retry Tests
+ *
+ * Which GraphQL requests are resent after a 5xx, against a stubbed
+ * fetch. Retry-After is set to 0 so retries do not wait on the backoff.
+ */
+
+import assert from 'node:assert/strict'
+import { afterEach, before, describe, mock, test } from 'node:test'
+
+// No database access is expected; the stand-in keeps the real client from loading
+;(globalThis as unknown as { prisma: unknown }).prisma = {}
+
+// Loaded after the stand-in is installed
+let client: typeof import('@/lib/shopify/client')
+
+before(async () => {
+  client = await import('@/lib/shopify/client')
+})
+
+function stubShopify(...statuses: number[]) {
+  let calls = 0
+  const fetchMock = mock.method(globalThis, 'fetch', async () => {
+    const status = statuses[Math.min(calls++, statuses.length - 1)]
+    const body = status === 200 ? { data: { ok: true } } : { errors: 'Internal error' }
+    return new Response(JSON.stringify(body), { status, headers: { 'Retry-After': '0' } })
+  })
+  return fetchMock
+}
+
+function createClient() {
+  return client.createShopifyClient({ shopDomain: 'retry-test.myshopify.com', accessTokenSecret: 'token' })
+}
+
+describe('createShopifyClient graphql', () => {
+  afterEach(() => {
+    mock.restoreAll()
+  })
+
+  test('retries queries on 5xx responses', async () => {
+    const fetchMock = stubShopify(503, 200)
+
+    assert.deepEqual(await createClient().graphql('query { shop { id } }'), { ok: true })
+    assert.equal(fetchMock.mock.callCount(), 2)
+  })
+
+  test('does not resend mutations after a 5xx response', async () => {
+    const fetchMock = stubShopify(503, 200)
+
+    await assert.rejects(
+      createClient().graphql('mutation { tagsAdd(id: "1", tags: ["a"]) { userErrors { message } } }'),
+      (error: unknown) => error instanceof client.ShopifyApiError && error.status === 503
+    )
+    assert.equal(fetchMock.mock.callCount(), 1)
+  })
+})
@@ -0,0 +1,99 @@
+/**
+ * Sign-In Throttling Tests
+ *
+ * Runs against the in-memory rate limit store.
+ */
+
+import assert from 'node:assert/strict'
+import { beforeEach, describe, test } from 'node:test'
+import { createMemoryRateLimitStore, getRateLimitStore, setRateLimitStore } from '@/lib/rate-limit'
+import {
+  MAX_EMAIL_REQUESTS_PER_ADDRESS,
+  MAX_FAILURES_PER_EMAIL,
+  progressiveDelayMs,
+  recordSignInSuccess,
+  releaseSignInAttempt,
+  throttleEmailRequest,
+  throttleSignIn,
+  TooManyAttemptsError,
+} from '@/lib/sign-in-throttle'
+
+const EMAIL = 'user@example.com'
+const IP = '203.0.113.7'
+
+async function count(key: string) {
+  return (await getRateLimitStore().get(key))?.count ?? 0
+}
+
+describe('throttleSignIn', () => {
+  beforeEach(() => {
+    setRateLimitStore(createMemoryRateLimitStore())
+  })
+
+  test('lets only the allowed number of parallel attempts through', async () => {
+    const results = await Promise.allSettled(
+      Array.from({ length: MAX_FAILURES_PER_EMAIL + 3 }, () => throttleSignIn(EMAIL, IP))
+    )
+
+    const passed = results.filter(result => result.status === 'fulfilled')
+    const rejected = results.filter(result => result.status === 'rejected')
+
+    assert.equal(passed.length, MAX_FAILURES_PER_EMAIL)
+    assert.equal(rejected.length, 3)
+    for (const result of rejected) {
+      assert.ok(result.reason instanceof TooManyAttemptsError)
+    }
+  })
+
+  test('rejects attempts while the email is locked out', async () => {
+    await Promise.allSettled(Array.from({ length: MAX_FAILURES_PER_EMAIL + 1 }, () => throttleSignIn(EMAIL, null)))
+
+    await assert.rejects(throttleSignIn(EMAIL, '198.51.100.1'), TooManyAttemptsError)
+    assert.ok((await getRateLimitStore().get(`signin:email:${EMAIL}`))?.lockedUntil)
+  })
+
+  test('matches the email case-insensitively', async () => {
+    await throttleSignIn(EMAIL, null)
+    await throttleSignIn(` ${EMAIL.toUpperCase()}`, null)
+
+    assert.equal(await count(`signin:email:${EMAIL}`), 2)
+  })
+
+  test('a successful sign-in resets the email and gives the IP its attempt back', async () => {
+    await throttleSignIn(EMAIL, IP)
+    await throttleSignIn('other@example.com', IP)
+    await recordSignInSuccess(EMAIL, IP)
+
+    assert.equal(await count(`signin:email:${EMAIL}`), 0)
+    assert.equal(await count(`signin:ip:${IP}`), 1)
+  })
+
+  test('a released attempt is not counted', async () => {
+    await throttleSignIn(EMAIL, IP)
+    await releaseSignInAttempt(EMAIL, IP)
+
+    assert.equal(await count(`signin:email:${EMAIL}`), 0)
+    assert.equal(await count(`signin:ip:${IP}`), 0)
+  })
+})
+
+describe('progressiveDelayMs', () => {
+  test('is free for the first attempts, then doubles up to a cap', () => {
+    assert.deepEqual([0, 1, 2, 3, 4, 5, 6, 10].map(progressiveDelayMs), [0, 0, 0, 1000, 2000, 4000, 8000, 8000])
+  })
+})
+
+describe('throttleEmailRequest', () => {
+  beforeEach(() => {
+    setRateLimitStore(createMemoryRateLimitStore())
+  })
+
+  test('limits requests per address, separately per kind', async () => {
+    for (let i = 0; i < MAX_EMAIL_REQUESTS_PER_ADDRESS; i++) {
+      await throttleEmailRequest('password_reset', EMAIL, IP)
+    }
+
+    await assert.rejects(throttleEmailRequest('password_reset', EMAIL.toUpperCase(), '198.51.100.1'), TooManyAttemptsError)
+    await throttleEmailRequest('verify_email', EMAIL, IP)
+  })
+})